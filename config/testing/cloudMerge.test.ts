@@ -0,0 +1,84 @@
+import { expect, test } from "@playwright/test"
+import { mergeShow } from "../../src/electron/cloud/merge"
+import { applyShowConflict } from "../../src/frontend/utils/cloudConflicts"
+import type { CloudConflict } from "../../src/types/Main"
+import type { Show } from "../../src/types/Show"
+
+function getShow(slides: { [key: string]: string }, layouts: string[] = ["layout"], modified = 1): Show {
+    return {
+        name: "Show",
+        category: null,
+        settings: { activeLayout: layouts[0], template: null },
+        timestamps: { created: 1, modified, used: null },
+        meta: {},
+        slides: Object.fromEntries(Object.entries(slides).map(([id, text]) => [id, { group: "", color: null, settings: {}, notes: "", items: [{ style: "", lines: [{ align: "", text: [{ style: "", value: text }] }] }] }])),
+        layouts: Object.fromEntries(layouts.map(id => [id, { name: id, notes: "", slides: Object.keys(slides).map(slideId => ({ id: slideId })) }])),
+        media: {}
+    }
+}
+
+const getText = (show: Show, slideId: string) => show.slides[slideId]?.items[0].lines?.[0].text[0].value
+
+test("slides added on both computers are kept", () => {
+    const conflicts: CloudConflict[] = []
+    const merged = mergeShow("show", getShow({ a: "A" }), getShow({ a: "A", b: "Mine" }), getShow({ a: "A", c: "Theirs" }), conflicts)
+
+    expect(Object.keys(merged.slides).sort()).toEqual(["a", "b", "c"])
+    // only the layout order has changed on both
+    expect(conflicts.map(a => a.itemType)).toEqual(["layout"])
+})
+
+test("the same slide added with different content is a conflict", () => {
+    const conflicts: CloudConflict[] = []
+    const merged = mergeShow("show", getShow({ a: "A" }), getShow({ a: "A", b: "Mine" }), getShow({ a: "A", b: "Theirs" }), conflicts)
+
+    expect(getText(merged, "b")).toBe("Mine")
+    expect(conflicts.map(a => a.itemId)).toEqual(["b"])
+})
+
+test("a slide deleted on one computer and changed on the other is a conflict", () => {
+    const conflicts: CloudConflict[] = []
+    const merged = mergeShow("show", getShow({ a: "A", b: "B" }), getShow({ a: "A" }), getShow({ a: "A", b: "Changed" }), conflicts)
+
+    // the local version (deleted) is kept until resolved
+    expect(merged.slides.b).toBeUndefined()
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0].local).toBeUndefined()
+    expect(getText({ ...merged, slides: { b: conflicts[0].cloud } }, "b")).toBe("Changed")
+
+    applyShowConflict(merged, conflicts[0], "theirs")
+    expect(getText(merged, "b")).toBe("Changed")
+})
+
+test("keeping both slides adds theirs after mine", () => {
+    const conflicts: CloudConflict[] = []
+    const merged = mergeShow("show", getShow({ a: "A", b: "B" }), getShow({ a: "A", b: "Mine" }), getShow({ a: "A", b: "Theirs" }), conflicts)
+    expect(conflicts).toHaveLength(1)
+
+    applyShowConflict(merged, conflicts[0], "both")
+
+    const slideIds = merged.layouts.layout.slides.map(a => a.id)
+    expect(slideIds).toHaveLength(3)
+    expect(slideIds.slice(0, 2)).toEqual(["a", "b"])
+    expect(getText(merged, "b")).toBe("Mine")
+    expect(getText(merged, slideIds[2])).toBe("Theirs")
+})
+
+test("the active layout is changed when it's deleted", () => {
+    const base = getShow({ a: "A" }, ["first", "second"])
+
+    const cloud = getShow({ a: "A" }, ["second"])
+    const merged = mergeShow("show", base, getShow({ a: "A" }, ["first", "second"]), cloud, [])
+    expect(merged.settings.activeLayout).toBe("second")
+
+    // deleted in the cloud, changed locally
+    const conflicts: CloudConflict[] = []
+    const local = getShow({ a: "A" }, ["first", "second"])
+    local.layouts.first.notes = "Changed"
+    const conflicted = mergeShow("show", base, local, cloud, conflicts)
+    expect(conflicts.map(a => a.itemId)).toEqual(["first"])
+
+    applyShowConflict(conflicted, conflicts[0], "theirs")
+    expect(conflicted.layouts.first).toBeUndefined()
+    expect(conflicted.settings.activeLayout).toBe("second")
+})
@@ -0,0 +1,47 @@
+import { expect, test } from "@playwright/test"
+import { convertICS, convertPlanCSV } from "../../src/frontend/converters/readingPlanParser"
+
+test("lectionary CSV with dates", () => {
+    const plan = convertPlanCSV(["Date,Readings", '2026-12-25,"Isaiah 9:2-7, Psalm 96",Luke 2:1-20', "2026-12-25,Titus 2:11-14", "12/27/2026,Proper 23: Job 23: 1-9; Psalm 22 : 1 - 15"].join("\n"))
+
+    expect(plan?.days).toBeUndefined()
+    expect(plan?.dates).toEqual({
+        "2026-12-25": ["Isaiah 9:2-7", "Psalm 96", "Luke 2:1-20", "Titus 2:11-14"],
+        "2026-12-27": ["Job 23:1-9", "Psalm 22:1-15"]
+    })
+})
+
+test("reading plan CSV with days", () => {
+    const plan = convertPlanCSV(["Day,Old Testament,New Testament", "1,Genesis 1-2,Matthew 1", "2,Genesis 3;Genesis 4,Matthew 2", '4,1 Kings 2,"John 3:16, 18"'].join("\r\n"))
+
+    expect(plan?.dates).toBeUndefined()
+    expect(plan?.days).toEqual([["Genesis 1-2", "Matthew 1"], ["Genesis 3", "Genesis 4", "Matthew 2"], [], ["1 Kings 2", "John 3:16, 18"]])
+    expect(plan?.startDate).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+})
+
+test("CSV without readings", () => {
+    expect(convertPlanCSV("Name,Value\nTitle,Plan")).toBeNull()
+})
+
+test("references with a label or spaces", () => {
+    const plan = convertPlanCSV(["2026-01-04,Proper 23: 1 Kings 2: 10-12", "2026-01-05,Job 23 :1", "2026-01-06,Psalm 119: 105 - 112"].join("\n"))
+
+    expect(plan?.dates).toEqual({
+        "2026-01-04": ["1 Kings 2:10-12"],
+        "2026-01-05": ["Job 23:1"],
+        "2026-01-06": ["Psalm 119:105-112"]
+    })
+})
+
+test("ICS events", () => {
+    const ics = ["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", "DTSTART;VALUE=DATE:20261225", "SUMMARY:Christmas Day: Isaiah 9:2-7\\, Psalm 96\\, Luke 2:1-20", "END:VEVENT", "BEGIN:VEVENT", "DTSTART:20261227T100000", "SUMMARY:First Sunday after Christmas", "DESCRIPTION:Isaiah 61:10-62:3\\nPsalm 148\\nGalatians 4: 4-7", "END:VEVENT", "BEGIN:VEVENT", "DTSTART:20261228", "SUMMARY:No readings", "END:VEVENT", "END:VCALENDAR"].join("\r\n")
+
+    expect(convertICS(ics)?.dates).toEqual({
+        "2026-12-25": ["Isaiah 9:2-7", "Psalm 96", "Luke 2:1-20"],
+        "2026-12-27": ["Isaiah 61:10-62:3", "Psalm 148", "Galatians 4:4-7"]
+    })
+})
+
+test("ICS without events", () => {
+    expect(convertICS("BEGIN:VCALENDAR\r\nEND:VCALENDAR")).toBeNull()
+})
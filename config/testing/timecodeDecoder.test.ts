@@ -0,0 +1,100 @@
+import { expect, test } from "@playwright/test"
+import { TimecodeDecoder, type TimecodeData } from "../../src/frontend/audio/timecodeDecoder"
+
+const SAMPLE_RATE = 48000
+const SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1]
+
+type Timecode = { hours: number; minutes: number; seconds: number; frames: number }
+
+// 80 bits, binary coded decimal values with the least significant bit first
+function getFrameBits({ hours, minutes, seconds, frames }: Timecode, dropFrame = false) {
+    const bits: number[] = new Array(80).fill(0)
+    const setValue = (start: number, length: number, value: number) => {
+        for (let i = 0; i < length; i++) bits[start + i] = (value >> i) & 1
+    }
+
+    setValue(0, 4, frames % 10)
+    setValue(8, 2, Math.floor(frames / 10))
+    bits[10] = dropFrame ? 1 : 0
+    setValue(16, 4, seconds % 10)
+    setValue(24, 3, Math.floor(seconds / 10))
+    setValue(32, 4, minutes % 10)
+    setValue(40, 3, Math.floor(minutes / 10))
+    setValue(48, 4, hours % 10)
+    setValue(56, 2, Math.floor(hours / 10))
+    SYNC_WORD.forEach((bit, i) => (bits[64 + i] = bit))
+
+    return bits
+}
+
+// biphase mark code: the level changes at the start of every bit, and in the middle of a "1"
+function getSignal(bits: number[], fps: number) {
+    const bitLength = SAMPLE_RATE / (fps * 80)
+    const samples: number[] = []
+
+    let level = -0.5
+    let position = 0
+    const addSamples = (length: number) => {
+        const end = Math.round(position + length)
+        while (samples.length < end) samples.push(level)
+        position += length
+    }
+
+    // the final change ends the last bit
+    ;[...bits, 0].forEach(bit => {
+        level = -level
+        if (!bit) return addSamples(bitLength)
+
+        addSamples(bitLength / 2)
+        level = -level
+        addSamples(bitLength / 2)
+    })
+
+    return new Float32Array(samples)
+}
+
+function decode(timecodes: Timecode[], fps: number, dropFrame = false) {
+    const received: TimecodeData[] = []
+    const decoder = new TimecodeDecoder(SAMPLE_RATE, data => received.push(data))
+
+    const signal = getSignal(
+        timecodes.flatMap(timecode => getFrameBits(timecode, dropFrame)),
+        fps
+    )
+    // processed in chunks, as from the audio input
+    for (let i = 0; i < signal.length; i += 2048) decoder.process(signal.subarray(i, i + 2048))
+
+    return received
+}
+
+const getTime = ({ hours, minutes, seconds, frames }: Timecode, fps: number) => ((hours * 60 + minutes) * 60 + seconds) * 1000 + Math.round(((frames + 1) / fps) * 1000)
+
+const timecodes: Timecode[] = [4, 5, 6, 7].map(frames => ({ hours: 1, minutes: 2, seconds: 3, frames }))
+
+for (const fps of [24, 25, 30]) {
+    test(`decodes LTC frames at ${fps} fps`, () => {
+        const received = decode(timecodes, fps)
+
+        // the first frame might be used to find the signal
+        expect(received.length).toBeGreaterThanOrEqual(3)
+        expect(received.slice(-3)).toEqual(timecodes.slice(-3).map(timecode => ({ time: getTime(timecode, fps), fps, source: "ltc" })))
+    })
+}
+
+test("decodes drop frame timecode", () => {
+    const dropTimecodes = [27, 28, 29].map(frames => ({ hours: 12, minutes: 34, seconds: 56, frames }))
+    const received = decode(dropTimecodes, 30, true)
+
+    expect(received.at(-1)).toEqual({ time: getTime(dropTimecodes[2], 29.97), fps: 29.97, source: "ltc" })
+})
+
+test("ignores silence and invalid frames", () => {
+    const received: TimecodeData[] = []
+    const decoder = new TimecodeDecoder(SAMPLE_RATE, data => received.push(data))
+
+    decoder.process(new Float32Array(SAMPLE_RATE))
+    // hours above 23 are not a valid timecode
+    decoder.process(getSignal([...getFrameBits({ hours: 30, minutes: 0, seconds: 0, frames: 0 }), ...getFrameBits({ hours: 30, minutes: 0, seconds: 0, frames: 1 })], 25))
+
+    expect(received).toHaveLength(0)
+})
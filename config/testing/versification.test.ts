@@ -0,0 +1,95 @@
+import { expect, test } from "@playwright/test"
+import { getMappedReference, mapVerse } from "../../src/frontend/components/drawer/bible/versification"
+import type { VersificationScheme } from "../../src/types/Scripture"
+
+const PSALMS = 19
+const JOEL = 29
+const MALACHI = 39
+
+// [book, default reference, scheme, reference in the scheme]
+const cases: [number | string, string, VersificationScheme, string][] = [
+    [JOEL, "2:27", "hebrew", "2:27"],
+    [JOEL, "2:28", "hebrew", "3:1"],
+    [JOEL, "2:32", "hebrew", "3:5"],
+    [JOEL, "3:1", "hebrew", "4:1"],
+    [MALACHI, "3:18", "hebrew", "3:18"],
+    [MALACHI, "4:1", "hebrew", "3:19"],
+    [MALACHI, "4:6", "hebrew", "3:24"],
+    [PSALMS, "3:1", "hebrew", "3:2"],
+    [PSALMS, "51:1", "hebrew", "51:3"],
+    [PSALMS, "1:1", "hebrew", "1:1"],
+    [PSALMS, "9:20", "lxx", "9:20"],
+    [PSALMS, "10:1", "lxx", "9:21"],
+    [PSALMS, "10:18", "lxx", "9:38"],
+    [PSALMS, "11:1", "lxx", "10:1"],
+    [PSALMS, "113:9", "lxx", "112:9"],
+    [PSALMS, "114:8", "lxx", "113:8"],
+    [PSALMS, "115:1", "lxx", "113:9"],
+    [PSALMS, "115:18", "lxx", "113:26"],
+    [PSALMS, "116:9", "lxx", "114:9"],
+    [PSALMS, "116:10", "lxx", "115:1"],
+    [PSALMS, "116:19", "lxx", "115:10"],
+    [PSALMS, "117:1", "lxx", "116:1"],
+    [PSALMS, "147:11", "lxx", "146:11"],
+    [PSALMS, "147:12", "lxx", "147:1"],
+    [PSALMS, "148:1", "lxx", "148:1"],
+    ["PSA", "116:10", "lxx", "115:1"],
+    [JOEL, "2:28", "lxx", "2:28"]
+]
+
+const toRef = (reference: string) => ({ chapter: Number(reference.split(":")[0]), verse: Number(reference.split(":")[1]) })
+
+for (const [book, reference, scheme, mappedReference] of cases) {
+    test(`${book} ${reference} is ${mappedReference} in ${scheme}`, () => {
+        expect(mapVerse(book, toRef(reference), "default", scheme)).toEqual(toRef(mappedReference))
+        expect(mapVerse(book, toRef(mappedReference), scheme, "default")).toEqual(toRef(reference))
+    })
+}
+
+test("Psalm titles are not verses in the default numbering", () => {
+    expect(mapVerse(PSALMS, toRef("3:1"), "hebrew", "default")).toBeNull()
+    expect(mapVerse(PSALMS, toRef("51:2"), "hebrew", "default")).toBeNull()
+    expect(mapVerse(PSALMS, toRef("51:3"), "hebrew", "lxx")).toEqual(toRef("50:1"))
+})
+
+// the mapped verses are stored as { "2:28": "3:1" } for the selected verses
+function getMappedVerses(book: number, chapter: number, verses: number[], from: VersificationScheme, to: VersificationScheme) {
+    const mappedVerses: { [key: string]: string } = {}
+    verses.forEach(verse => {
+        const mapped = mapVerse(book, { chapter, verse }, from, to)
+        if (mapped) mappedVerses[`${chapter}:${verse}`] = `${mapped.chapter}:${mapped.verse}`
+    })
+    return mappedVerses
+}
+
+test("mapped reference of verses in a new chapter", () => {
+    const mappedVerses = getMappedVerses(JOEL, 2, [28, 29, 30], "default", "hebrew")
+    expect(getMappedReference(mappedVerses, 2, ["28", "29", "30"])).toEqual({ chapter: 3, verses: ["1", "2", "3"] })
+})
+
+test("mapped reference across the chapter split", () => {
+    const mappedVerses = getMappedVerses(JOEL, 2, [27, 28], "default", "hebrew")
+    expect(getMappedReference(mappedVerses, 2, ["27", "28"])).toEqual({ chapter: 2, verses: ["27", "3:1"] })
+})
+
+test("mapped reference of split verses", () => {
+    const mappedVerses = getMappedVerses(MALACHI, 4, [1], "default", "hebrew")
+    expect(getMappedReference(mappedVerses, 4, ["1_1", "1_2"])).toEqual({ chapter: 3, verses: ["19", "19"] })
+})
+
+test("mapped reference round trip", () => {
+    const verses = [8, 9, 10, 11]
+    const mappedVerses = getMappedVerses(PSALMS, 116, verses, "default", "lxx")
+    const mapped = getMappedReference(mappedVerses, 116, verses.map(String))
+    expect(mapped).toEqual({ chapter: 114, verses: ["8", "9", "115:1", "115:2"] })
+
+    const back = mapped!.verses.map(verse => {
+        const [chapter, number] = verse.includes(":") ? verse.split(":").map(Number) : [mapped!.chapter, Number(verse)]
+        return mapVerse(PSALMS, { chapter, verse: number }, "lxx", "default")
+    })
+    expect(back).toEqual(verses.map(verse => ({ chapter: 116, verse })))
+})
+
+test("verses without a mapping have no reference", () => {
+    expect(getMappedReference({}, 1, ["1", "2"])).toBeNull()
+})
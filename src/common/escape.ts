@@ -0,0 +1,6 @@
+// shared by the exporters & the server clients
+
+// escape text for XML/HTML content & quoted attributes
+export function escapeXml(value: string) {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
@@ -0,0 +1,27 @@
+import type { Item } from "../types/Show"
+
+// shared by the app & the server clients
+
+// translated lines are stored in each item, so outputs can show different languages of the same show
+export const ORIGINAL_LANGUAGE = "original"
+export function getItemsInLanguage(items: Item[], language = "", secondLanguage = "") {
+    if (!language && !secondLanguage) return items
+
+    const firstLanguage = language || ORIGINAL_LANGUAGE
+    return items
+        .filter(item => !item.language || [firstLanguage, secondLanguage].includes(item.language)) // old separate translation items
+        .map(item => {
+            if (!item.lines || !item.translations) return item
+
+            // fall back to the original text if not translated
+            let lines = getLanguageLines(item, firstLanguage) || item.lines
+            if (secondLanguage && secondLanguage !== firstLanguage) lines = [...lines, ...(getLanguageLines(item, secondLanguage) || [])]
+
+            return { ...item, lines }
+        })
+}
+
+function getLanguageLines(item: Item, language: string) {
+    if (language === ORIGINAL_LANGUAGE) return item.lines
+    return item.translations?.[language]
+}
@@ -9,16 +9,18 @@ import { Main } from "../../types/IPC/Main"
 import type { ErrorLog, LyricSearchResult, OS } from "../../types/Main"
 import { setPlayingState, unsetPlayingAudio } from "../audio/nowPlaying"
 import { ContentProviderRegistry } from "../contentProviders"
+import { setCloudSecret } from "../cloud/secrets"
+import { CaptureHelper } from "../capture/CaptureHelper"
 import { restoreFiles } from "../data/backup"
 import { checkIfMediaDownloaded, downloadLessonsMedia, downloadMedia } from "../data/downloadMedia"
 import { importShow } from "../data/import"
 import { save } from "../data/save"
 import { config, error_log, getStore, stores, updateDataPath, userDataPath } from "../data/store"
-import { captureSlide, doesMediaExist, getThumbnail, getThumbnailFolderPath, pdfToImage, saveImage } from "../data/thumbnails"
+import { captureSlide, doesMediaExist, getAudioLoudness, getThumbnail, getThumbnailFolderPath, pdfToImage, saveAudioLoudness, saveImage } from "../data/thumbnails"
 import { OutputHelper } from "../output/OutputHelper"
 import { getPresentationApplications, presentationControl, startSlideshow } from "../output/ppt/presentation"
-import { closeServers, startServers, updateServerData } from "../servers"
-import { apiReturnData, emitOSC, startWebSocketAndRest, stopApiListener } from "../utils/api"
+import { closeServers, kickConnection, startServers, updateServerData } from "../servers"
+import { apiReturnData, clearApiRequestLog, emitOSC, getApiRequestLog, sendApiEvent, sendOSCFeedback, setApiAccess, startWebSocketAndRest, stopApiListener } from "../utils/api"
 import { closeMain, forceCloseApp } from "../utils/close"
 import {
     bundleMediaFiles,
@@ -47,7 +49,8 @@ import {
     writeFile
 } from "../utils/files"
 import { LyricSearch } from "../utils/LyricSearch"
-import { closeMidiInPorts, getMidiInputs, getMidiOutputs, receiveMidi, sendMidi } from "../utils/midi"
+import { closeMidiInPorts, getMidiInputs, getMidiOutputs, listenMidiTimecode, receiveMidi, sendMidi } from "../utils/midi"
+import { hashPassword, matchPassword } from "../utils/passwords"
 import { deleteShows, deleteShowsNotIndexed, getAllShows, getEmptyShows, refreshAllShows } from "../utils/shows"
 import { correctSpelling } from "../utils/spellcheck"
 import checkForUpdates from "../utils/updater"
@@ -74,6 +77,7 @@ export const mainResponses: MainResponses = {
     [Main.MEDIA]: () => getStore("MEDIA"),
     [Main.THEMES]: () => getStore("THEMES"),
     [Main.DRIVE_API_KEY]: () => getStore("DRIVE_API_KEY"),
+    [Main.CLOUD_SECRET]: (data) => setCloudSecret(data),
     [Main.HISTORY]: () => getStore("HISTORY"),
     [Main.USAGE]: () => getStore("USAGE"),
     [Main.CACHE]: () => getStore("CACHE"),
@@ -124,6 +128,8 @@ export const mainResponses: MainResponses = {
     // MEDIA
     [Main.DOES_MEDIA_EXIST]: (data) => doesMediaExist(data),
     [Main.GET_THUMBNAIL]: (data) => getThumbnail(data),
+    [Main.GET_AUDIO_LOUDNESS]: (data) => getAudioLoudness(data),
+    [Main.SAVE_AUDIO_LOUDNESS]: (data) => saveAudioLoudness(data),
     [Main.SAVE_IMAGE]: (data) => saveImage(data),
     [Main.PDF_TO_IMAGE]: (data) => pdfToImage(data),
     [Main.READ_EXIF]: (data) => readExifData(data),
@@ -148,11 +154,17 @@ export const mainResponses: MainResponses = {
     [Main.START]: (data) => startServers(data),
     [Main.STOP]: () => closeServers(),
     [Main.SERVER_DATA]: (data) => updateServerData(data),
+    [Main.SERVER_KICK]: (data) => kickConnection(data.id, data.connectionId),
     // WebSocket / REST / OSC
     [Main.WEBSOCKET_START]: (port) => startWebSocketAndRest(port),
     [Main.WEBSOCKET_STOP]: () => stopApiListener(),
     [Main.API_TRIGGER]: (data) => apiReturnData(data),
     [Main.EMIT_OSC]: (data) => emitOSC(data),
+    [Main.OSC_FEEDBACK]: (data) => sendOSCFeedback(data),
+    [Main.API_ACCESS]: (data) => setApiAccess(data),
+    [Main.API_REQUEST_LOG]: () => getApiRequestLog(),
+    [Main.API_REQUEST_LOG_CLEAR]: () => clearApiRequestLog(),
+    [Main.API_EVENT]: (data) => sendApiEvent(data),
     // MIDI
     [Main.GET_MIDI_OUTPUTS]: () => getMidiOutputs(),
     [Main.GET_MIDI_INPUTS]: () => getMidiInputs(),
@@ -161,6 +173,13 @@ export const mainResponses: MainResponses = {
     },
     [Main.RECEIVE_MIDI]: (data) => receiveMidi(data),
     [Main.CLOSE_MIDI]: (data) => closeMidiInPorts(data.id),
+    [Main.MIDI_TIMECODE]: (data) => listenMidiTimecode(data),
+    // OUTPUT STREAM
+    [Main.OUTPUT_STREAM_FRAME]: (data) => CaptureHelper.Streamer.getFrame(data.outputId),
+    [Main.OUTPUT_STREAM_DATA]: (data) => CaptureHelper.Streamer.receiveEncodedData(data),
+    // PASSWORDS
+    [Main.HASH_PASSWORD]: (data) => hashPassword(data.password),
+    [Main.MATCH_PASSWORD]: (data) => matchPassword(data),
     // LYRICS
     [Main.GET_LYRICS]: (data) => getLyrics(data),
     [Main.SEARCH_LYRICS]: (data) => searchLyrics(data),
@@ -4,11 +4,13 @@ import { NdiSender } from "../ndi/NdiSender"
 import { OutputHelper } from "../output/OutputHelper"
 import type { CaptureOptions } from "./CaptureOptions"
 import { CaptureLifecycle } from "./helpers/CaptureLifecycle"
+import { CaptureStreamer } from "./helpers/CaptureStreamer"
 import { CaptureTransmitter } from "./helpers/CaptureTransmitter"
 
 export class CaptureHelper {
     static Lifecycle = CaptureLifecycle
     static Transmitter = CaptureTransmitter
+    static Streamer = CaptureStreamer
 
     private static framerates: { [key: string]: number } = {
         stage: 20, // StageShow
@@ -24,14 +26,15 @@ export class CaptureHelper {
         const defaultFramerates = {
             ndi: this.framerates.connected,
             server: this.framerates.server,
-            stage: this.framerates.stage
+            stage: this.framerates.stage,
+            stream: CaptureStreamer.framerate
         }
 
         return {
             window,
             frameSubscription: null,
             displayFrequency: screen.displayFrequency || 60,
-            options: { ndi: false, server: false, stage: false },
+            options: { ndi: false, server: false, stage: false, stream: false },
             framerates: defaultFramerates,
             id
         }
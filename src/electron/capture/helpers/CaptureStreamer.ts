@@ -0,0 +1,309 @@
+import type { NativeImage } from "electron"
+import type { Express, Request, Response } from "express"
+import { ToMain } from "../../../types/IPC/ToMain"
+import { sendToMain } from "../../IPC/main"
+import { OutputHelper } from "../../output/OutputHelper"
+import { getServerData } from "../../servers"
+import { CaptureHelper } from "../CaptureHelper"
+import { getFragmentInfo, getVideoTrack, type VideoTrack } from "./fragmentedMp4"
+
+// Output streams that can be played without the OutputShow app (VLC, OBS media source, Safari, hls.js...)
+// /stream.mjpeg                      Motion JPEG (video only, lowest latency)
+// /stream.m3u8                       HLS with fragmented MP4 segments (video & audio, encoded by the main window)
+// /:outputId/stream.mjpeg|m3u8       a specific output (the selected OutputShow output is used by default)
+
+type HlsSegment = { fragments: Buffer[]; startTime: number; duration: number }
+type HlsStream = {
+    init: Buffer | null
+    videoTrack: VideoTrack | null
+    pending: Buffer
+    // the fragments since the last key frame
+    current: HlsSegment | null
+    segments: { index: number; duration: number; data: Buffer }[]
+    nextIndex: number
+    lastRequest: number
+    error: string
+}
+type MjpegStream = { clients: Response[]; timer: NodeJS.Timeout; jpeg: Buffer | null }
+
+const MJPEG_BOUNDARY = "frame"
+const JPEG_QUALITY = 85
+const HLS_SEGMENT_COUNT = 6
+// stop encoding when no player has requested the playlist for a while
+const HLS_TIMEOUT = 30000
+
+export class CaptureStreamer {
+    static framerate = 25
+
+    private static mjpegStreams: { [key: string]: MjpegStream } = {}
+    private static hlsStreams: { [key: string]: HlsStream } = {}
+    private static hlsTimeout: NodeJS.Timeout | null = null
+    private static encodedFrames: { [key: string]: { frame: NativeImage; jpeg: Buffer } } = {}
+
+    static addRoutes(app: Express) {
+        app.get("/stream.mjpeg", (req, res) => this.handleMjpegRequest(req, res))
+        app.get("/stream.m3u8", (req, res) => this.handlePlaylistRequest(req, res))
+        app.get("/:outputId/stream.mjpeg", (req, res) => this.handleMjpegRequest(req, res))
+        app.get("/:outputId/stream.m3u8", (req, res) => this.handlePlaylistRequest(req, res))
+        app.get("/:outputId/init.mp4", (req, res) => this.handleInitRequest(req, res))
+        app.get("/:outputId/segment/:index.m4s", (req, res) => this.handleSegmentRequest(req, res))
+    }
+
+    // MJPEG
+
+    private static handleMjpegRequest(req: Request, res: Response) {
+        const outputId = this.getOutputId(req.params.outputId)
+        if (!outputId) {
+            res.status(404).send("Output not found")
+            return
+        }
+
+        res.writeHead(200, {
+            "Content-Type": `multipart/x-mixed-replace; boundary=${MJPEG_BOUNDARY}`,
+            "Cache-Control": "no-cache, no-store, must-revalidate",
+            Pragma: "no-cache",
+            Connection: "close"
+        })
+
+        // each frame is encoded once for all clients
+        if (!this.mjpegStreams[outputId]) {
+            const timer = setInterval(() => this.sendMjpegFrame(outputId), Math.round(1000 / this.framerate))
+            this.mjpegStreams[outputId] = { clients: [], timer, jpeg: null }
+        }
+
+        const stream = this.mjpegStreams[outputId]
+        stream.clients.push(res)
+        this.updateCapture(outputId)
+
+        // the output might not change for a while
+        if (stream.jpeg) this.writeMjpegFrame(res, stream.jpeg)
+
+        req.on("close", () => {
+            const currentStream = this.mjpegStreams[outputId]
+            if (!currentStream) return
+
+            currentStream.clients = currentStream.clients.filter(client => client !== res)
+            if (!currentStream.clients.length) {
+                clearInterval(currentStream.timer)
+                delete this.mjpegStreams[outputId]
+            }
+            this.updateCapture(outputId)
+        })
+    }
+
+    private static sendMjpegFrame(outputId: string) {
+        const stream = this.mjpegStreams[outputId]
+        const jpeg = this.getFrame(outputId)
+        if (!stream || !jpeg || jpeg === stream.jpeg) return
+
+        stream.jpeg = jpeg
+        stream.clients.forEach(client => this.writeMjpegFrame(client, jpeg))
+    }
+
+    private static writeMjpegFrame(res: Response, jpeg: Buffer) {
+        res.write(`--${MJPEG_BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${jpeg.length}\r\n\r\n`)
+        res.write(jpeg)
+        res.write("\r\n")
+    }
+
+    // HLS
+
+    private static handlePlaylistRequest(req: Request, res: Response) {
+        const outputId = this.getOutputId(req.params.outputId)
+        if (!outputId) {
+            res.status(404).send("Output not found")
+            return
+        }
+
+        // relative segment paths need the output id in the path
+        if (!req.params.outputId) {
+            res.redirect(`/${encodeURIComponent(outputId)}/stream.m3u8`)
+            return
+        }
+
+        const stream = this.startEncoding(outputId)
+        stream.lastRequest = Date.now()
+
+        if (stream.error) {
+            res.status(503).send(stream.error)
+            return
+        }
+
+        // the player should retry until the first segments are ready
+        if (!stream.init || !stream.segments.length) {
+            res.setHeader("Retry-After", "2")
+            res.status(503).send("Stream is starting")
+            return
+        }
+
+        res.setHeader("Content-Type", "application/vnd.apple.mpegurl")
+        res.setHeader("Cache-Control", "no-cache")
+        res.send(this.getPlaylist(stream))
+    }
+
+    private static handleInitRequest(req: Request, res: Response) {
+        const init = this.hlsStreams[req.params.outputId]?.init
+        if (!init) {
+            res.status(404).send("Stream not found")
+            return
+        }
+
+        res.setHeader("Content-Type", "video/mp4")
+        res.send(init)
+    }
+
+    private static handleSegmentRequest(req: Request, res: Response) {
+        const index = Number(req.params.index)
+        const segment = this.hlsStreams[req.params.outputId]?.segments.find(a => a.index === index)
+        if (!segment) {
+            res.status(404).send("Segment not found")
+            return
+        }
+
+        res.setHeader("Content-Type", "video/iso.segment")
+        res.send(segment.data)
+    }
+
+    private static getPlaylist(stream: HlsStream) {
+        const targetDuration = Math.ceil(Math.max(...stream.segments.map(a => a.duration)))
+
+        const lines = ["#EXTM3U", "#EXT-X-VERSION:7", `#EXT-X-TARGETDURATION:${targetDuration}`, `#EXT-X-MEDIA-SEQUENCE:${stream.segments[0].index}`, '#EXT-X-MAP:URI="init.mp4"']
+        stream.segments.forEach(segment => lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, `segment/${segment.index}.m4s`))
+
+        return lines.join("\n") + "\n"
+    }
+
+    private static startEncoding(outputId: string) {
+        if (this.hlsStreams[outputId]) return this.hlsStreams[outputId]
+
+        this.hlsStreams[outputId] = { init: null, videoTrack: null, pending: Buffer.alloc(0), current: null, segments: [], nextIndex: 0, lastRequest: Date.now(), error: "" }
+        this.updateCapture(outputId)
+        sendToMain(ToMain.OUTPUT_STREAM_ENCODER, { outputId, active: true, framerate: this.framerate })
+
+        if (!this.hlsTimeout) this.hlsTimeout = setInterval(() => this.stopInactiveEncoding(), HLS_TIMEOUT / 3)
+
+        return this.hlsStreams[outputId]
+    }
+
+    private static stopInactiveEncoding() {
+        Object.keys(this.hlsStreams).forEach(outputId => {
+            if (Date.now() - this.hlsStreams[outputId].lastRequest < HLS_TIMEOUT) return
+            this.stopEncoding(outputId)
+        })
+
+        if (!Object.keys(this.hlsStreams).length && this.hlsTimeout) {
+            clearInterval(this.hlsTimeout)
+            this.hlsTimeout = null
+        }
+    }
+
+    private static stopEncoding(outputId: string) {
+        delete this.hlsStreams[outputId]
+        this.updateCapture(outputId)
+        sendToMain(ToMain.OUTPUT_STREAM_ENCODER, { outputId, active: false, framerate: this.framerate })
+    }
+
+    // data from the MediaRecorder (fragmented MP4)
+    static receiveEncodedData({ outputId, buffer, error }: { outputId: string; buffer?: Uint8Array; error?: string }) {
+        const stream = this.hlsStreams[outputId]
+        if (!stream) return
+
+        if (error) {
+            console.error("Output stream encoding failed:", error)
+            stream.error = error
+            return
+        }
+        if (!buffer) return
+
+        stream.pending = Buffer.concat([stream.pending, Buffer.from(buffer)])
+
+        // split the top level boxes: ftyp+moov is the init segment, followed by moof+mdat fragments
+        let fragment: Buffer | null = null
+        while (stream.pending.length >= 8) {
+            const size = this.getBoxSize(stream.pending)
+            if (!size || stream.pending.length < size) break
+
+            const box = stream.pending.subarray(0, size)
+            const type = box.toString("ascii", 4, 8)
+            stream.pending = stream.pending.subarray(size)
+
+            if (type === "ftyp") stream.init = Buffer.from(box)
+            else if (type === "moov") {
+                stream.init = Buffer.concat([stream.init || Buffer.alloc(0), box])
+                stream.videoTrack = getVideoTrack(box)
+                if (!stream.videoTrack) stream.error = "Could not find the encoded video"
+            } else if (type === "moof") fragment = Buffer.from(box)
+            else if (type === "mdat" && fragment) {
+                this.addFragment(stream, Buffer.concat([fragment, box]))
+                fragment = null
+            }
+        }
+
+        // keep an incomplete fragment for the next chunk
+        if (fragment) stream.pending = Buffer.concat([fragment, stream.pending])
+    }
+
+    private static getBoxSize(data: Buffer) {
+        const size = data.readUInt32BE(0)
+        if (size === 1 && data.length >= 16) return Number(data.readBigUInt64BE(8))
+        // size 0 (until end of file) is not used in fragmented files
+        if (size < 8) return 0
+        return size
+    }
+
+    // the recorder can cut fragments at any frame, segments have to start with a key frame to be played on their own
+    private static addFragment(stream: HlsStream, data: Buffer) {
+        const info = stream.videoTrack ? getFragmentInfo(data, stream.videoTrack) : null
+
+        if (info?.keyframe) {
+            if (stream.current) this.addSegment(stream, stream.current, info.startTime)
+            stream.current = { fragments: [], startTime: info.startTime, duration: 0 }
+        }
+        // fragments before the first key frame can't be decoded
+        if (!stream.current) return
+
+        stream.current.fragments.push(data)
+        stream.current.duration += info?.duration || 0
+    }
+
+    private static addSegment(stream: HlsStream, segment: HlsSegment, nextStartTime: number) {
+        // the decode time of the next key frame, or the sample durations
+        const duration = nextStartTime > segment.startTime ? nextStartTime - segment.startTime : segment.duration
+
+        stream.segments.push({ index: stream.nextIndex, duration: Math.max(0.001, duration), data: Buffer.concat(segment.fragments) })
+        stream.nextIndex++
+
+        if (stream.segments.length > HLS_SEGMENT_COUNT) stream.segments.shift()
+    }
+
+    // FRAMES
+
+    // each captured frame is only encoded once, for both the MJPEG & the HLS stream
+    // frames are only encoded when a stream requests them, at most at the stream frame rate
+    static getFrame(outputId: string) {
+        const frame = CaptureHelper.storedFrames[outputId]
+        if (!frame || frame.isEmpty()) return null
+
+        const encoded = this.encodedFrames[outputId]
+        if (encoded?.frame === frame) return encoded.jpeg
+
+        const jpeg = frame.toJPEG(JPEG_QUALITY)
+        this.encodedFrames[outputId] = { frame, jpeg }
+        return jpeg
+    }
+
+    // capture the output while anyone is streaming it
+    private static updateCapture(outputId: string) {
+        const active = !!this.mjpegStreams[outputId] || !!this.hlsStreams[outputId]
+        if (!active) delete this.encodedFrames[outputId]
+        CaptureHelper.Lifecycle.startCapture(outputId, { stream: active })
+    }
+
+    private static getOutputId(outputId: string | undefined) {
+        const outputs = OutputHelper.getAllOutputs().filter(output => output.window && !output.window.isDestroyed())
+        if (outputId) return outputs.find(output => output.id === outputId)?.id || ""
+
+        const selectedId = getServerData("OUTPUT_STREAM").outputId
+        return outputs.find(output => output.id === selectedId)?.id || outputs[0]?.id || ""
+    }
+}
@@ -0,0 +1,135 @@
+// Reading the boxes of fragmented MP4 files (ISO/IEC 14496-12), used to split the HLS output stream into segments
+
+type Box = { type: string; start: number; end: number }
+export type VideoTrack = { id: number; timescale: number }
+export type FragmentInfo = { keyframe: boolean; startTime: number; duration: number }
+
+// top level boxes, the content starts after the header
+export function getBoxes(data: Buffer, start = 0, end = data.length) {
+    const boxes: Box[] = []
+
+    let offset = start
+    while (offset + 8 <= end) {
+        let size = data.readUInt32BE(offset)
+        let headerSize = 8
+        if (size === 1 && offset + 16 <= end) {
+            size = Number(data.readBigUInt64BE(offset + 8))
+            headerSize = 16
+        }
+        // size 0 (until end of file) is not used in fragmented files
+        if (size < headerSize || offset + size > end) break
+
+        boxes.push({ type: data.toString("ascii", offset + 4, offset + 8), start: offset + headerSize, end: offset + size })
+        offset += size
+    }
+
+    return boxes
+}
+
+function findBox(data: Buffer, parent: Box, type: string) {
+    return getBoxes(data, parent.start, parent.end).find(box => box.type === type)
+}
+
+// moov > trak > tkhd (track id) & mdia > mdhd (timescale), hdlr (handler type)
+export function getVideoTrack(moov: Buffer): VideoTrack | null {
+    const moovBox = getBoxes(moov).find(box => box.type === "moov")
+    if (!moovBox) return null
+
+    for (const trak of getBoxes(moov, moovBox.start, moovBox.end).filter(box => box.type === "trak")) {
+        const tkhd = findBox(moov, trak, "tkhd")
+        const mdia = findBox(moov, trak, "mdia")
+        const mdhd = mdia && findBox(moov, mdia, "mdhd")
+        const hdlr = mdia && findBox(moov, mdia, "hdlr")
+        if (!tkhd || !mdhd || !hdlr) continue
+
+        const handlerType = moov.toString("ascii", hdlr.start + 8, hdlr.start + 12)
+        if (handlerType !== "vide") continue
+
+        // version 1 has 64 bit creation & modification times
+        const id = moov.readUInt32BE(tkhd.start + (moov[tkhd.start] === 1 ? 20 : 12))
+        const timescale = moov.readUInt32BE(mdhd.start + (moov[mdhd.start] === 1 ? 20 : 12))
+        return { id, timescale }
+    }
+
+    return null
+}
+
+// the video track fragment of a moof box: if it starts with a key frame, its decode time & duration (seconds)
+export function getFragmentInfo(moof: Buffer, track: VideoTrack): FragmentInfo | null {
+    const moofBox = getBoxes(moof).find(box => box.type === "moof")
+    if (!moofBox) return null
+
+    for (const traf of getBoxes(moof, moofBox.start, moofBox.end).filter(box => box.type === "traf")) {
+        const tfhd = findBox(moof, traf, "tfhd")
+        if (!tfhd || moof.readUInt32BE(tfhd.start + 4) !== track.id) continue
+
+        const defaults = getTrackFragmentDefaults(moof, tfhd)
+
+        const tfdt = findBox(moof, traf, "tfdt")
+        const decodeTime = tfdt ? (moof[tfdt.start] === 1 ? Number(moof.readBigUInt64BE(tfdt.start + 4)) : moof.readUInt32BE(tfdt.start + 4)) : 0
+
+        const trun = findBox(moof, traf, "trun")
+        const samples = trun ? getTrackRunSamples(moof, trun, defaults) : { firstFlags: defaults.flags, duration: 0 }
+
+        // sample_is_non_sync_sample, fragments without sample flags are treated as key frames
+        const keyframe = samples.firstFlags === null || (samples.firstFlags & 0x10000) === 0
+        return { keyframe, startTime: decodeTime / track.timescale, duration: samples.duration / track.timescale }
+    }
+
+    return null
+}
+
+// tfhd: track_ID, then optional values depending on the flags
+function getTrackFragmentDefaults(data: Buffer, tfhd: Box) {
+    const flags = data.readUInt32BE(tfhd.start) & 0xffffff
+    let offset = tfhd.start + 8
+
+    if (flags & 0x1) offset += 8 // base_data_offset
+    if (flags & 0x2) offset += 4 // sample_description_index
+
+    let duration = 0
+    if (flags & 0x8) {
+        duration = data.readUInt32BE(offset)
+        offset += 4
+    }
+    if (flags & 0x10) offset += 4 // default_sample_size
+
+    const sampleFlags = flags & 0x20 ? data.readUInt32BE(offset) : null
+    return { duration, flags: sampleFlags }
+}
+
+// trun: sample_count, then optional values depending on the flags, and each sample
+function getTrackRunSamples(data: Buffer, trun: Box, defaults: { duration: number; flags: number | null }) {
+    const flags = data.readUInt32BE(trun.start) & 0xffffff
+    const sampleCount = data.readUInt32BE(trun.start + 4)
+    let offset = trun.start + 8
+
+    if (flags & 0x1) offset += 4 // data_offset
+    let firstFlags = defaults.flags
+    if (flags & 0x4) {
+        firstFlags = data.readUInt32BE(offset)
+        offset += 4
+    }
+
+    const hasDuration = !!(flags & 0x100)
+    const hasSize = !!(flags & 0x200)
+    const hasFlags = !!(flags & 0x400)
+    const hasTimeOffset = !!(flags & 0x800)
+    const sampleSize = [hasDuration, hasSize, hasFlags, hasTimeOffset].filter(Boolean).length * 4
+
+    let duration = 0
+    for (let i = 0; i < sampleCount; i++) {
+        if (offset + sampleSize > trun.end) break
+
+        duration += hasDuration ? data.readUInt32BE(offset) : defaults.duration
+        if (hasDuration) offset += 4
+        if (hasSize) offset += 4
+        if (hasFlags) {
+            if (i === 0 && !(flags & 0x4)) firstFlags = data.readUInt32BE(offset)
+            offset += 4
+        }
+        if (hasTimeOffset) offset += 4
+    }
+
+    return { firstFlags, duration }
+}
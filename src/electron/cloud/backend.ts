@@ -0,0 +1,46 @@
+import type { CloudBackendId, CloudBackendsConfig } from "../../types/Main"
+import { driveBackend } from "./drive"
+import { createFolderBackend } from "./folder"
+import { createS3Backend } from "./s3"
+import { getCloudSecret } from "./secrets"
+import { createWebDAVBackend } from "./webdav"
+
+export interface CloudFile {
+    id: string
+    name: string
+    modified: number
+    isFolder?: boolean
+}
+
+// each sync method stores the same files in a main folder:
+// <store>.json, SHOWS_CONTENT.json & Bibles/<name>.fsb
+export interface CloudBackend {
+    // shown together with errors when the files can't be accessed
+    accessTip: string
+    connect(): Promise<{ status?: string; error?: string }>
+    getMainFolder(): Promise<{ id?: string; error?: string }>
+    // lists all files in the folder, unless a limit is set
+    listFiles(folderId: string, limit?: number): Promise<CloudFile[] | null>
+    createFolder(parentId: string, name: string): Promise<string | null>
+    // returns parsed JSON
+    downloadFile(file: CloudFile): Promise<any>
+    uploadFile(folderId: string, name: string, content: string, existingFile?: CloudFile): Promise<boolean>
+}
+
+let activeBackend: CloudBackend | null = null
+export function setCloudBackend(id: CloudBackendId = "google_drive", config: CloudBackendsConfig = {}) {
+    activeBackend = getBackend(id, config)
+    return activeBackend
+}
+
+export function getCloudBackend() {
+    return activeBackend
+}
+
+function getBackend(id: CloudBackendId, config: CloudBackendsConfig): CloudBackend | null {
+    if (id === "google_drive") return driveBackend
+    if (id === "webdav" && config.webdav?.url) return createWebDAVBackend(config.webdav, getCloudSecret("webdav"))
+    if (id === "s3" && config.s3?.bucket) return createS3Backend(config.s3, getCloudSecret("s3"))
+    if (id === "folder" && config.folder?.path) return createFolderBackend(config.folder)
+    return null
+}
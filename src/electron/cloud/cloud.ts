@@ -1,8 +1,9 @@
 import { CLOUD } from "../../types/Channels"
-import type { DriveData } from "../../types/Main"
+import type { CloudBackendId, CloudBackendsConfig, CloudConflict, DriveData } from "../../types/Main"
+import type { Show } from "../../types/Show"
 import type { Message } from "../../types/Socket"
-import { stores } from "../data/store"
-import { authenticate, listFiles, listFolders, syncDataDrive } from "./drive"
+import { getCloudBackend, setCloudBackend } from "./backend"
+import { syncData } from "./sync"
 
 export async function cloudConnect(e: Electron.IpcMainEvent, { channel, data }: Message) {
     const id = channel as keyof typeof cloudHelpers
@@ -15,30 +16,36 @@ export async function cloudConnect(e: Electron.IpcMainEvent, { channel, data }:
 }
 
 const cloudHelpers = {
-    DRIVE_CONNECT: async () => {
-        const keysFilePath = stores.DRIVE_API_KEY.path
+    DRIVE_CONNECT: async ({ backend, config }: { backend?: CloudBackendId; config?: CloudBackendsConfig } = {}) => {
+        const cloudBackend = setCloudBackend(backend, config)
+        if (!cloudBackend) return { error: "Error: The cloud sync method is not set up!" }
 
-        const status = await authenticate(keysFilePath)
+        const status = await cloudBackend.connect()
 
         return status
     },
     GET_MAIN_FOLDER: async ({ method }: { method: string | null }) => {
-        const folders = await listFolders()
-        if (folders === null) return { error: "Error: No access to the service account!" }
-        if (!folders?.[0]) return { error: "Error: Could not find any folders! Have you shared it with the service account?" }
+        const cloudBackend = getCloudBackend()
+        if (!cloudBackend) return { error: "Error: Not connected to the cloud!" }
+
+        const folder = await cloudBackend.getMainFolder()
+        if (!folder.id) return { error: folder.error }
 
         let existingData = false
         if (!method) {
-            const files = await listFiles(5)
+            const files = await cloudBackend.listFiles(folder.id, 5)
             if (files && files.length > 1) existingData = true
         }
 
-        return { id: folders[0].id, existingData }
+        return { id: folder.id, existingData }
     },
     SYNC_DATA: async (data: DriveData) => {
-        if (!data.mainFolderId) return {}
+        const cloudBackend = getCloudBackend()
+        if (!data.mainFolderId || !cloudBackend) return {}
 
-        const changes = await syncDataDrive(data)
-        return { changes }
-    },
+        const conflicts: CloudConflict[] = []
+        const mergedShows: { [key: string]: Show } = {}
+        const changes = await syncData(cloudBackend, data, conflicts, mergedShows)
+        return { changes, conflicts, mergedShows }
+    }
 }
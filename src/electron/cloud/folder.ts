@@ -0,0 +1,53 @@
+import path from "path"
+import type { CloudBackendsConfig } from "../../types/Main"
+import { doesPathExistAsync, fileContentMatchesAsync, getFileStatsAsync, makeDir, readFileAsync, readFolderAsync, writeFileAsync } from "../utils/files"
+import type { CloudBackend, CloudFile } from "./backend"
+
+// a shared/local folder (network share, Syncthing, Dropbox...)
+// folder ids are the full folder paths
+export function createFolderBackend(config: NonNullable<CloudBackendsConfig["folder"]>): CloudBackend {
+    return {
+        accessTip: "Check that the folder exists and can be written to.",
+        connect: async () => {
+            if (!(await doesPathExistAsync(config.path))) return { error: "Could not find the sync folder!" }
+            return { status: "connected" }
+        },
+        getMainFolder: () => Promise.resolve({ id: config.path }),
+        listFiles: async (folderId, limit) => {
+            if (!(await doesPathExistAsync(folderId))) return null
+
+            const names = await readFolderAsync(folderId)
+            const files = await Promise.all(
+                (limit ? names.slice(0, limit) : names).map(async name => {
+                    const stat = await getFileStatsAsync(path.join(folderId, name))
+                    return { id: path.join(folderId, name), name, modified: stat?.mtimeMs || 0, isFolder: !!stat?.isDirectory() }
+                })
+            )
+
+            return files as CloudFile[]
+        },
+        createFolder: async (parentId, name) => {
+            const folderPath = path.join(parentId, name)
+            makeDir(folderPath)
+
+            return (await doesPathExistAsync(folderPath)) ? folderPath : null
+        },
+        downloadFile: async file => {
+            const content = await readFileAsync(file.id)
+            if (!content) return null
+
+            try {
+                return JSON.parse(content)
+            } catch (err) {
+                console.error("Could not parse cloud file:", err)
+                return null
+            }
+        },
+        uploadFile: async (folderId, name, content) => {
+            const filePath = path.join(folderId, name)
+            if (await fileContentMatchesAsync(content, filePath)) return true
+
+            return writeFileAsync(filePath, content)
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import type { CloudConflict } from "../../types/Main"
+import type { Project } from "../../types/Projects"
+import type { Show } from "../../types/Show"
+
+// THREE-WAY MERGE
+
+// the content from the last sync is kept locally as the common base,
+// so changes made on both computers since then can be combined instead of the newest file replacing everything
+// (the base is stored by ./syncBase.ts, so the merge itself has no side effects)
+
+// conflicts keep the local version ("mine") until they are resolved by the user
+export function mergeShow(id: string, base: Show, local: Show, cloud: Show, conflicts: CloudConflict[]) {
+    const merged: Show = mergeValues(base, local, cloud, isNewer(cloud.timestamps?.modified, local.timestamps?.modified))
+    const parent = { type: "show" as const, parentId: id, parentName: local.name || cloud.name || id }
+
+    merged.slides = mergeRecords(base.slides, local.slides, cloud.slides, (slideId, localSlide, cloudSlide) => {
+        conflicts.push({ ...parent, id: `${id}_slide_${slideId}`, itemType: "slide", itemId: slideId, local: localSlide, cloud: cloudSlide })
+        return localSlide
+    })
+
+    merged.layouts = mergeRecords(base.layouts, local.layouts, cloud.layouts, (layoutId, localLayout, cloudLayout) => {
+        conflicts.push({ ...parent, id: `${id}_layout_${layoutId}`, itemType: "layout", itemId: layoutId, local: localLayout, cloud: cloudLayout })
+        return localLayout
+    })
+
+    // the active layout might have been deleted on the other computer
+    const layoutIds = Object.keys(merged.layouts)
+    if (layoutIds.length && !merged.layouts[merged.settings?.activeLayout]) merged.settings = { ...merged.settings, activeLayout: layoutIds[0] }
+
+    return merged
+}
+
+// PROJECTS.json: { projects, folders, projectTemplates }
+export function mergeProjects(base: any, local: any, cloud: any, conflicts: CloudConflict[]) {
+    const newest = <T extends DataRecord>(baseItem: T | undefined, localItem: T | undefined, cloudItem: T | undefined) => {
+        if (!localItem || !cloudItem) return mergeValue(baseItem, localItem, cloudItem, () => localItem || cloudItem)
+        return mergeValues(baseItem, localItem, cloudItem, isNewer(cloudItem.modified, localItem.modified))
+    }
+
+    return {
+        projects: mergeRecords<Project>(base?.projects, local?.projects, cloud?.projects, (id, localProject, cloudProject) => {
+            if (!localProject || !cloudProject) return newest(base?.projects?.[id], localProject, cloudProject)
+            return mergeProject(id, base?.projects?.[id], localProject, cloudProject, conflicts)
+        }),
+        folders: mergeRecords<DataRecord>(base?.folders, local?.folders, cloud?.folders, (id, localFolder, cloudFolder) => newest(base?.folders?.[id], localFolder, cloudFolder)),
+        projectTemplates: mergeRecords<DataRecord>(base?.projectTemplates, local?.projectTemplates, cloud?.projectTemplates, (id, localTemplate, cloudTemplate) => newest(base?.projectTemplates?.[id], localTemplate, cloudTemplate))
+    }
+}
+
+function mergeProject(id: string, base: Project | undefined, local: Project, cloud: Project, conflicts: CloudConflict[]) {
+    const merged: Project = mergeValues(base, local, cloud, isNewer(cloud.modified, local.modified))
+
+    // the same show can be added multiple times, so items are identified by their occurrence
+    const baseItems = getProjectItems(base?.shows || [])
+    const localItems = getProjectItems(local.shows || [])
+    const cloudItems = getProjectItems(cloud.shows || [])
+
+    const items = mergeRecords(baseItems, localItems, cloudItems, (itemId, localItem, cloudItem) => {
+        conflicts.push({ type: "project", parentId: id, parentName: local.name || cloud.name || id, id: `${id}_item_${itemId}`, itemType: "item", itemId, local: localItem, cloud: cloudItem })
+        return localItem
+    })
+
+    merged.shows = mergeOrder(Object.keys(localItems), Object.keys(cloudItems))
+        .filter(itemId => items[itemId])
+        .map(itemId => items[itemId])
+
+    return merged
+}
+
+function getProjectItems(shows: Project["shows"]) {
+    const items: { [key: string]: Project["shows"][number] } = {}
+    const occurrences: { [key: string]: number } = {}
+
+    shows.forEach(item => {
+        occurrences[item.id] = (occurrences[item.id] || 0) + 1
+        items[`${item.id}:${occurrences[item.id]}`] = item
+    })
+
+    return items
+}
+
+// local order, with items only in the cloud added after their previous item
+function mergeOrder(localKeys: string[], cloudKeys: string[]) {
+    const order = [...localKeys]
+
+    cloudKeys.forEach((key, i) => {
+        if (order.includes(key)) return
+
+        const previousIndex = i > 0 ? order.indexOf(cloudKeys[i - 1]) : -1
+        order.splice(previousIndex + 1, 0, key)
+    })
+
+    return order
+}
+
+// HELPERS
+
+type DataRecord = { [key: string]: any }
+type Records<T> = { [key: string]: T }
+function mergeRecords<T>(base: Records<T> = {}, local: Records<T> = {}, cloud: Records<T> = {}, bothChanged: (id: string, localValue: T | undefined, cloudValue: T | undefined) => T | undefined) {
+    const merged: Records<T> = {}
+
+    const ids = [...new Set([...Object.keys(local), ...Object.keys(cloud)])]
+    ids.forEach(id => {
+        const value = mergeValue(base[id], local[id], cloud[id], () => bothChanged(id, local[id], cloud[id]))
+        if (value !== undefined) merged[id] = value
+    })
+
+    return merged
+}
+
+function mergeValue<T>(base: T | undefined, local: T | undefined, cloud: T | undefined, bothChanged: () => T | undefined) {
+    if (isEqual(local, cloud)) return local
+    if (isEqual(local, base)) return cloud
+    if (isEqual(cloud, base)) return local
+
+    return bothChanged()
+}
+
+// top level keys, keeping the newest value if changed on both sides
+function mergeValues<T extends DataRecord>(base: T | undefined, local: T, cloud: T, cloudIsNewer: boolean) {
+    const merged: DataRecord = {}
+
+    const keys = [...new Set([...Object.keys(local), ...Object.keys(cloud)])]
+    keys.forEach(key => {
+        const value = mergeValue(base?.[key], local[key], cloud[key], () => (cloudIsNewer ? cloud[key] : local[key]))
+        if (value !== undefined) merged[key] = value
+    })
+
+    return merged as T
+}
+
+function isNewer(a: number | null | undefined, b: number | null | undefined) {
+    return (a || 0) > (b || 0)
+}
+
+// key order might be different between the files
+function isEqual(a: any, b: any) {
+    return stableStringify(a) === stableStringify(b)
+}
+
+function stableStringify(value: any): string {
+    if (value === undefined) return "undefined"
+    if (value === null || typeof value !== "object") return JSON.stringify(value)
+    if (Array.isArray(value)) return "[" + value.map(stableStringify).join(",") + "]"
+
+    const keys = Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+    return "{" + keys.map(key => JSON.stringify(key) + ":" + stableStringify(value[key])).join(",") + "}"
+}
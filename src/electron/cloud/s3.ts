@@ -0,0 +1,152 @@
+import crypto from "crypto"
+import type { CloudBackendsConfig } from "../../types/Main"
+import type { CloudBackend, CloudFile } from "./backend"
+
+// S3 compatible storage (AWS, MinIO, Backblaze B2, Wasabi, Cloudflare R2...)
+// https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+
+// folder ids start with "/" so the bucket root is not empty: "/", "/<prefix>/Bibles/"
+export function createS3Backend(config: NonNullable<CloudBackendsConfig["s3"]>, secretAccessKey: string): CloudBackend {
+    const region = config.region || "us-east-1"
+    const endpoint = (config.endpoint || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, "")
+    const mainFolderId = "/" + (config.prefix ? config.prefix.replace(/^\/+|\/+$/g, "") + "/" : "")
+
+    // path-style URLs are supported by most S3 compatible services
+    async function request(method: "GET" | "PUT", key: string, query: { [key: string]: string } = {}, body = "") {
+        const path = "/" + encodeRFC3986(config.bucket) + "/" + key.split("/").map(encodeRFC3986).join("/")
+        const queryString = Object.keys(query)
+            .sort()
+            .map(id => `${encodeRFC3986(id)}=${encodeRFC3986(query[id])}`)
+            .join("&")
+        const url = endpoint + path + (queryString ? "?" + queryString : "")
+
+        try {
+            const headers = signRequest(method, new URL(url).host, path, queryString, body)
+            return await fetch(url, { method, body: body || undefined, headers: { ...headers, ...(body ? { "Content-Type": "application/json" } : {}) } })
+        } catch (err) {
+            console.error("S3 request error:", err)
+            return null
+        }
+    }
+
+    function signRequest(method: string, host: string, path: string, queryString: string, body: string) {
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+        const dateStamp = amzDate.slice(0, 8)
+        const payloadHash = sha256(body)
+
+        const signedHeaders = "host;x-amz-content-sha256;x-amz-date"
+        const canonicalHeaders = `host:${host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`
+        const canonicalRequest = [method, path, queryString, canonicalHeaders, signedHeaders, payloadHash].join("\n")
+
+        const scope = `${dateStamp}/${region}/s3/aws4_request`
+        const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n")
+
+        const signingKey = [region, "s3", "aws4_request"].reduce((key: Buffer, value) => hmac(key, value), hmac("AWS4" + secretAccessKey, dateStamp))
+        const signature = hmac(signingKey, stringToSign).toString("hex")
+
+        return {
+            Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+            "x-amz-content-sha256": payloadHash,
+            "x-amz-date": amzDate
+        }
+    }
+
+    return {
+        accessTip: "Check the bucket name, region and access keys.",
+        connect: async () => {
+            const response = await request("GET", "", { "list-type": "2", "max-keys": "1" })
+            if (!response) return { error: "Could not connect to the S3 storage!" }
+            if (response.status === 403) return { error: "Could not connect to the S3 storage: Access denied!" }
+            if (response.status === 404) return { error: "Could not connect to the S3 storage: The bucket does not exist!" }
+            if (!response.ok) return { error: `Could not connect to the S3 storage: ${response.status} ${response.statusText}` }
+
+            return { status: "connected" }
+        },
+        getMainFolder: () => Promise.resolve({ id: mainFolderId }),
+        // max 1000 keys are listed per request
+        listFiles: async (folderId, limit) => {
+            const files: CloudFile[] = []
+            let continuationToken = ""
+
+            do {
+                const query: { [key: string]: string } = { "list-type": "2", prefix: folderId.slice(1), delimiter: "/", "max-keys": Math.min(limit || 1000, 1000).toString() }
+                if (continuationToken) query["continuation-token"] = continuationToken
+
+                const response = await request("GET", "", query)
+                if (!response?.ok) return null
+
+                const list = parseObjectList(await response.text(), folderId)
+                files.push(...list.files)
+                continuationToken = list.nextToken
+            } while (continuationToken && (!limit || files.length < limit))
+
+            return limit ? files.slice(0, limit) : files
+        },
+        // folders are only key prefixes in S3
+        createFolder: (parentId, name) => Promise.resolve(parentId + name + "/"),
+        downloadFile: async file => {
+            const response = await request("GET", file.id.slice(1))
+            if (!response?.ok) return null
+
+            try {
+                return await response.json()
+            } catch (err) {
+                console.error("Could not parse cloud file:", err)
+                return null
+            }
+        },
+        uploadFile: async (folderId, name, content) => {
+            const response = await request("PUT", (folderId + name).slice(1), {}, content)
+            return !!response?.ok
+        }
+    }
+}
+
+function sha256(value: string) {
+    return crypto.createHash("sha256").update(value, "utf8").digest("hex")
+}
+
+function hmac(key: string | Buffer, value: string) {
+    return crypto.createHmac("sha256", key).update(value, "utf8").digest()
+}
+
+function encodeRFC3986(value: string) {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => "%" + char.charCodeAt(0).toString(16).toUpperCase())
+}
+
+// <ListBucketResult><Contents><Key>folder/file.json</Key><LastModified>...</LastModified></Contents><CommonPrefixes><Prefix>folder/Bibles/</Prefix></CommonPrefixes>
+function parseObjectList(xml: string, folderId: string) {
+    const decode = (value: string) =>
+        value
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&amp;/g, "&")
+    const getValue = (content: string, tag: string) => decode(content.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1] || "")
+
+    // more keys have to be requested with the continuation token
+    const nextToken = getValue(xml, "IsTruncated") === "true" ? getValue(xml, "NextContinuationToken") : ""
+
+    const files: CloudFile[] = []
+
+    const objects = xml.match(/<Contents>[\s\S]*?<\/Contents>/g) || []
+    objects.forEach(content => {
+        const name = getValue(content, "Key").slice(folderId.length - 1)
+        if (!name) return
+
+        files.push({ id: folderId + name, name, modified: new Date(getValue(content, "LastModified")).getTime() || 0 })
+    })
+
+    const prefixes = xml.match(/<CommonPrefixes>[\s\S]*?<\/CommonPrefixes>/g) || []
+    prefixes.forEach(content => {
+        const name = getValue(content, "Prefix")
+            .slice(folderId.length - 1)
+            .replace(/\/$/, "")
+        if (!name) return
+
+        files.push({ id: folderId + name + "/", name, modified: 0, isFolder: true })
+    })
+
+    return { files, nextToken }
+}
@@ -0,0 +1,35 @@
+import { safeStorage } from "electron"
+import type { CloudSecretBackend } from "../../types/Main"
+import { stores } from "../data/store"
+
+// passwords & secret keys are not stored in the settings, they are encrypted by the OS
+// only the main process can read them, the settings only stores when it was set
+
+// returns false if the secret was not stored
+export function setCloudSecret({ backend, value }: { backend: CloudSecretBackend; value: string }) {
+    // Linux without a keyring: secrets are not stored as plain text
+    if (value && !safeStorage.isEncryptionAvailable()) {
+        console.error("Could not store cloud secret: Encryption is not available!")
+        return false
+    }
+
+    const secrets = stores.ACCESS.get("cloudSecrets") || {}
+
+    if (value) secrets[backend] = { value: safeStorage.encryptString(value).toString("base64"), encrypted: true }
+    else delete secrets[backend]
+
+    stores.ACCESS.set("cloudSecrets", secrets)
+    return !!value
+}
+
+export function getCloudSecret(backend: CloudSecretBackend) {
+    const secret = stores.ACCESS.get("cloudSecrets")?.[backend]
+    if (!secret?.encrypted) return ""
+
+    try {
+        return safeStorage.decryptString(Buffer.from(secret.value, "base64"))
+    } catch (err) {
+        console.error("Could not decrypt cloud secret:", err)
+        return ""
+    }
+}
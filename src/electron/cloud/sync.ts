@@ -0,0 +1,427 @@
+import path from "path"
+import { isProd } from ".."
+import { Main } from "../../types/IPC/Main"
+import type { CloudConflict, DriveData } from "../../types/Main"
+import type { Show, TrimmedShow } from "../../types/Show"
+import { stores } from "../data/store"
+import { sendMain } from "../IPC/main"
+import { checkShowsFolder, dataFolderNames, deleteFile, doesPathExist, getDataFolder, getFileStats, loadShows, readFileAsync, writeFile } from "../utils/files"
+import { trimShow } from "../utils/shows"
+import type { BibleCategories } from "./../../types/Tabs"
+import type { CloudBackend, CloudFile } from "./backend"
+import { mergeProjects, mergeShow } from "./merge"
+import { loadSyncBase, saveSyncBase } from "./syncBase"
+
+const DEBUG = !isProd
+
+const SHOWS_CONTENT = "SHOWS_CONTENT"
+const combineLocations = ["PROJECTS"]
+const storesToSave: (keyof typeof stores)[] = ["EVENTS", "OVERLAYS", "PROJECTS", "SYNCED_SETTINGS", "STAGE_SHOWS", "TEMPLATES", "THEMES", "MEDIA"]
+// don't upload: settings.json, config.json, cache.json, history.json
+
+export let currentlyDeletedShows: string[] = []
+// conflicts that could not be merged are added to the list, and the merged shows are sent back to the app
+export async function syncData(backend: CloudBackend, data: DriveData, conflicts: CloudConflict[] = [], mergedShows: { [key: string]: Show } = {}) {
+    if (!data.mainFolderId) return { error: "Error: Could not get main folder ID!" }
+
+    const listedFiles = await backend.listFiles(data.mainFolderId)
+    if (listedFiles === null) return { error: "Error: Could not get files! " + backend.accessTip }
+    const files = listedFiles
+
+    const changes: { type: string; action: "upload" | "download" | "upload_failed" | "download_failed"; name: string; count?: number }[] = []
+    const mergeChanges = data.method !== "upload" && data.method !== "download"
+
+    console.info("Syncing to cloud")
+
+    // let shows = null
+    let bibles: { [key: string]: BibleCategories } | null = null
+
+    // CONFIGS
+    await Promise.all(storesToSave.map(syncStores))
+
+    // SCRIPTURE
+    if (bibles === null) bibles = stores.SYNCED_SETTINGS.store?.scriptures
+    if (bibles) await syncBibles(data.dataPath)
+
+    // SHOWS
+    const syncStates: { [key: string]: number } = {}
+    await syncAllShows()
+    if (DEBUG) console.info(JSON.stringify(syncStates))
+
+    return changes
+
+    /// //
+
+    async function syncStores(id: keyof typeof stores) {
+        const store = stores[id]
+        const storeData: any = store.store
+        const name = id + ".json"
+
+        const cloudFile = files.find(a => a.name === name) || null
+
+        const newest = getNewest({ cloudFile, localPath: store.path })
+        if (newest === "same") return
+
+        const cloudContent = cloudFile ? await backend.downloadFile(cloudFile) : null
+        const storeContent: string = JSON.stringify(storeData)
+        const matchingContent: boolean = !!cloudContent && JSON.stringify(cloudContent) === storeContent
+
+        const base = combineLocations.includes(id) ? loadSyncBase(id, data.mainFolderId!) : null
+        const updateBase = (content: any) => {
+            if (combineLocations.includes(id)) saveSyncBase(id, data.mainFolderId!, content)
+        }
+
+        if (matchingContent) {
+            updateBase(cloudContent)
+            return
+        }
+
+        // combine
+        if (mergeChanges && cloudFile && storeContent && combineLocations.includes(id)) {
+            const project = () => {
+                // three-way merge with the content from the last sync, or by modified time
+                if (base) return mergeProjects(base, storeData, cloudContent, conflicts)
+                return { projects: combineFiles(cloudContent?.projects, storeData.projects, newest), folders: combineFiles(cloudContent?.folders, storeData.folders, newest), projectTemplates: combineFiles(cloudContent?.projectTemplates, storeData.projectTemplates, newest) }
+            }
+            const combined = id === "PROJECTS" ? project() : combineFiles(cloudContent, storeData, newest)
+
+            // download
+            sendMain(id as Main, combined)
+            changes.push({ type: "config", action: "download", name })
+
+            // upload
+            const combinedUploaded = await backend.uploadFile(data.mainFolderId!, name, JSON.stringify(combined), cloudFile)
+            if (!combinedUploaded) {
+                changes.push({ type: "config", action: "upload_failed", name })
+                return
+            }
+            changes.push({ type: "config", action: "upload", name })
+            updateBase(combined)
+
+            if (DEBUG) console.info("COMBINED " + name)
+            return
+        }
+
+        // download
+        if (cloudFile && (newest === "cloud" || data.method === "download") && data.method !== "upload") {
+            if (!cloudContent) {
+                changes.push({ type: "config", action: "download_failed", name })
+                return
+            }
+
+            if (id === "SYNCED_SETTINGS") bibles = cloudContent?.scriptures
+
+            sendMain(id as Main, cloudContent)
+            updateBase(cloudContent)
+
+            changes.push({ type: "config", action: "download", name })
+            if (DEBUG) console.info("DOWNLOADED " + name)
+            return
+        }
+
+        // upload (newest === "local")
+        if (data.method === "download") return
+        if (id === "SYNCED_SETTINGS") bibles = storeData?.scriptures
+
+        const uploaded = await backend.uploadFile(data.mainFolderId!, name, storeContent, cloudFile || undefined)
+        if (!uploaded) {
+            changes.push({ type: "config", action: "upload_failed", name })
+            return
+        }
+
+        changes.push({ type: "config", action: "upload", name })
+        updateBase(storeData)
+        if (DEBUG) console.info("UPLOADED " + name)
+    }
+
+    async function syncBibles(dataPath: string) {
+        const localBibles: string[] = Object.values(bibles!)
+            .filter(a => !a.api && !a.collection)
+            .map(a => a.name + ".fsb")
+
+        if (!localBibles.length) return
+
+        let biblesFolderId = files.find(a => a.name === "Bibles")?.id
+
+        // create bible folder
+        if (!biblesFolderId) {
+            biblesFolderId = (await backend.createFolder(data.mainFolderId!, "Bibles")) || ""
+            if (!biblesFolderId) return
+        }
+
+        const cloudBibles = await backend.listFiles(biblesFolderId)
+
+        const localBiblesFolder: string = getDataFolder(dataPath, dataFolderNames.scriptures)
+
+        await Promise.all(localBibles.map(syncBible))
+
+        async function syncBible(name: string) {
+            const cloudFile = cloudBibles?.find(a => a.name === name) || null
+
+            const localBiblePath: string = path.resolve(localBiblesFolder, name)
+            const localFile: string = await readFileAsync(localBiblePath)
+
+            const newest = getNewest({ cloudFile, localPath: localBiblePath })
+
+            if (newest === "same") return
+
+            const cloudContent = cloudFile ? await backend.downloadFile(cloudFile) : null
+
+            const matchingContent: boolean = !!cloudContent && JSON.stringify(cloudContent) === localFile
+            if (matchingContent) return
+
+            // download
+            if (cloudFile && (newest === "cloud" || data.method === "download") && data.method !== "upload") {
+                if (!cloudContent) {
+                    changes.push({ type: "bible", action: "download_failed", name })
+                    return
+                }
+
+                writeFile(localBiblePath, JSON.stringify(cloudContent))
+
+                changes.push({ type: "bible", action: "download", name })
+                return
+            }
+
+            // upload (newest === "local")
+            if (data.method === "download") return
+            if (!localFile) return
+            const uploaded = await backend.uploadFile(biblesFolderId!, name, localFile, cloudFile || undefined)
+
+            if (!uploaded) {
+                changes.push({ type: "bible", action: "upload_failed", name })
+                return
+            }
+
+            changes.push({ type: "bible", action: "upload", name })
+        }
+    }
+
+    async function syncAllShows() {
+        const showsPath = checkShowsFolder(data.path || "")
+        if (!showsPath) return
+
+        if (DEBUG) console.info("Path:", data.path)
+        if (DEBUG) console.info("Method:", data.method)
+
+        const name = SHOWS_CONTENT + ".json"
+        const cloudFile = files.find(a => a.name === name) || null
+
+        // download shows
+        const cloudContent = cloudFile ? await backend.downloadFile(cloudFile) : null
+        const base: { [key: string]: Show } = loadSyncBase(SHOWS_CONTENT, data.mainFolderId!) || {}
+
+        const localShows = loadShows({ showsPath }, true)
+        // some might have the same id
+        const shows: { [key: string]: TrimmedShow | Show } = { ...localShows, ...(cloudContent || {}) }
+        if (DEBUG) console.info("Local shows count:", Object.keys(localShows).length)
+        if (DEBUG) console.info("Cloud shows count:", Object.keys(cloudContent || {}).length)
+
+        let downloadCount = 0
+        let uploadCount = 0
+        const allShows: { [key: string]: Show | { deleted: boolean; name: string } } = {}
+
+        await Promise.all(Object.entries(shows).map(checkShow))
+        async function checkShow([id, show]: [string, TrimmedShow | Show]) {
+            const showName = (localShows[id]?.name || show?.name || id) + ".show"
+            const localShowPath = path.join(showsPath, showName)
+
+            let newest = getNewest({ cloudFile, localPath: localShowPath })
+            // DEBUG:
+            if (!syncStates[newest]) syncStates[newest] = 0
+            syncStates[newest]++
+
+            if (newest === "same") {
+                const showContent = cloudContent?.[id] || (await readFileAsync(localShowPath))
+                if (showContent) allShows[id] = showContent
+                return
+            }
+
+            // get existing content
+            const cloudShowContent = cloudContent?.[id] ? JSON.stringify([id, cloudContent[id]]) : null
+            const localContent = await readFileAsync(localShowPath, "utf8")
+
+            // three-way merge with the content from the last sync
+            const isDeleted = currentlyDeletedShows.includes(id) || cloudContent?.[id]?.deleted
+            if (mergeChanges && !isDeleted && base[id] && cloudShowContent && localContent && localContent !== cloudShowContent) {
+                const merged = mergeShowContent(id, localContent, showName)
+                if (merged) return
+            }
+
+            // double check with content timestamp
+            if (newest === "cloud" && cloudShowContent && localContent) {
+                const actualCloudTime = cloudContent?.[id]?.timestamps?.modified || 0
+                if (actualCloudTime && actualCloudTime < lastLocalTimestamp) {
+                    newest = "local"
+                    // DEBUG:
+                    syncStates.cloud--
+                    if (!syncStates.localX) syncStates.localX = 0
+                    syncStates.localX++
+                }
+            }
+
+            if ((newest === "cloud" || data.method === "download" || isDeleted) && cloudShowContent) {
+                // deleted locally
+                if (currentlyDeletedShows.includes(id)) {
+                    allShows[id] = { deleted: true, name: cloudContent[id].name || "" }
+
+                    delete shows[id]
+                    uploadCount++
+                    if (DEBUG) console.info("Show has been deleted from cloud:", cloudContent[id]?.name || "")
+
+                    return
+                }
+
+                allShows[id] = cloudContent[id]
+
+                // if a show is deleted, synced and undone it can't be restored unless a duplicate is created with new ID!
+                // but it can be restored when deleted before it's synced
+                // deleted in cloud
+                if (cloudContent[id].deleted === true) {
+                    const filePath: string = path.join(showsPath, showName)
+                    if (doesPathExist(filePath)) {
+                        deleteFile(filePath)
+                        downloadCount++
+                        if (DEBUG) console.info("Show has been deleted locally:", cloudContent[id]?.name || "")
+                    }
+
+                    delete shows[id]
+
+                    return
+                }
+            } else if (localContent) {
+                try {
+                    if (!isDeleted) allShows[id] = JSON.parse(localContent)[1]
+                } catch (err) {
+                    console.error(`Could not parse show ${showName}.`, err)
+                    return
+                }
+            }
+
+            if (cloudShowContent && localContent === cloudShowContent) return
+
+            // "download" show
+            if (cloudShowContent && (newest === "cloud" || data.method === "download") && data.method !== "upload") {
+                const newName = (show?.name || id) + ".show"
+                if (localShows[id] && newName !== showName) {
+                    if (DEBUG) console.info("Rename file:", showName, "->", newName)
+                    deleteFile(localShowPath) // renamed
+                }
+                const newPath = path.join(showsPath, newName)
+
+                writeFile(newPath, cloudShowContent, id)
+
+                const trimmedShow = trimShow({ ...(cloudContent?.[id] || {}), name: show?.name || id })
+                if (!trimmedShow) {
+                    delete shows[id]
+                    return
+                }
+
+                shows[id] = trimmedShow
+                downloadCount++
+
+                return
+            }
+
+            // "upload" show
+            if (localContent) {
+                uploadCount++
+                return
+            }
+
+            // something is wrong with the file
+            if (!cloudShowContent && !localContent) delete shows[id]
+        }
+
+        // returns true if handled
+        function mergeShowContent(id: string, localContent: string, showName: string) {
+            let localShow: Show
+            try {
+                localShow = JSON.parse(localContent)[1]
+            } catch (err) {
+                console.error(`Could not parse show ${showName}.`, err)
+                return false
+            }
+
+            const merged = mergeShow(id, base[id], localShow, cloudContent[id], conflicts)
+            allShows[id] = merged
+
+            const mergedContent = JSON.stringify([id, merged])
+            const changedLocally = mergedContent !== localContent
+            const changedInCloud = mergedContent !== JSON.stringify([id, cloudContent[id]])
+
+            if (changedLocally) {
+                const newName = (merged.name || id) + ".show"
+                if (newName !== showName) deleteFile(path.join(showsPath, showName)) // renamed
+                writeFile(path.join(showsPath, newName), mergedContent, id)
+                mergedShows[id] = merged
+
+                const trimmedShow = trimShow({ ...merged, name: merged.name || id })
+                if (trimmedShow) shows[id] = trimmedShow
+                downloadCount++
+            }
+            if (changedInCloud) uploadCount++
+
+            if (DEBUG) console.info("Merged show:", merged.name || id)
+            return true
+        }
+        if (DEBUG) console.info("Shows checked!")
+
+        if (downloadCount) {
+            if (DEBUG) console.info("Downloading shows:", downloadCount)
+            changes.push({ type: "show", action: "download", name, count: downloadCount })
+            if (DEBUG) console.info("Trimmed shows:", Object.keys(shows).length)
+            if (Object.keys(shows).length) sendMain(Main.SHOWS, shows)
+        }
+        if (!uploadCount) {
+            if (cloudContent) saveSyncBase(SHOWS_CONTENT, data.mainFolderId!, cloudContent)
+            return
+        }
+        if (DEBUG) console.info("Uploading shows:", uploadCount)
+
+        // upload shows
+        if (data.method === "download") {
+            if (cloudContent) saveSyncBase(SHOWS_CONTENT, data.mainFolderId!, cloudContent)
+            return
+        }
+        if (DEBUG) console.info("Cloud shows:", Object.keys(allShows).length)
+        const uploaded = await backend.uploadFile(data.mainFolderId!, name, JSON.stringify(allShows), cloudFile || undefined)
+        currentlyDeletedShows = []
+
+        if (!uploaded) {
+            changes.push({ type: "show", action: "upload_failed", name })
+            return
+        }
+
+        changes.push({ type: "show", action: "upload", name, count: uploadCount })
+        saveSyncBase(SHOWS_CONTENT, data.mainFolderId!, allShows)
+    }
+}
+
+const TEN_SECONDS_MS = 10 * 1000
+let lastLocalTimestamp = 0
+function getNewest({ cloudFile, localPath }: { cloudFile: CloudFile | null; localPath: string }) {
+    const storeInfo = getFileStats(localPath, true)?.stat
+
+    const cloudModified = cloudFile?.modified || 0
+    const storeModified = storeInfo?.mtimeMs || 0
+    lastLocalTimestamp = storeModified
+
+    if (!cloudModified || storeModified > cloudModified) return "local"
+    if (cloudModified > storeModified + TEN_SECONDS_MS) return "cloud"
+
+    return "same"
+}
+
+// combine local & cloud based on modified
+function combineFiles(cloudContent: any, localContent: any, newest: string) {
+    const content = (newest === "cloud" ? cloudContent : localContent) || {}
+    const olderContent = (newest === "cloud" ? localContent : cloudContent) || {}
+
+    Object.keys(olderContent).forEach(id => {
+        const olderIsNewer = (content[id]?.modified || 0) < (olderContent[id]?.modified || 0)
+        if (!content[id] || olderIsNewer) content[id] = olderContent[id]
+    })
+
+    return content
+}
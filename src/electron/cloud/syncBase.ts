@@ -0,0 +1,29 @@
+import { app } from "electron"
+import path from "path"
+import { doesPathExist, makeDir, readFile, writeFile } from "../utils/files"
+
+// the content from the last sync, used as the common base for the three-way merge
+
+const BASE_FOLDER = "CloudBase"
+
+export function loadSyncBase(name: string, folderId: string) {
+    const filePath = path.join(app.getPath("userData"), BASE_FOLDER, name + ".json")
+    if (!doesPathExist(filePath)) return null
+
+    try {
+        const base = JSON.parse(readFile(filePath))
+        // the base is only valid for the same cloud folder
+        if (base.folderId !== folderId) return null
+        return base.content
+    } catch (err) {
+        console.error("Could not read sync base:", err)
+        return null
+    }
+}
+
+export function saveSyncBase(name: string, folderId: string, content: any) {
+    const folderPath = path.join(app.getPath("userData"), BASE_FOLDER)
+    makeDir(folderPath)
+
+    writeFile(path.join(folderPath, name + ".json"), JSON.stringify({ folderId, content }))
+}
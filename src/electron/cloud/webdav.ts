@@ -0,0 +1,93 @@
+import type { CloudBackendsConfig } from "../../types/Main"
+import type { CloudBackend, CloudFile } from "./backend"
+
+// WebDAV (Nextcloud, ownCloud...)
+// https://docs.nextcloud.com/server/latest/developer_manual/client_apis/WebDAV/basic.html
+// Nextcloud URL: https://cloud.example.com/remote.php/dav/files/<username>/<folder>
+
+export function createWebDAVBackend(config: NonNullable<CloudBackendsConfig["webdav"]>, password: string): CloudBackend {
+    const baseUrl = config.url.replace(/\/+$/, "")
+    const authorization = "Basic " + Buffer.from(`${config.username}:${password}`).toString("base64")
+
+    async function request(filePath: string, method: string, body?: string, headers: { [key: string]: string } = {}) {
+        try {
+            return await fetch(baseUrl + encodePath(filePath), { method, body, headers: { Authorization: authorization, ...headers } })
+        } catch (err) {
+            console.error("WebDAV request error:", err)
+            return null
+        }
+    }
+
+    return {
+        accessTip: "Check the server URL, username and password.",
+        connect: async () => {
+            const response = await request("/", "PROPFIND", undefined, { Depth: "0" })
+            if (!response) return { error: "Could not connect to the WebDAV server!" }
+            if (response.status === 401) return { error: "Could not connect to the WebDAV server: Wrong username or password!" }
+            if (response.status === 404) return { error: "Could not connect to the WebDAV server: The folder does not exist!" }
+            if (!response.ok) return { error: `Could not connect to the WebDAV server: ${response.status} ${response.statusText}` }
+
+            return { status: "connected" }
+        },
+        // the URL is the main folder
+        getMainFolder: () => Promise.resolve({ id: "/" }),
+        listFiles: async (folderId, limit) => {
+            const response = await request(folderId, "PROPFIND", undefined, { Depth: "1" })
+            if (!response?.ok) return null
+
+            const folderPath = new URL(baseUrl + encodePath(folderId)).pathname
+            const files = parseFolderContent(await response.text(), folderId, folderPath)
+            return limit ? files.slice(0, limit) : files
+        },
+        createFolder: async (parentId, name) => {
+            const folderId = parentId + name + "/"
+            const response = await request(folderId, "MKCOL")
+            // 405: already exists
+            if (!response?.ok && response?.status !== 405) return null
+
+            return folderId
+        },
+        downloadFile: async file => {
+            const response = await request(file.id, "GET")
+            if (!response?.ok) return null
+
+            try {
+                return await response.json()
+            } catch (err) {
+                console.error("Could not parse cloud file:", err)
+                return null
+            }
+        },
+        uploadFile: async (folderId, name, content) => {
+            const response = await request(folderId + name, "PUT", content, { "Content-Type": "application/json" })
+            return !!response?.ok
+        }
+    }
+}
+
+function encodePath(filePath: string) {
+    return filePath.split("/").map(encodeURIComponent).join("/")
+}
+
+// <d:multistatus><d:response><d:href>/folder/file.json</d:href><d:propstat><d:prop><d:getlastmodified>...
+function parseFolderContent(xml: string, folderId: string, folderPath: string) {
+    const getValue = (content: string, tag: string) => content.match(new RegExp(`<(?:\\w+:)?${tag}[^>]*>([^<]*)</(?:\\w+:)?${tag}>`, "i"))?.[1] || ""
+    const trimPath = (value: string) => decodeURIComponent(value.startsWith("http") ? new URL(value).pathname : value).replace(/\/+$/, "")
+
+    const files: CloudFile[] = []
+    const responses = xml.match(/<(?:\w+:)?response[\s>][\s\S]*?<\/(?:\w+:)?response>/gi) || []
+    responses.forEach(content => {
+        const href = trimPath(getValue(content, "href"))
+        // the folder itself is also listed
+        if (href === trimPath(folderPath)) return
+
+        const name = href.slice(href.lastIndexOf("/") + 1)
+        if (!name) return
+
+        const isFolder = /<(?:\w+:)?collection\s*\/>/i.test(content)
+        const modified = new Date(getValue(content, "getlastmodified")).getTime() || 0
+        files.push({ id: folderId + name + (isFolder ? "/" : ""), name, modified, isFolder })
+    })
+
+    return files
+}
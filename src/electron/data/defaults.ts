@@ -69,6 +69,8 @@ export const defaultSettings: { [key in SaveListSettings]: any } = {
     volume: 1,
     gain: 1,
     audioChannelsData: {},
+    audioBuses: {},
+    audioDucking: {},
     driveData: { mainFolderId: null, disabled: false, initializeMethod: null, disableUpload: false },
     calendarAddShow: "",
     metronome: {},
@@ -138,6 +140,7 @@ export const defaultSyncedSettings: { [key in SaveListSyncedSettings]: any } = {
         showVerse: true,
         referenceDivider: ":"
     },
+    readingPlans: {},
     groups: defaultGroups,
     midiIn: {},
     emitters: {},
@@ -1,5 +1,5 @@
 // ----- FreeShow -----
-// Export as TXT or PDF
+// Export as TXT, PDF, PowerPoint, ProPresenter or song formats (ChordPro/OnSong/OpenLyrics)
 // When exporting as PDF we create a new window and capture its content
 
 import AdmZip from "adm-zip"
@@ -16,6 +16,9 @@ import { sendMain, sendToMain } from "../IPC/main"
 import { createFolder, dataFolderNames, doesPathExist, getDataFolder, getShowsFromIds, getTimePointString, makeDir, openInSystem, parseShow, readFile, selectFolderDialog } from "../utils/files"
 import { getAllShows } from "../utils/shows"
 import { exportOptions } from "../utils/windowOptions"
+import { getPowerpointFile } from "./exportPowerpoint"
+import { getProPresenterBundle, getProPresenterFile } from "./exportProPresenter"
+import { getChordProText, getOnSongText, getOpenLyricsText } from "./exportSong"
 
 // SHOW: .show, PROJECT: .project, BIBLE: .fsb
 const customJSONExtensions = {
@@ -69,6 +72,9 @@ export function startExport(_e: Electron.IpcMainEvent, msg: Message) {
     else if (msg.data.type === "show") exportShow(msg.data)
     else if (msg.data.type === "txt") exportTXT(msg.data)
     else if (msg.data.type === "project") exportProject(msg.data)
+    else if (msg.data.type === "pptx") exportPowerpoint(msg.data)
+    else if (msg.data.type === "propresenter") exportProPresenter(msg.data).catch((err) => doneWritingFile(err, msg.data.path))
+    else if (songFormats[msg.data.type]) exportSongFormat(msg.data)
 }
 
 // only open once per session
@@ -218,12 +224,82 @@ function getSlidesText(show: Show) {
     return text.trim()
 }
 
+// ----- SONG FORMATS -----
+
+const songFormats: { [key: string]: { extension: string; getText: (show: Show) => string } } = {
+    chordpro: { extension: ".cho", getText: getChordProText },
+    onsong: { extension: ".onsong", getText: getOnSongText },
+    openlyrics: { extension: ".xml", getText: getOpenLyricsText }
+}
+
+export function exportSongFormat(data: { type: string; path: string; shows: Show[] }) {
+    const format = songFormats[data.type]
+    if (!format) return
+
+    data.shows.forEach((show, i) => {
+        writeFile(join(data.path, show.name || show.id!), format.extension, format.getText(show), "utf-8", (err) => doneWritingFile(err, data.path, i >= data.shows.length - 1))
+    })
+}
+
+// ----- POWERPOINT -----
+
+export function exportPowerpoint(data: { path: string; shows: Show[]; name?: string }) {
+    sendToMain(ToMain.ALERT, "export.exporting")
+
+    // a project is exported as one presentation in project order
+    const files = data.name ? [{ name: data.name, shows: data.shows }] : data.shows.map((show) => ({ name: show.name || show.id!, shows: [show] }))
+
+    files.forEach(({ name, shows }, i) => {
+        const isLast = i >= files.length - 1
+
+        let content: Buffer
+        try {
+            content = getPowerpointFile(shows, name)
+        } catch (err) {
+            console.error("Could not create PowerPoint file:", err)
+            doneWritingFile(err as Error, data.path, isLast)
+            return
+        }
+
+        writeFile(join(data.path, name), ".pptx", content, {}, (err) => doneWritingFile(err, data.path, isLast))
+    })
+}
+
+// ----- PROPRESENTER -----
+
+export async function exportProPresenter(data: { path: string; shows: Show[]; options?: { bundle?: boolean } }) {
+    if (data.options?.bundle) {
+        const name = data.shows.length === 1 ? data.shows[0].name || data.shows[0].id! : "ProPresenter"
+        writeFile(join(data.path, name), ".json", getProPresenterBundle(data.shows), "utf-8", (err) => doneWritingFile(err, data.path))
+        return
+    }
+
+    const files: { show: Show; content: Buffer }[] = []
+    for (const show of data.shows) {
+        try {
+            files.push({ show, content: await getProPresenterFile(show) })
+        } catch (err) {
+            console.error("Could not create ProPresenter file:", err)
+        }
+    }
+
+    // completed (with an error) even if no files could be created
+    if (!files.length) {
+        sendToMain(ToMain.ALERT, "error.export")
+        return
+    }
+
+    files.forEach(({ show, content }, i) => {
+        writeFile(join(data.path, show.name || show.id!), ".pro", content, {}, (err) => doneWritingFile(err, data.path, i >= files.length - 1))
+    })
+}
+
 // ----- ALL SHOWS -----
 
-function exportAllShows(data: { type: string; showsPath: string; path: string }) {
+function exportAllShows(data: { type: string; showsPath: string; path: string; options?: any }) {
     const type = data.type
 
-    const supportedTypes = ["txt", "show"]
+    const supportedTypes = ["txt", "show", "propresenter", ...Object.keys(songFormats)]
     if (!supportedTypes.includes(type)) return
 
     const allShows: string[] = getAllShows({ path: data.showsPath })
@@ -243,6 +319,8 @@ function exportAllShows(data: { type: string; showsPath: string; path: string })
 
         if (type === "show") exportShow({ ...data, shows })
         else if (type === "txt") exportTXT({ ...data, shows })
+        else if (type === "propresenter") exportProPresenter({ ...data, shows }).catch((err) => doneWritingFile(err, data.path))
+        else exportSongFormat({ ...data, shows })
     } else {
         sendToMain(ToMain.ALERT, "Exported 0 shows!")
     }
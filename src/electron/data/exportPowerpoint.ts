@@ -0,0 +1,339 @@
+// ----- FreeShow -----
+// Export shows as a PowerPoint presentation (.pptx)
+// Slides are added in layout order, item positions are converted to EMU on a 16:9 slide (same size as the importer uses)
+
+import AdmZip from "adm-zip"
+import fs from "fs"
+import { extname } from "path"
+import { escapeXml } from "../../common/escape"
+import type { Item, Line, Show, Slide, SlideData } from "../../types/Show"
+import { getColorChannels, getStyleValues } from "../utils/helpers"
+
+type PptxImage = { path: string; name: string }
+type PptxSlide = { slide: Slide; background: string; notes: string }
+
+const SLIDE_WIDTH = 9144000
+const SLIDE_HEIGHT = 5143500
+const DEFAULT_RESOLUTION = { width: 1920, height: 1080 }
+const DEFAULT_FONT_SIZE = 100
+
+const imageTypes: { [key: string]: string } = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    bmp: "image/bmp"
+}
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+
+export function getPowerpointFile(shows: Show[], name: string) {
+    const slides = shows.flatMap(getShowSlides)
+
+    const images: PptxImage[] = []
+    const zip = new AdmZip()
+
+    slides.forEach(({ slide, background, notes }, i) => {
+        const index = i + 1
+        const relations: string[] = [relation("rId1", "slideLayout", "../slideLayouts/slideLayout1.xml")]
+        if (notes) relations.push(relation("rId2", "notesSlide", `../notesSlides/notesSlide${index}.xml`))
+
+        // images are only added once, even if used on many slides
+        const getImageRelation = (path: string) => {
+            const image = addImage(zip, images, path)
+            if (!image) return ""
+
+            const id = `rId${relations.length + 2}`
+            relations.push(relation(id, "image", `../media/${image.name}`))
+            return id
+        }
+
+        zip.addFile(`ppt/slides/slide${index}.xml`, Buffer.from(getSlideXml(slide, getImageRelation(background), getImageRelation)))
+        zip.addFile(`ppt/slides/_rels/slide${index}.xml.rels`, Buffer.from(relationships(relations)))
+
+        if (!notes) return
+        zip.addFile(`ppt/notesSlides/notesSlide${index}.xml`, Buffer.from(getNotesXml(notes)))
+        zip.addFile(`ppt/notesSlides/_rels/notesSlide${index}.xml.rels`, Buffer.from(relationships([relation("rId1", "notesMaster", "../notesMasters/notesMaster1.xml"), relation("rId2", "slide", `../slides/slide${index}.xml`)])))
+    })
+
+    const notesIndexes = slides.map((a, i) => (a.notes ? i + 1 : 0)).filter(Boolean)
+    const extensions = [...new Set(images.map(a => extname(a.name).slice(1)))]
+
+    zip.addFile("[Content_Types].xml", Buffer.from(getContentTypes(slides.length, notesIndexes, extensions)))
+    zip.addFile("_rels/.rels", Buffer.from(relationships([relation("rId1", "officeDocument", "ppt/presentation.xml"), `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>`, relation("rId3", "extended-properties", "docProps/app.xml")])))
+    zip.addFile("docProps/core.xml", Buffer.from(getCoreXml(name)))
+    zip.addFile("docProps/app.xml", Buffer.from(`${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>FreeShow</Application><Slides>${slides.length}</Slides></Properties>`))
+
+    const presentationRelations = [relation("rId1", "slideMaster", "slideMasters/slideMaster1.xml"), relation("rId2", "notesMaster", "notesMasters/notesMaster1.xml"), relation("rId3", "presProps", "presProps.xml"), relation("rId4", "viewProps", "viewProps.xml"), relation("rId5", "theme", "theme/theme1.xml"), relation("rId6", "tableStyles", "tableStyles.xml")]
+    slides.forEach((_, i) => presentationRelations.push(relation(`rId${i + 7}`, "slide", `slides/slide${i + 1}.xml`)))
+    zip.addFile("ppt/presentation.xml", Buffer.from(getPresentationXml(slides.length)))
+    zip.addFile("ppt/_rels/presentation.xml.rels", Buffer.from(relationships(presentationRelations)))
+    zip.addFile("ppt/presProps.xml", Buffer.from(`${XML_HEADER}<p:presentationPr ${NS}/>`))
+    zip.addFile("ppt/viewProps.xml", Buffer.from(`${XML_HEADER}<p:viewPr ${NS}/>`))
+    zip.addFile("ppt/tableStyles.xml", Buffer.from(`${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`))
+
+    zip.addFile("ppt/slideMasters/slideMaster1.xml", Buffer.from(getSlideMasterXml()))
+    zip.addFile("ppt/slideMasters/_rels/slideMaster1.xml.rels", Buffer.from(relationships([relation("rId1", "slideLayout", "../slideLayouts/slideLayout1.xml"), relation("rId2", "theme", "../theme/theme1.xml")])))
+    zip.addFile("ppt/slideLayouts/slideLayout1.xml", Buffer.from(`${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank">${emptyTree()}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`))
+    zip.addFile("ppt/slideLayouts/_rels/slideLayout1.xml.rels", Buffer.from(relationships([relation("rId1", "slideMaster", "../slideMasters/slideMaster1.xml")])))
+    zip.addFile("ppt/notesMasters/notesMaster1.xml", Buffer.from(`${XML_HEADER}<p:notesMaster ${NS}><p:cSld>${emptyTree()}</p:cSld>${COLOR_MAP}</p:notesMaster>`))
+    zip.addFile("ppt/notesMasters/_rels/notesMaster1.xml.rels", Buffer.from(relationships([relation("rId1", "theme", "../theme/theme2.xml")])))
+    zip.addFile("ppt/theme/theme1.xml", Buffer.from(getThemeXml()))
+    zip.addFile("ppt/theme/theme2.xml", Buffer.from(getThemeXml()))
+
+    return zip.toBuffer()
+}
+
+// ----- SLIDES -----
+
+// parent slides followed by their children, with the background that would be visible on each slide
+function getShowSlides(show: Show) {
+    const layoutSlides: SlideData[] = show.layouts?.[show.settings?.activeLayout]?.slides || []
+
+    const slides: PptxSlide[] = []
+    let currentBackground = ""
+
+    const addSlide = (slideId: string, data: SlideData | undefined) => {
+        const slide = show.slides[slideId]
+        if (!slide || data?.disabled) return
+
+        const background = data?.background || ""
+        let backgroundPath = show.media?.[background]?.path || currentBackground
+        if (data?.actions?.clearBackground) backgroundPath = ""
+        if (!background || show.media?.[background]?.loop !== false) currentBackground = backgroundPath
+
+        slides.push({ slide, background: backgroundPath, notes: slide.notes || "" })
+    }
+
+    layoutSlides.forEach(layoutSlide => {
+        addSlide(layoutSlide.id, layoutSlide)
+        show.slides[layoutSlide.id]?.children?.forEach(childId => addSlide(childId, layoutSlide.children?.[childId]))
+    })
+
+    return slides
+}
+
+function getSlideXml(slide: Slide, backgroundId: string, getImageRelation: (path: string) => string) {
+    const resolution = slide.settings?.resolution || DEFAULT_RESOLUTION
+
+    let background = `<a:solidFill><a:srgbClr val="${getColor(slide.settings?.color || "").hex || "000000"}"/></a:solidFill>`
+    if (backgroundId) background = `<a:blipFill dpi="0" rotWithShape="1"><a:blip r:embed="${backgroundId}"/><a:srcRect/><a:stretch><a:fillRect/></a:stretch></a:blipFill>`
+
+    let shapeId = 1
+    const shapes = slide.items
+        .map(item => {
+            if (item.type === "media") {
+                const imageId = item.src ? getImageRelation(item.src) : ""
+                return imageId ? getPictureXml(item, ++shapeId, imageId, resolution) : ""
+            }
+
+            if (!item.lines?.length || (item.type || "text") !== "text") return ""
+            return getTextShapeXml(item, ++shapeId, resolution)
+        })
+        .join("")
+
+    return `${XML_HEADER}<p:sld ${NS}><p:cSld><p:bg><p:bgPr>${background}<a:effectLst/></p:bgPr></p:bg>${emptyTree(shapes)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+}
+
+function getTextShapeXml(item: Item, id: number, resolution: { width: number; height: number }) {
+    const style = getStyleValues(item.style)
+    const fill = getColor(style["background-color"])
+    const fillXml = fill.hex ? `<a:solidFill>${colorXml(fill)}</a:solidFill>` : "<a:noFill/>"
+
+    const align = getStyleValues(item.align || "")["align-items"] || "center"
+    const anchor = align === "flex-start" ? "t" : align === "flex-end" ? "b" : "ctr"
+
+    const paragraphs = item.lines!.map(line => getParagraphXml(line, item, resolution)).join("")
+
+    return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="TextBox ${id - 1}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr><p:spPr>${getTransformXml(style, resolution)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${fillXml}</p:spPr><p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`
+}
+
+const textAlignments: { [key: string]: string } = { left: "l", right: "r", justify: "just" }
+function getParagraphXml(line: Line, item: Item, resolution: { width: number; height: number }) {
+    const textAlign = getStyleValues(line.align || "")["text-align"] || "center"
+    const algn = textAlignments[textAlign] || "ctr"
+
+    const runs = (line.text || [])
+        .flatMap(text => {
+            const rPr = getRunProperties(text.style, item, resolution)
+            // line breaks inside a text value
+            return text.value.split("\n").map((value, i) => `${i ? "<a:br/>" : ""}${value ? `<a:r>${rPr}<a:t>${escapeXml(value)}</a:t></a:r>` : ""}`)
+        })
+        .join("")
+
+    return `<a:p><a:pPr algn="${algn}"/>${runs}<a:endParaRPr lang="en-US" dirty="0"/></a:p>`
+}
+
+function getRunProperties(textStyle: string, item: Item, resolution: { width: number; height: number }) {
+    const style = getStyleValues(textStyle)
+
+    // FreeShow pixels to points on the exported slide width (1920px = 720pt)
+    let fontSize = parseFloat(style["font-size"]) || DEFAULT_FONT_SIZE
+    if (item.auto && item.autoFontSize) fontSize = item.autoFontSize
+    const size = Math.max(100, Math.round(((fontSize * 720) / resolution.width) * 100))
+
+    const fontWeight = style["font-weight"] || ""
+    const bold = fontWeight === "bold" || Number(fontWeight) >= 600
+    const italic = style["font-style"] === "italic"
+    const underline = (style["text-decoration"] || "").includes("underline")
+    const caps = style["text-transform"] === "uppercase"
+
+    const color = getColor(style.color || "#FFFFFF")
+    const font = (style["font-family"] || "").split(",")[0].replace(/["']/g, "").trim()
+
+    const attributes = [`lang="en-US"`, `sz="${size}"`, bold ? `b="1"` : "", italic ? `i="1"` : "", underline ? `u="sng"` : "", caps ? `cap="all"` : "", `dirty="0"`].filter(Boolean).join(" ")
+    const fontXml = font ? `<a:latin typeface="${escapeXml(font)}"/><a:cs typeface="${escapeXml(font)}"/>` : ""
+
+    return `<a:rPr ${attributes}><a:solidFill>${colorXml(color.hex ? color : { hex: "FFFFFF", alpha: 1 })}</a:solidFill>${fontXml}</a:rPr>`
+}
+
+function getPictureXml(item: Item, id: number, imageId: string, resolution: { width: number; height: number }) {
+    const style = getStyleValues(item.style)
+    return `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Picture ${id - 1}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="${imageId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${getTransformXml(style, resolution)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+}
+
+// item position & size in EMU
+function getTransformXml(style: { [key: string]: string }, resolution: { width: number; height: number }) {
+    const toX = (value: string) => Math.round(((parseFloat(value) || 0) / resolution.width) * SLIDE_WIDTH)
+    const toY = (value: string) => Math.round(((parseFloat(value) || 0) / resolution.height) * SLIDE_HEIGHT)
+
+    const width = toX(style.width) || SLIDE_WIDTH
+    const height = toY(style.height) || SLIDE_HEIGHT
+
+    // 60000 = 1 degree
+    const rotation = Math.round((parseFloat(style.transform?.match(/rotate\((-?[\d.]+)deg\)/)?.[1] || "0") || 0) * 60000)
+    const rot = rotation ? ` rot="${rotation}"` : ""
+
+    return `<a:xfrm${rot}><a:off x="${toX(style.left)}" y="${toY(style.top)}"/><a:ext cx="${width}" cy="${height}"/></a:xfrm>`
+}
+
+function getNotesXml(notes: string) {
+    const paragraphs = notes
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<[^>]+>/g, "")
+        .split("\n")
+        .map(decodeHtmlEntities)
+        .map(line => `<a:p>${line ? `<a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r>` : ""}</a:p>`)
+        .join("")
+
+    const imagePlaceholder = `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr><a:xfrm><a:off x="381000" y="685800"/><a:ext cx="6096000" cy="3429000"/></a:xfrm></p:spPr></p:sp>`
+    const notesPlaceholder = `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm></p:spPr><p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`
+
+    return `${XML_HEADER}<p:notes ${NS}><p:cSld>${emptyTree(imagePlaceholder + notesPlaceholder)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`
+}
+
+function addImage(zip: AdmZip, images: PptxImage[], path: string) {
+    const existing = images.find(a => a.path === path)
+    if (existing) return existing
+
+    // videos and other media can't be added as slide images
+    const extension = extname(path).slice(1).toLowerCase()
+    if (!imageTypes[extension]) return null
+
+    try {
+        const image = { path, name: `image${images.length + 1}.${extension}` }
+        zip.addFile(`ppt/media/${image.name}`, fs.readFileSync(path))
+        images.push(image)
+        return image
+    } catch (err) {
+        // file might not exist
+        console.error("Could not add image to presentation:", err)
+        return null
+    }
+}
+
+// ----- PRESENTATION -----
+
+const COLOR_MAP = '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+
+function getPresentationXml(slideCount: number) {
+    const slideIds = Array.from({ length: slideCount }, (_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 7}"/>`).join("")
+
+    return `${XML_HEADER}<p:presentation ${NS} saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst>${slideIds ? `<p:sldIdLst>${slideIds}</p:sldIdLst>` : ""}<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`
+}
+
+function getSlideMasterXml() {
+    return `${XML_HEADER}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${emptyTree()}</p:cSld>${COLOR_MAP}<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>`
+}
+
+function getContentTypes(slideCount: number, notesIndexes: number[], extensions: string[]) {
+    const type = (name: string) => `application/vnd.openxmlformats-officedocument.${name}+xml`
+    const override = (part: string, contentType: string) => `<Override PartName="${part}" ContentType="${contentType}"/>`
+
+    const defaults = extensions.map(extension => `<Default Extension="${extension}" ContentType="${imageTypes[extension]}"/>`).join("")
+    const overrides = [
+        override("/ppt/presentation.xml", type("presentationml.presentation.main")),
+        override("/ppt/slideMasters/slideMaster1.xml", type("presentationml.slideMaster")),
+        override("/ppt/slideLayouts/slideLayout1.xml", type("presentationml.slideLayout")),
+        override("/ppt/notesMasters/notesMaster1.xml", type("presentationml.notesMaster")),
+        override("/ppt/theme/theme1.xml", type("theme")),
+        override("/ppt/theme/theme2.xml", type("theme")),
+        override("/ppt/presProps.xml", type("presentationml.presProps")),
+        override("/ppt/viewProps.xml", type("presentationml.viewProps")),
+        override("/ppt/tableStyles.xml", type("presentationml.tableStyles")),
+        ...Array.from({ length: slideCount }, (_, i) => override(`/ppt/slides/slide${i + 1}.xml`, type("presentationml.slide"))),
+        ...notesIndexes.map(index => override(`/ppt/notesSlides/notesSlide${index}.xml`, type("presentationml.notesSlide"))),
+        override("/docProps/core.xml", "application/vnd.openxmlformats-package.core-properties+xml"),
+        override("/docProps/app.xml", type("extended-properties"))
+    ].join("")
+
+    return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${defaults}${overrides}</Types>`
+}
+
+function getCoreXml(name: string) {
+    const date = new Date().toISOString().slice(0, 19) + "Z"
+    return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(name)}</dc:title><dc:creator>FreeShow</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${date}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${date}</dcterms:modified></cp:coreProperties>`
+}
+
+function getThemeXml() {
+    const colors = { dk1: "000000", lt1: "FFFFFF", dk2: "44546A", lt2: "E7E6E6", accent1: "4472C4", accent2: "ED7D31", accent3: "A5A5A5", accent4: "FFC000", accent5: "5B9BD5", accent6: "70AD47", hlink: "0563C1", folHlink: "954F72" }
+    const colorScheme = Object.entries(colors)
+        .map(([key, value]) => `<a:${key}><a:srgbClr val="${value}"/></a:${key}>`)
+        .join("")
+    const fonts = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>'
+    const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+    const line = `<a:ln w="12700">${fill}</a:ln>`
+
+    return `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="FreeShow"><a:themeElements><a:clrScheme name="FreeShow">${colorScheme}</a:clrScheme><a:fontScheme name="FreeShow"><a:majorFont>${fonts}</a:majorFont><a:minorFont>${fonts}</a:minorFont></a:fontScheme><a:fmtScheme name="FreeShow"><a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst><a:lnStyleLst>${line.repeat(3)}</a:lnStyleLst><a:effectStyleLst>${"<a:effectStyle><a:effectLst/></a:effectStyle>".repeat(3)}</a:effectStyleLst><a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>`
+}
+
+// ----- HELPERS -----
+
+function emptyTree(shapes = "") {
+    return `<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>${shapes}</p:spTree>`
+}
+
+function relation(id: string, type: string, target: string) {
+    return `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`
+}
+
+function relationships(relations: string[]) {
+    return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relations.join("")}</Relationships>`
+}
+
+// "#FFF" / "rgba(255, 255, 255, 0.5)" => { hex: "FFFFFF", alpha: 0.5 }
+function getColor(value = ""): { hex: string; alpha: number } {
+    const color = getColorChannels(value)
+    if (!color) return { hex: "", alpha: 1 }
+
+    const toHex = (channel: number) => channel.toString(16).padStart(2, "0")
+    return { hex: (toHex(color.red) + toHex(color.green) + toHex(color.blue)).toUpperCase(), alpha: color.alpha }
+}
+
+function colorXml({ hex, alpha }: { hex: string; alpha: number }) {
+    if (alpha >= 1) return `<a:srgbClr val="${hex}"/>`
+    return `<a:srgbClr val="${hex}"><a:alpha val="${Math.round(alpha * 100000)}"/></a:srgbClr>`
+}
+
+// notes are stored as HTML, so the text has to be decoded before it's escaped for XML again
+const HTML_ENTITIES: { [key: string]: string } = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+function decodeHtmlEntities(value: string) {
+    return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity: string, code: string) => {
+        if (code[0] !== "#") return HTML_ENTITIES[code.toLowerCase()] ?? entity
+
+        const charCode = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return charCode > 0 && charCode <= 0x10ffff ? String.fromCodePoint(charCode) : entity
+    })
+}
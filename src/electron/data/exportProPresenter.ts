@@ -0,0 +1,208 @@
+// ----- FreeShow -----
+// Export shows as ProPresenter 7 documents (.pro protobuf) or a ProPresenter JSON bundle
+// Each parent slide (and its children) becomes a group, each layout becomes an arrangement
+
+import { randomUUID } from "crypto"
+import { extname } from "path"
+import { pathToFileURL } from "url"
+import type { Item, Show, ShowGroups, Slide } from "../../types/Show"
+import { getColorChannels, getStyleValues } from "../utils/helpers"
+import { defaultGroups } from "./defaults"
+import { getGroupName } from "./exportSong"
+import { loadPresentationType } from "./import"
+import { stores } from "./store"
+
+const DEFAULT_RESOLUTION = { width: 1920, height: 1080 }
+const DEFAULT_FONT_SIZE = 100
+const DEFAULT_TEXT_COLOR = "#FFFFFF"
+const imageExtensions = ["png", "jpg", "jpeg", "gif", "bmp", "webp", "tiff", "heic"]
+
+export async function getProPresenterFile(show: Show) {
+    const Presentation = await loadPresentationType()
+
+    const message = Presentation.fromObject(getPresentation(show))
+    return Buffer.from(Presentation.encode(message).finish())
+}
+
+function getPresentation(show: Show) {
+    const globalGroups: ShowGroups = stores.SYNCED_SETTINGS.store?.groups || defaultGroups
+    const activeLayout = show.layouts?.[show.settings?.activeLayout]
+
+    // the same slide can be used in many layouts, but is only added once
+    const cueIds: { [key: string]: string } = {}
+    const groupIds: { [key: string]: string } = {}
+    const getId = (ids: { [key: string]: string }, id: string) => (ids[id] = ids[id] || randomUUID().toUpperCase())
+
+    const parentIds = [...new Set(Object.values(show.layouts || {}).flatMap(layout => layout.slides.map(({ id }) => id)))].filter(id => show.slides[id])
+
+    const cues: any[] = []
+    const cueGroups = parentIds.map(parentId => {
+        const parent = show.slides[parentId]
+        const layoutSlide = activeLayout?.slides.find(({ id }) => id === parentId)
+
+        const slideIds = [parentId, ...(parent.children || []).filter(id => show.slides[id])]
+        slideIds.forEach((slideId, i) => {
+            const disabled = i === 0 ? layoutSlide?.disabled : layoutSlide?.children?.[slideId]?.disabled
+            const background = i === 0 ? show.media?.[layoutSlide?.background || ""]?.path : ""
+            cues.push(getCue(getId(cueIds, slideId), show.slides[slideId], !disabled, background || ""))
+        })
+
+        const color = parent.color || globalGroups[parent.globalGroup || ""]?.color || ""
+        return {
+            group: { uuid: uuid(getId(groupIds, parentId)), name: getGroupName(parent), color: color ? getColor(color) : undefined },
+            cueIdentifiers: slideIds.map(id => uuid(cueIds[id]))
+        }
+    })
+
+    const arrangementIds: { [key: string]: string } = {}
+    const arrangements = Object.entries(show.layouts || {}).map(([layoutId, layout]) => ({
+        uuid: uuid(getId(arrangementIds, layoutId)),
+        name: layout.name || "",
+        groupIdentifiers: layout.slides.filter(({ id }) => groupIds[id]).map(({ id }) => uuid(groupIds[id]))
+    }))
+
+    const meta = show.meta || {}
+    const ccli = {
+        songTitle: meta.title || show.name || "",
+        artistCredits: meta.artist || "",
+        author: meta.author || "",
+        publisher: meta.publisher || "",
+        songNumber: parseInt(meta.CCLI || "", 10) || 0,
+        copyrightYear: parseInt(meta.year || "", 10) || 0
+    }
+
+    return {
+        applicationInfo: { platform: process.platform === "darwin" ? "PLATFORM_MACOS" : "PLATFORM_WINDOWS", application: "APPLICATION_PROPRESENTER", applicationVersion: { majorVersion: 7 } },
+        uuid: newUUID(),
+        name: show.name || "",
+        notes: activeLayout?.notes || "",
+        selectedArrangement: arrangementIds[show.settings?.activeLayout] ? uuid(arrangementIds[show.settings.activeLayout]) : undefined,
+        arrangements: arrangements.filter(a => a.groupIdentifiers.length),
+        cueGroups,
+        cues,
+        ccli
+    }
+}
+
+function getCue(id: string, slide: Slide, enabled: boolean, background: string) {
+    const resolution = slide.settings?.resolution || DEFAULT_RESOLUTION
+
+    const elements = slide.items.filter(item => item.lines?.length && (item.type || "text") === "text").map(item => getElement(item))
+    const baseSlide: any = { uuid: newUUID(), size: resolution, elements }
+    if (slide.settings?.color) {
+        baseSlide.drawsBackgroundColor = true
+        baseSlide.backgroundColor = getColor(slide.settings.color)
+    }
+
+    const presentationSlide: any = { baseSlide }
+    if (slide.notes) presentationSlide.notes = { rtfData: Buffer.from(getRTF(slide.notes.split("\n"), {}), "latin1") }
+
+    const actions: any[] = [{ uuid: newUUID(), isEnabled: true, type: "ACTION_TYPE_PRESENTATION_SLIDE", slide: { presentation: presentationSlide } }]
+
+    if (background) {
+        const isImage = imageExtensions.includes(extname(background).slice(1).toLowerCase())
+        const element: any = { uuid: newUUID(), url: { absoluteString: pathToFileURL(background).href, platform: process.platform === "darwin" ? "PLATFORM_MACOS" : "PLATFORM_WIN32" } }
+        element[isImage ? "image" : "video"] = {}
+
+        const media: any = { element, layerType: "LAYER_TYPE_BACKGROUND" }
+        media[isImage ? "image" : "video"] = {}
+        actions.push({ uuid: newUUID(), isEnabled: true, type: "ACTION_TYPE_MEDIA", media })
+    }
+
+    return { uuid: uuid(id), name: slide.group || "", isEnabled: enabled, actions }
+}
+
+function getElement(item: Item) {
+    const style = getStyleValues(item.style)
+    const textStyle = getStyleValues(item.lines?.find(line => line.text?.length)?.text[0]?.style || "")
+
+    const align = getStyleValues(item.align || "")["align-items"] || "center"
+    const verticalAlignment = align === "flex-start" ? "VERTICAL_ALIGNMENT_TOP" : align === "flex-end" ? "VERTICAL_ALIGNMENT_BOTTOM" : "VERTICAL_ALIGNMENT_MIDDLE"
+    const textAlign = getStyleValues(item.lines?.[0]?.align || "")["text-align"] || "center"
+
+    const lines = (item.lines || []).map(line => (line.text || []).map(text => text.value).join(""))
+    const fontSize = (item.auto && item.autoFontSize) || parseFloat(textStyle["font-size"]) || DEFAULT_FONT_SIZE
+    const rtf = getRTF(lines, { fontSize, color: textStyle.color || "#FFFFFF", align: textAlign, font: textStyle["font-family"] })
+
+    return {
+        element: {
+            uuid: newUUID(),
+            name: "Text",
+            bounds: { origin: { x: parseFloat(style.left) || 0, y: parseFloat(style.top) || 0 }, size: { width: parseFloat(style.width) || DEFAULT_RESOLUTION.width, height: parseFloat(style.height) || DEFAULT_RESOLUTION.height } },
+            opacity: 1,
+            text: { rtfData: Buffer.from(rtf, "latin1"), verticalAlignment }
+        }
+    }
+}
+
+// ----- JSON BUNDLE -----
+
+export function getProPresenterBundle(shows: Show[]) {
+    const data = shows.map(show => {
+        const layoutSlides = show.layouts?.[show.settings?.activeLayout]?.slides || []
+
+        const lyrics: { lyrics: string }[] = []
+        layoutSlides.forEach(({ id }) => {
+            const slide = show.slides[id]
+            if (!slide) return
+
+            const slides = [slide, ...(slide.children || []).map(childId => show.slides[childId]).filter(Boolean)]
+            slides.forEach(a => {
+                const lines = a.items.filter(item => item.lines?.length && (item.type || "text") === "text").flatMap(item => item.lines!.map(line => (line.text || []).map(text => escapeHTML(text.value)).join("")))
+                if (lines.length) lyrics.push({ lyrics: `<p>${lines.join("<br>")}</p>` })
+            })
+        })
+
+        return { name: show.name || "", author: show.meta?.author || "", copyrights_info: show.meta?.copyright || "", lyrics }
+    })
+
+    return JSON.stringify({ data }, null, 4)
+}
+
+// ----- HELPERS -----
+
+// UUID messages only have a "string" field
+function uuid(value: string) {
+    // eslint-disable-next-line id-blacklist
+    return { string: value }
+}
+
+function newUUID() {
+    return uuid(randomUUID().toUpperCase())
+}
+
+const rtfAlignments: { [key: string]: string } = { left: "\\ql", right: "\\qr", justify: "\\qj" }
+
+// RTF with "\uN ?" escapes for any non ASCII characters (same as ProPresenter writes)
+function getRTF(lines: string[], { fontSize = DEFAULT_FONT_SIZE, color = DEFAULT_TEXT_COLOR, align = "center", font = "" }: { fontSize?: number; color?: string; align?: string; font?: string }) {
+    const { red, green, blue } = getColor(color, DEFAULT_TEXT_COLOR)
+    const colorTable = `\\red${Math.round(red * 255)}\\green${Math.round(green * 255)}\\blue${Math.round(blue * 255)}`
+    const alignment = rtfAlignments[align] || "\\qc"
+    const fontName = font.split(",")[0].replace(/["']/g, "").trim() || "Helvetica"
+
+    const text = lines.map(escapeRTF).join("\\\n")
+    return `{\\rtf1\\ansi\\ansicpg1252\\cocoartf2639\n{\\fonttbl\\f0\\fnil\\fcharset0 ${escapeRTF(fontName)};}\n{\\colortbl;${colorTable};}\n\\pard\\pardirnatural${alignment}\\partightenfactor0\n\n\\f0\\fs${Math.round(fontSize * 2)} \\cf1 ${text}}`
+}
+
+function escapeRTF(value: string) {
+    return value
+        .replace(/[\\{}]/g, char => "\\" + char)
+        .replace(/[^\x20-\x7e]/g, char => {
+            const code = char.charCodeAt(0)
+            // RTF uses signed 16 bit numbers
+            return `\\u${code > 32767 ? code - 65536 : code} ?`
+        })
+}
+
+function escapeHTML(value: string) {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+// "#F525D2" / "rgb(245 37 210 / 0.5)" => { red: 0.96, green: 0.15, blue: 0.82, alpha: 0.5 }
+function getColor(value: string, fallback = ""): { red: number; green: number; blue: number; alpha: number } {
+    const color = getColorChannels(value)
+    if (!color && fallback) return getColor(fallback)
+    if (!color) return { red: 0, green: 0, blue: 0, alpha: 0 }
+
+    return { red: color.red / 255, green: color.green / 255, blue: color.blue / 255, alpha: color.alpha }
+}
@@ -0,0 +1,247 @@
+// ----- FreeShow -----
+// Export shows as song files (ChordPro/OnSong/OpenLyrics)
+// Each parent slide (and its children) is written once as a section, the layout order is stored separately
+
+import { escapeXml } from "../../common/escape"
+import type { Chords, Show, Slide } from "../../types/Show"
+
+type SongLine = { text: string; chords: Chords[] }
+type SongSection = { id: string; label: string; type: string; globalGroup: string; slides: SongLine[][]; translations: { [key: string]: SongLine[][] } }
+
+export function getSongSections(show: Show) {
+    const layoutSlides = show.layouts?.[show.settings?.activeLayout]?.slides || []
+
+    const parentIds: string[] = []
+    layoutSlides.forEach(({ id }) => {
+        if (show.slides[id] && !parentIds.includes(id)) parentIds.push(id)
+    })
+
+    // number duplicate group names: "Verse 1", "Verse 2"
+    const groupTotals: { [key: string]: number } = {}
+    parentIds.forEach(id => {
+        const name = getGroupName(show.slides[id])
+        groupTotals[name] = (groupTotals[name] || 0) + 1
+    })
+
+    const groupCount: { [key: string]: number } = {}
+    const sections: SongSection[] = parentIds.map(id => {
+        const slide = show.slides[id]
+        const name = getGroupName(slide)
+
+        groupCount[name] = (groupCount[name] || 0) + 1
+        const label = groupTotals[name] > 1 ? `${name} ${groupCount[name]}` : name
+
+        const slides = [slide, ...(slide.children || []).map(childId => show.slides[childId]).filter(Boolean)]
+        const textSlides = slides.filter(a => getSlideLines(a).length)
+        const globalGroup = slide.globalGroup || ""
+        const type = globalGroup.replace(/[^a-z_]/gi, "").toLowerCase() || "verse"
+
+        // translated text items
+        const languages = [...new Set(textSlides.flatMap(a => a.items.map(item => item.language || "")).filter(Boolean))]
+        const translations = Object.fromEntries(languages.map(language => [language, textSlides.map(a => getSlideLines(a, language))]))
+
+        return { id, label, type, globalGroup, slides: textSlides.map(a => getSlideLines(a)), translations }
+    })
+
+    const order = layoutSlides.filter(a => show.slides[a.id]).map(({ id }) => sections.find(a => a.id === id)?.label || "")
+
+    return { sections, order }
+}
+
+export function getGroupName(slide: Slide) {
+    const name = (slide.group || slide.globalGroup || "verse").trim()
+    // global group ids: "pre_chorus" => "Pre chorus"
+    if (name === name.toLowerCase()) return (name.charAt(0).toUpperCase() + name.slice(1)).replaceAll("_", " ")
+    return name
+}
+
+function getSlideLines(slide: Slide, language = "") {
+    const lines: SongLine[] = []
+
+    slide.items.forEach(item => {
+        if (!item.lines || (item.type && item.type !== "text")) return
+        if ((item.language || "") !== language) return
+
+        item.lines.forEach(line => {
+            const text = (line.text || []).map(a => a.value).join("")
+            if (!text.trim() && !line.chords?.length) return
+
+            lines.push({ text, chords: line.chords || [] })
+        })
+    })
+
+    return lines
+}
+
+export function getLineWithChords(line: SongLine) {
+    let text = ""
+    let index = 0
+
+    // chords at the same position keep their order (sort is stable)
+    const chords = [...line.chords].sort((a, b) => a.pos - b.pos)
+    chords.forEach(chord => {
+        const pos = Math.min(Math.max(chord.pos, 0), line.text.length)
+        text += line.text.slice(index, pos) + `[${chord.key}]`
+        index = pos
+    })
+
+    return text + line.text.slice(index)
+}
+
+// metadata that has its own directive/tag
+function getSongMetadata(show: Show) {
+    const meta: { [key: string]: string } = { ...(show.meta || {}) }
+    Object.keys(meta).forEach(key => {
+        if (typeof meta[key] !== "string" || !meta[key].trim()) delete meta[key]
+    })
+
+    const tempoKey = Object.keys(meta).find(key => key.toLowerCase().includes("bpm") || key.toLowerCase() === "tempo")
+    const tempo = tempoKey ? meta[tempoKey] : ""
+    if (tempoKey) delete meta[tempoKey]
+
+    return { meta, tempo }
+}
+
+// ----- CHORDPRO -----
+
+// https://www.chordpro.org/chordpro/chordpro-directives/
+const chordProMetaKeys = { title: "title", artist: "artist", author: "lyricist", composer: "composer", copyright: "copyright", CCLI: "ccli", year: "year", key: "key" }
+
+export function getChordProText(show: Show) {
+    const { sections, order } = getSongSections(show)
+    const { meta, tempo } = getSongMetadata(show)
+
+    let text = `{title: ${show.name || meta.title || ""}}\n`
+    delete meta.title
+
+    Object.entries(meta).forEach(([key, value]) => {
+        const directive = chordProMetaKeys[key as keyof typeof chordProMetaKeys]
+        if (directive) text += `{${directive}: ${value}}\n`
+        else text += `{meta: ${key.replaceAll(" ", "_")} ${value}}\n`
+    })
+    if (tempo) text += `{tempo: ${tempo}}\n`
+
+    // custom directive for the FreeShow layout (ignored by other ChordPro apps)
+    if (order.length) text += `{x_freeshow_order: ${order.join(", ")}}\n`
+
+    const notes = show.layouts?.[show.settings?.activeLayout]?.notes || ""
+    if (notes.trim())
+        text +=
+            notes
+                .trim()
+                .split("\n")
+                .map(line => `# ${line}`)
+                .join("\n") + "\n"
+
+    sections.forEach(section => {
+        text += `\n{start_of_${section.type}: ${section.label}}\n`
+        text += section.slides.map(lines => lines.map(getLineWithChords).join("\n")).join("\n\n")
+        text += `\n{end_of_${section.type}}\n`
+    })
+
+    return text.trim() + "\n"
+}
+
+// ----- ONSONG -----
+
+// https://www.onsongapp.com/docs/features/formats/onsong/
+// tags are the capitalized metadata keys: "Artist", "CCLI", "Number"
+const onSongMetaKeys = ["title", "artist", "author", "composer", "publisher", "copyright", "CCLI", "year", "key", "number"]
+
+export function getOnSongText(show: Show) {
+    const { sections, order } = getSongSections(show)
+    const { meta, tempo } = getSongMetadata(show)
+
+    let text = `Title: ${show.name || meta.title || ""}\n`
+    delete meta.title
+
+    Object.entries(meta).forEach(([key, value]) => {
+        if (onSongMetaKeys.includes(key)) text += `${key[0].toUpperCase() + key.slice(1)}: ${value}\n`
+    })
+    if (tempo) text += `Tempo: ${tempo}\n`
+    if (order.length) text += `Flow: ${order.join(", ")}\n`
+
+    sections.forEach(section => {
+        text += `\n${section.label}:\n`
+        text += section.slides.map(lines => lines.map(getLineWithChords).join("\n")).join("\n\n")
+        text += "\n"
+    })
+
+    return text.trim() + "\n"
+}
+
+// ----- OPENLYRICS -----
+
+// https://docs.openlyrics.org/en/latest/dataformat.html
+const openLyricsNames = { verse: "v", chorus: "c", pre_chorus: "p", bridge: "b", outro: "e", intro: "i", tag: "o" }
+
+export function getOpenLyricsText(show: Show) {
+    const { sections, order } = getSongSections(show)
+    const { meta, tempo } = getSongMetadata(show)
+
+    // OpenLyrics names can't have spaces: "v1", "c1", "Interlude1"
+    const nameCount: { [key: string]: number } = {}
+    const names: { [key: string]: string } = {}
+    sections.forEach(section => {
+        const name = openLyricsNames[section.globalGroup as keyof typeof openLyricsNames] || section.label.replace(/[\s\d]+/g, "")
+        nameCount[name] = (nameCount[name] || 0) + 1
+        names[section.label] = `${name}${nameCount[name]}`
+    })
+
+    const properties: string[] = [`<titles>\n      <title>${escapeXml(show.name || meta.title || "")}</title>\n    </titles>`]
+
+    const authors = [
+        ["words", meta.author],
+        ["music", meta.composer],
+        ["", meta.artist]
+    ].filter(([, name]) => name)
+    if (authors.length) properties.push(`<authors>\n${authors.map(([type, name]) => `      <author${type ? ` type="${type}"` : ""}>${escapeXml(name)}</author>`).join("\n")}\n    </authors>`)
+
+    if (meta.copyright) properties.push(`<copyright>${escapeXml(meta.copyright)}</copyright>`)
+    if (meta.CCLI) properties.push(`<ccliNo>${escapeXml(meta.CCLI)}</ccliNo>`)
+    if (meta.year) properties.push(`<released>${escapeXml(meta.year)}</released>`)
+    if (meta.key) properties.push(`<key>${escapeXml(meta.key)}</key>`)
+    if (tempo) properties.push(`<tempo type="${isNaN(Number(tempo)) ? "text" : "bpm"}">${escapeXml(tempo)}</tempo>`)
+    if (meta.publisher) properties.push(`<publisher>${escapeXml(meta.publisher)}</publisher>`)
+    if (order.length) properties.push(`<verseOrder>${order.map(label => names[label]).join(" ")}</verseOrder>`)
+    if (meta.number) properties.push(`<songbooks>\n      <songbook name="" entry="${escapeXml(meta.number)}"/>\n    </songbooks>`)
+
+    const notes = show.layouts?.[show.settings?.activeLayout]?.notes || ""
+    if (notes.trim()) properties.push(`<comments>\n      <comment>${escapeXml(notes.trim())}</comment>\n    </comments>`)
+
+    const verses: string[] = []
+    sections.forEach(section => {
+        verses.push(getOpenLyricsVerse(names[section.label], "", section.slides))
+        Object.entries(section.translations).forEach(([language, slides]) => {
+            verses.push(getOpenLyricsVerse(names[section.label], language, slides))
+        })
+    })
+
+    let text = '<?xml version="1.0" encoding="UTF-8"?>\n'
+    text += `<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.9" createdIn="FreeShow" modifiedIn="FreeShow" modifiedDate="${new Date().toISOString()}">\n`
+    text += `  <properties>\n${properties.map(a => "    " + a).join("\n")}\n  </properties>\n`
+    text += `  <lyrics>\n${verses.join("\n")}\n  </lyrics>\n`
+    text += "</song>\n"
+
+    return text
+}
+
+function getOpenLyricsVerse(name: string, language: string, slides: SongLine[][]) {
+    // empty translated slides are kept, as the translations are matched by the <lines> index
+    const lines = slides.map(slideLines => (slideLines.length ? `      <lines>${slideLines.map(getOpenLyricsLine).join("<br/>")}</lines>` : "      <lines/>"))
+    return `    <verse name="${escapeXml(name)}"${language ? ` lang="${escapeXml(language)}"` : ""}>\n${lines.join("\n")}\n    </verse>`
+}
+
+function getOpenLyricsLine(line: SongLine) {
+    let text = ""
+    let index = 0
+
+    const chords = [...line.chords].sort((a, b) => a.pos - b.pos)
+    chords.forEach(chord => {
+        const pos = Math.min(Math.max(chord.pos, 0), line.text.length)
+        text += escapeXml(line.text.slice(index, pos)) + `<chord name="${escapeXml(chord.key)}"/>`
+        index = pos
+    })
+
+    return text + escapeXml(line.text.slice(index))
+}
@@ -310,11 +310,15 @@ function extractZipDataAndMedia(filePath: string, importFolder: string) {
 // https://github.com/greyshirtguy/ProPresenter7-Proto
 // https://www.npmjs.com/package/protobufjs
 
-async function decodeProto(filePath: string, fileContent: Buffer | null = null) {
+export async function loadPresentationType() {
     const dir = join(__dirname, "..", "..", "..", "public", "proto", "presentation.proto")
     const root = await protobufjs.load(dir)
 
-    const Presentation = root.lookupType("Presentation")
+    return root.lookupType("Presentation")
+}
+
+async function decodeProto(filePath: string, fileContent: Buffer | null = null) {
+    const Presentation = await loadPresentationType()
 
     const buffer = fileContent || (await readFileBufferAsync(filePath))
     const message = Presentation.decode(buffer)
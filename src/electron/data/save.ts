@@ -3,7 +3,7 @@ import type { Main } from "../../types/IPC/Main"
 import type { Bible } from "json-bible/lib/Bible"
 import { ToMain } from "../../types/IPC/ToMain"
 import type { SaveData } from "../../types/Save"
-import { currentlyDeletedShows } from "../cloud/drive"
+import { currentlyDeletedShows } from "../cloud/sync"
 import { startBackup } from "../data/backup"
 import { defaultSettings, defaultSyncedSettings } from "../data/defaults"
 import { stores } from "../data/store"
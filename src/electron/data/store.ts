@@ -8,7 +8,7 @@ import { statSync } from "fs"
 import path from "path"
 import type { Event } from "../../types/Calendar"
 import type { History } from "../../types/History"
-import type { ErrorLog, Media } from "../../types/Main"
+import type { CloudSecretBackend, ErrorLog, Media } from "../../types/Main"
 import type { Themes } from "../../types/Settings"
 import type { Overlays, Templates, TrimmedShows } from "../../types/Show"
 import type { StageLayouts } from "../../types/Stage"
@@ -95,7 +95,7 @@ const DEFAULTS = {
     cache: {} as any,
     history: {} as { undo: History[]; redo: History[] },
     usage: { all: [] } as any,
-    accessKeys: { contentProviders: {} as { [key in ContentProviderId]?: any } },
+    accessKeys: { contentProviders: {} as { [key in ContentProviderId]?: any }, cloudSecrets: {} as { [key in CloudSecretBackend]?: { value: string; encrypted: boolean } }, deviceTokenSecret: "" },
 }
 
 // ERROR LOG
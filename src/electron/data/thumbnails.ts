@@ -5,11 +5,12 @@ import path from "path"
 import { isProd, loadWindowContent } from ".."
 import { OUTPUT } from "../../types/Channels"
 import { ToMain } from "../../types/IPC/ToMain"
+import type { AudioLoudness } from "../../types/Audio"
 import type { Output } from "../../types/Output"
 import type { Resolution } from "../../types/Settings"
 import { requestToMain, sendToMain } from "../IPC/main"
 import { OutputHelper } from "../output/OutputHelper"
-import { createFolder, dataFolderNames, deleteFile, doesPathExist, doesPathExistAsync, getFileStatsAsync, makeDir } from "../utils/files"
+import { createFolder, dataFolderNames, deleteFile, doesPathExist, doesPathExistAsync, getFileStatsAsync, makeDir, readFileAsync, writeFileAsync } from "../utils/files"
 import { waitUntilValueIsDefined } from "../utils/helpers"
 import { captureOptions } from "../utils/windowOptions"
 import { imageExtensions, videoExtensions } from "./media"
@@ -43,6 +44,9 @@ function deleteThumbnails(filePath: string) {
         const outputPath = getThumbnailPath(filePath, size)
         if (doesPathExist(outputPath)) deleteFile(outputPath)
     })
+
+    const loudnessPath = getLoudnessPath(filePath)
+    if (doesPathExist(loudnessPath)) deleteFile(loudnessPath)
 }
 
 export function getThumbnail(data: { input: string; size: number }) {
@@ -116,6 +120,40 @@ function getThumbnailPath(filePath: string, size = 250) {
     return path.join(folderPath, `${filePathHashCode(filePath)}-${size}.png`)
 }
 
+// ----- AUDIO LOUDNESS -----
+
+// the loudness is measured in the frontend, and cached with the thumbnails
+export async function getAudioLoudness(data: { path: string }) {
+    const loudnessPath = getLoudnessPath(data.path)
+    if (!(await doesPathExistAsync(loudnessPath))) return { path: data.path, loudness: null }
+
+    let cached: { modified: number; loudness: AudioLoudness } | null = null
+    try {
+        cached = JSON.parse(await readFileAsync(loudnessPath))
+    } catch (err) {
+        console.error("Could not read audio loudness cache:", err)
+    }
+
+    // file has changed since it was measured
+    const stats = await getFileStatsAsync(data.path)
+    if (!cached?.loudness || !stats || cached.modified !== Math.floor(stats.mtimeMs)) return { path: data.path, loudness: null }
+
+    return { path: data.path, loudness: cached.loudness }
+}
+
+export async function saveAudioLoudness(data: { path: string; loudness: AudioLoudness }) {
+    const stats = await getFileStatsAsync(data.path)
+    if (!stats) return
+
+    const content = JSON.stringify({ modified: Math.floor(stats.mtimeMs), loudness: data.loudness })
+    await writeFileAsync(getLoudnessPath(data.path), content)
+}
+
+function getLoudnessPath(filePath: string) {
+    const folderPath = thumbnailFolderPath || getThumbnailFolderPath()
+    return path.join(folderPath, `${filePathHashCode(filePath)}-loudness.json`)
+}
+
 export function filePathHashCode(str: string) {
     let hash = 0
 
@@ -1,13 +1,16 @@
+import crypto from "crypto"
 import { ipcMain, type IpcMainEvent } from "electron"
-import type { Response } from "express"
+import type { Request, Response } from "express"
 import express from "express"
 import http from "http"
 import { join } from "path"
 import { Server, type Socket } from "socket.io"
 import type { Main, MainSendPayloads } from "../types/IPC/Main"
-import type { Message, ServerData } from "../types/Socket"
+import type { Message, ServerData, ServerDevice } from "../types/Socket"
+import { addPlainStageRoutes } from "../server/stage/helpers/StageHtmlHelper"
 import { CaptureHelper } from "./capture/CaptureHelper"
 import { publishPort, unpublishPorts } from "./data/bonjour"
+import { stores } from "./data/store"
 import { toApp } from "./index"
 import { OutputHelper } from "./output/OutputHelper"
 
@@ -17,7 +20,7 @@ interface ServerValues {
     server: http.Server
     io: Server
     max: number
-    connections: { [key: string]: { name: string } }
+    connections: { [key: string]: { name: string; device: string } }
     data: ServerData
 }
 
@@ -43,6 +46,12 @@ function createServers() {
             // app.get('/show/:showId/:slideId', handleShowSlideHtmlRequest);
             // Serve media files
             // app.get('/media/:token', handleMediaRequest);
+
+            // plain HTML fallback for low-end devices
+            addPlainStageRoutes(app)
+        } else if (id === "OUTPUT_STREAM") {
+            // MJPEG & HLS for players without the OutputShow app
+            CaptureHelper.Streamer.addRoutes(app)
         }
 
         // The join import from 'path' is still needed for this part
@@ -121,7 +130,22 @@ function createBridge(id: ServerName, server: ServerValues) {
             return
         }
 
-        initialize(id, socket)
+        // kicked by the operator
+        let deviceId = getTokenDevice(socket.handshake.auth?.device)
+        if (deviceId && server.data.blocked?.includes(deviceId)) {
+            console.info(id + ": blocked " + socket.id)
+            socket.disconnect(true)
+            return
+        }
+
+        // new device (or a token not issued by this app)
+        if (!deviceId) {
+            const token = createDeviceToken()
+            deviceId = token.slice(0, token.indexOf("."))
+            socket.emit("DEVICE_TOKEN", token)
+        }
+
+        initialize(id, socket, deviceId)
     })
 
     // SEND DATA FROM APP TO CLIENT
@@ -138,21 +162,82 @@ export function toServer(id: ServerName, msg: any) {
         // only send if responded
         if (responded[msg.data.id] === false) return
         responded[msg.data.id] = false
+
+        // each device gets the output it's bound to
+        getStreamConnections(msg.data.id).forEach((socketId) => ioServers[id]?.to(socketId).emit(id, msg))
+        return
     }
 
     ioServers[id]?.emit(id, msg)
 }
 
+export function getDeviceData(id: ServerName, socketId: string): ServerDevice {
+    const deviceId = servers[id]?.connections[socketId]?.device
+    return (deviceId && servers[id]?.data.devices?.[deviceId]) || {}
+}
+
+export function kickConnection(id: ServerName, socketId: string) {
+    const socket = servers[id]?.io.sockets.sockets.get(socketId)
+    if (!socket) return
+
+    console.info(id + ": kicked " + socketId)
+    // clients will not reconnect automatically when disconnected by the server
+    socket.disconnect(true)
+}
+
+function getStreamConnections(outputId: string) {
+    const server = servers.OUTPUT_STREAM
+    if (!server) return []
+
+    const defaultOutputId = getDefaultStreamOutput()
+    return Object.keys(server.connections).filter((socketId) => {
+        const boundId = getDeviceData("OUTPUT_STREAM", socketId).outputId
+        const hasOutput = boundId && OutputHelper.getOutput(boundId)?.window
+        return (hasOutput ? boundId : defaultOutputId) === outputId
+    })
+}
+
+// the selected output, or the first captured output not only captured for a bound device
+function getDefaultStreamOutput() {
+    const data = getServerData("OUTPUT_STREAM")
+    if (data.outputId) return data.outputId
+
+    const boundIds = Object.values(data.devices || {}).map((a) => a.outputId)
+    const capturedIds = OutputHelper.getAllOutputs()
+        .filter((output) => output.captureOptions?.options.server)
+        .map((output) => output.id)
+
+    return capturedIds.find((outputId) => !boundIds.includes(outputId)) || capturedIds[0] || ""
+}
+
 export function getConnections(id: ServerName) {
     return Object.keys(servers[id]?.connections || {}).length
 }
 
 // FUNCTIONS
 
-function initialize(id: ServerName, socket: Socket) {
+// last handled sequence number for each client session (replayed messages are skipped)
+// sessions are removed after some time without messages, as clients create a new session when reloaded
+const SEQUENCE_EXPIRY = 60 * 60 * 1000 // 1 hour
+const handledSequences: { [key: string]: { seq: number; time: number } } = {}
+
+function isHandledSequence(session: string, seq: number) {
+    const now = Date.now()
+    Object.keys(handledSequences).forEach((key) => {
+        if (now - handledSequences[key].time > SEQUENCE_EXPIRY) delete handledSequences[key]
+    })
+
+    const handled = seq <= (handledSequences[session]?.seq || 0)
+    if (!handled) handledSequences[session] = { seq, time: now }
+    else handledSequences[session].time = now
+
+    return handled
+}
+
+function initialize(id: ServerName, socket: Socket, deviceId: string) {
     const name: string = getOS(socket.handshake.headers["user-agent"] || "")
-    toApp(id, { channel: "CONNECTION", id: socket.id, data: { name } })
-    servers[id]!.connections[socket.id] = { name }
+    toApp(id, { channel: "CONNECTION", id: socket.id, data: { name, device: deviceId } })
+    servers[id]!.connections[socket.id] = { name, device: deviceId }
 
     // reset with new connection
     if (id === "OUTPUT_STREAM") responded = {}
@@ -168,6 +253,17 @@ function initialize(id: ServerName, socket: Socket) {
             const bounds = window.getBounds()
             toServer(id, { channel: "OUTPUT_FRAME", data: { frame, width: bounds.width, height: bounds.height } })
         } else if (msg) {
+            // connection events are only sent by the server
+            if (msg.channel === "CONNECTION" || msg.channel === "DISCONNECT") return
+            // the sender is always this socket, whatever id the client sent
+            msg.id = socket.id
+
+            if (msg.session && msg.seq !== undefined) {
+                socket.emit(id, { channel: "ACK", data: msg.seq })
+                // already handled before the connection was lost
+                if (isHandledSequence(msg.session, msg.seq)) return
+            }
+
             toApp(id, msg)
         }
     })
@@ -176,6 +272,56 @@ function initialize(id: ServerName, socket: Socket) {
     socket.on("disconnect", () => disconnect(id, socket))
 }
 
+// DEVICE TOKENS
+
+// devices get a signed token from the app that is stored in their browser, used for device specific settings
+// "<device_id>.<signature>", so a client can't use the id of another device
+function createDeviceToken() {
+    const deviceId = crypto.randomBytes(8).toString("hex")
+    return `${deviceId}.${signDeviceId(deviceId)}`
+}
+
+// returns the device id if the token was issued by this app
+function getTokenDevice(token: unknown) {
+    if (typeof token !== "string") return ""
+
+    const [deviceId, signature = ""] = token.split(".")
+    if (!deviceId) return ""
+
+    const expected = Buffer.from(signDeviceId(deviceId))
+    const received = Buffer.from(signature)
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) return ""
+
+    return deviceId
+}
+
+// plain HTTP pages (without a socket connection) get the device token as a cookie
+const DEVICE_COOKIE = "freeshow_device"
+export function getRequestDevice(id: ServerName, req: Request, res: Response): { blocked: boolean; settings: ServerDevice } {
+    const cookies = (req.headers.cookie || "").split(";").map((cookie) => cookie.trim())
+    const token = decodeURIComponent(cookies.find((cookie) => cookie.startsWith(DEVICE_COOKIE + "="))?.slice(DEVICE_COOKIE.length + 1) || "")
+
+    let deviceId = getTokenDevice(token)
+    if (!deviceId) {
+        const newToken = createDeviceToken()
+        deviceId = newToken.slice(0, newToken.indexOf("."))
+        res.setHeader("Set-Cookie", `${DEVICE_COOKIE}=${encodeURIComponent(newToken)}; Path=/; Max-Age=31536000; HttpOnly; SameSite=Strict`)
+    }
+
+    const data = servers[id]?.data || {}
+    return { blocked: !!data.blocked?.includes(deviceId), settings: data.devices?.[deviceId] || {} }
+}
+
+function signDeviceId(deviceId: string) {
+    let secret = stores.ACCESS.get("deviceTokenSecret")
+    if (!secret) {
+        secret = crypto.randomBytes(32).toString("hex")
+        stores.ACCESS.set("deviceTokenSecret", secret)
+    }
+
+    return crypto.createHmac("sha256", secret).update(deviceId).digest("hex")
+}
+
 function disconnect(id: ServerName, socket: Socket) {
     toApp(id, { channel: "DISCONNECT", id: socket.id })
     delete servers[id]!.connections[socket.id]
@@ -5,6 +5,7 @@ import OSC from "osc-js"
 import { Server, type Socket } from "socket.io"
 import { uid } from "uid"
 import { ToMain } from "../../types/IPC/ToMain"
+import type { ApiAccess, ApiRequestLog } from "../../types/Main"
 import { requestToMain, sendToMain } from "../IPC/main"
 import { waitUntilValueIsDefined } from "./helpers"
 
@@ -38,10 +39,18 @@ function startWebSocket(PORT: number) {
 }
 
 function connected(socket: Socket) {
+    // io("ws://ip:port", { auth: { token: "API_KEY" } })
+    const token = socket.handshake.auth?.token || socket.handshake.query?.token
+    const client: ApiClient = { source: "WebSocket", address: socket.handshake.address, token: typeof token === "string" ? token : "" }
+
     log("Client connected.")
     sendToMain(ToMain.WEBSOCKET, "connected") // TODO: respond with API_DATA
 
-    socket.on("disconnect", () => log("Client disconnected."))
+    socket.on("disconnect", () => {
+        log("Client disconnected.")
+        removeSubscription(socket.id)
+        ipcMain.removeListener("API_DATA", sendApiData)
+    })
 
     socket.on("data", async (data: string) => {
         let parsedData
@@ -54,18 +63,28 @@ function connected(socket: Socket) {
 
         let returnData
         if (parsedData.isVariable) {
-            returnData = { isVariable: true, values: await requestToMain(ToMain.GET_DYNAMIC_VALUES, parsedData.keys || []) }
+            returnData = await getDynamicValues(parsedData, log, client)
+        } else if (parsedData.action === "subscribe" || parsedData.action === "unsubscribe") {
+            returnData = updateSubscription(socket, parsedData, log, client)
         } else {
-            returnData = await receivedData(parsedData, log)
+            returnData = await receivedData(parsedData, log, client)
         }
-        if (!returnData) return
+        // errors are emitted by log()
+        if (!returnData || returnData.error) return
 
         socket.emit("data", returnData)
     })
 
-    ipcMain.on("API_DATA", (_e, msg) => {
+    // only send data this connection has access to
+    function sendApiData(_e: any, msg: any) {
+        const profileId = getAccessProfile(client.token || subscriptions[socket.id]?.token || "")
+        if (profileId === null) return
+        if (msg?.action && apiAccess?.blocked[profileId]?.includes(msg.action)) return
+        if (msg?.event && apiAccess?.blockedEvents[profileId]?.includes(msg.event)) return
+
         socket.emit("data", msg)
-    })
+    }
+    ipcMain.on("API_DATA", sendApiData)
 
     function log(msg: string, isError = false) {
         console.info(`WebSocket: ${msg}`)
@@ -92,7 +111,16 @@ function startRestListener(PORT: number) {
         // ?action=ACTION_ID&data={}
         if (!data.action && req.query.action) data = { action: req.query.action, ...JSON.parse((req.query.data || "{}") as string) }
 
-        const returnData = await receivedData(data, (msg: string) => console.info(`REST: ${msg}`))
+        // Authorization: Bearer API_KEY | x-api-key: API_KEY | ?token=API_KEY
+        const authorization = req.headers.authorization || ""
+        const token = authorization.startsWith("Bearer ") ? authorization.slice(7) : req.headers["x-api-key"] || req.query.token
+        const client: ApiClient = { source: "REST", address: req.ip || "", token: typeof token === "string" ? token : "" }
+
+        const returnData = await receivedData(data, (msg: string) => console.info(`REST: ${msg}`), client)
+        if (returnData?.error) {
+            res.status(errorStatusCodes[returnData.status] || 403).json(returnData)
+            return
+        }
         // WIP send error if action does not exist
         if (!returnData) {
             res.status(204).send()
@@ -109,22 +137,41 @@ function startOSC(PORT: number) {
     // const osc = new OSC({ plugin: new OSC.WebsocketServerPlugin() }) // ws://ip:port
     const osc = (servers.OSC = new OSC({ plugin: new OSC.DatagramPlugin() })) // UDP
 
-    osc.on("/freeshow/*", async (msg: OSC.Message) => {
+    osc.on("/freeshow/*", async (msg: OSC.Message, rinfo?: { address: string; port: number }) => {
         // const active = msg.args[1] || 0
         let args: any = {}
-        try {
-            const data = msg.args[0]
-            args = data && typeof data === "string" ? JSON.parse(data) : {}
-        } catch (err) {
-            console.error("OSC: Could not parse JSON!\n", err)
+        const firstArg = msg.args[0]
+        if (typeof firstArg === "string" && firstArg.trim().startsWith("{")) {
+            try {
+                args = JSON.parse(firstArg)
+            } catch (err) {
+                console.error("OSC: Could not parse JSON!\n", err)
+            }
+        } else if (msg.args.length) {
+            // typed OSC arguments (index, id, volume, value...)
+            args = { oscArgs: msg.args }
         }
 
-        const action = msg.address.replace("/freeshow", "")
-        const returnData = await receivedData({ action, ...args }, (a: string) => console.info(`OSC: ${a}`))
-        if (!returnData) return
+        let action = msg.address.replace("/freeshow", "")
+        if (action.startsWith("/feedback")) return
+
+        // the key can be sent as a "token" in the JSON argument, or as an address prefix: /freeshow/key/API_KEY/slide/next
+        let token = ""
+        const keyMatch = action.match(/^\/key\/([^/]+)(\/.*)$/)
+        if (keyMatch) {
+            token = keyMatch[1]
+            action = keyMatch[2]
+        }
 
-        const message = new OSC.Message(msg.address, returnData)
-        osc.send(message)
+        const client: ApiClient = { source: "OSC", address: rinfo?.address || "", token }
+        const returnData = await receivedData({ action, ...args }, (a: string) => console.info(`OSC: ${a}`), client)
+        if (returnData === undefined) return
+
+        // the key is not sent back
+        const message = new OSC.Message("/freeshow" + action, toOSCArgument(returnData))
+        // reply to the sender
+        if (rinfo) osc.send(message, { host: rinfo.address, port: rinfo.port })
+        else osc.send(message)
     })
 
     osc.on("open", () => {
@@ -174,6 +221,25 @@ export function emitOSC(msg: { signal: any; data: string }) {
     }
 }
 
+// send live state (slide index, group name, timer, audio level) to a OSC client
+export function sendOSCFeedback(msg: { signal: { host?: string; port?: number }; address: string; args: any[] }) {
+    const osc = servers.OSC as OSC | undefined
+    if (!osc || !msg.signal?.port || !msg.address) return
+
+    const message = new OSC.Message(msg.address, ...(msg.args || []).map(toOSCArgument))
+    try {
+        osc.send(message, { host: msg.signal.host || "127.0.0.1", port: Number(msg.signal.port) })
+    } catch (err) {
+        console.error("OSC FEEDBACK ERROR:", err)
+    }
+}
+
+function toOSCArgument(value: any) {
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value
+    if (value === null || value === undefined) return ""
+    return JSON.stringify(value)
+}
+
 function convertToType(value: string) {
     if (value === "true") return true
     if (value === "false") return false
@@ -183,13 +249,171 @@ function convertToType(value: string) {
     return value
 }
 
+// ACCESS
+
+type ApiClient = { source: ApiRequestLog["source"]; address: string; token?: string }
+const errorStatusCodes: { [key: string]: number } = { unauthorized: 401, denied: 403, rate_limited: 429 }
+
+// default profile used by API connections, the actions each profile is not allowed to run, and the API keys
+// everything is denied until the app has sent the access data
+let apiAccess: ApiAccess | null = null
+export function setApiAccess(data: ApiAccess) {
+    apiAccess = data
+}
+
+// the profile a connection has access as, null if it has no access
+function getAccessProfile(token: string) {
+    if (!apiAccess) return null
+
+    const key = token ? apiAccess.keys[token] : null
+    if (token && !key) return null
+    if (!key && apiAccess.requireKey) return null
+
+    return key?.profile || apiAccess.profile
+}
+
+function checkAccess(action: string, token: string) {
+    if (!apiAccess) return { status: "unauthorized", keyName: "", error: "The API is not ready yet!" } as const
+
+    const key = token ? apiAccess.keys[token] : null
+    // revoked keys are removed from the list
+    if (token && !key) return { status: "unauthorized", keyName: "", error: "Invalid API key!" } as const
+    if (!key && apiAccess.requireKey) return { status: "unauthorized", keyName: "", error: "An API key is required!" } as const
+
+    const keyName = key?.name || ""
+    const profileId = key?.profile || apiAccess.profile
+
+    // OSC paths are checked in the app after they are converted to an action id
+    const isAction = !action.startsWith("/")
+    if (isAction && key?.allowedActions?.length && !key.allowedActions.includes(action)) {
+        return { status: "denied", keyName, error: `Access denied: The API key "${keyName}" is not allowed to use "${action}"!` } as const
+    }
+
+    if (key?.rateLimit && token && isRateLimited(token, key.rateLimit)) {
+        return { status: "rate_limited", keyName, error: `Rate limit: The API key "${keyName}" can only send ${key.rateLimit} requests per minute!` } as const
+    }
+
+    if (apiAccess.blocked[profileId]?.includes(action)) {
+        return { status: "denied", keyName, error: `Access denied: The API profile is not allowed to use "${action}"!` } as const
+    }
+
+    return { status: "ok", keyName, error: "", profileId, allowedActions: key?.allowedActions } as const
+}
+
+// max requests per minute
+const requestTimes: { [key: string]: number[] } = {}
+function isRateLimited(token: string, limit: number) {
+    const now = Date.now()
+    requestTimes[token] = (requestTimes[token] || []).filter((time) => now - time < 60000)
+    if (requestTimes[token].length >= limit) return true
+
+    requestTimes[token].push(now)
+    return false
+}
+
+// REQUEST LOG
+
+const MAX_LOG_LENGTH = 500
+let requestLog: ApiRequestLog[] = []
+function logRequest(entry: ApiRequestLog) {
+    requestLog.push(entry)
+    if (requestLog.length > MAX_LOG_LENGTH) requestLog = requestLog.slice(-MAX_LOG_LENGTH)
+}
+
+export function getApiRequestLog() {
+    return requestLog
+}
+
+export function clearApiRequestLog() {
+    requestLog = []
+}
+
+// EVENTS
+
+// WebSocket clients subscribed to app events
+// { action: "subscribe", events: ["slide_changed", "timer_tick"] } | { action: "unsubscribe", events?: [] }
+const subscriptions: { [key: string]: { socket: Socket; token: string; events: string[] } } = {}
+
+function updateSubscription(socket: Socket, data: any, log: (msg: string, isError?: boolean) => void, client: ApiClient) {
+    const token = client.token || (typeof data.token === "string" ? data.token : "")
+    const access = checkAccess("subscribe", token)
+    logRequest({ time: Date.now(), source: client.source, address: client.address, key: access.keyName, action: String(data.action), status: access.status })
+
+    if (access.status !== "ok") {
+        log(access.error, true)
+        return { error: access.error, status: access.status }
+    }
+
+    const events: string[] = (Array.isArray(data.events) ? data.events : [data.events]).filter((a: any) => typeof a === "string")
+    const currentEvents = subscriptions[socket.id]?.events || []
+
+    let newEvents: string[]
+    if (data.action === "unsubscribe") {
+        // unsubscribe from all if no events are specified
+        newEvents = events.length ? currentEvents.filter((a) => !events.includes(a)) : []
+    } else {
+        const blocked = apiAccess?.blockedEvents[access.profileId] || []
+        const denied = events.filter((a) => blocked.includes(a))
+        if (denied.length) log(`Access denied: The API profile is not allowed to subscribe to "${denied.join(", ")}"!`, true)
+
+        newEvents = [...new Set([...currentEvents, ...events.filter((a) => !blocked.includes(a))])]
+    }
+
+    if (newEvents.length) subscriptions[socket.id] = { socket, token, events: newEvents }
+    else delete subscriptions[socket.id]
+    sendSubscribedEvents()
+
+    log(`Subscribed to events: ${newEvents.join(", ") || "none"}`)
+    return { action: data.action, data: newEvents }
+}
+
+function removeSubscription(socketId: string) {
+    if (!subscriptions[socketId]) return
+
+    delete subscriptions[socketId]
+    sendSubscribedEvents()
+}
+
+// the app only sends the events that any client is listening to
+function sendSubscribedEvents() {
+    const events = [...new Set(Object.values(subscriptions).flatMap((a) => a.events))]
+    sendToMain(ToMain.API_SUBSCRIPTIONS, events)
+}
+
+export function sendApiEvent({ event, data }: { event: string; data: any }) {
+    const time = Date.now()
+    Object.values(subscriptions).forEach(({ socket, token, events }) => {
+        if (!events.includes(event)) return
+
+        // profile access (or the key) might have changed after subscribing
+        const profileId = getAccessProfile(token)
+        if (profileId === null || apiAccess?.blockedEvents[profileId]?.includes(event)) return
+        socket.emit("event", { event, data, time })
+    })
+}
+
 // DATA
 
-async function receivedData(data: any = {}, log: (...msg: any[]) => void): Promise<any> {
+async function receivedData(data: any = {}, log: (...msg: any[]) => void, client: ApiClient): Promise<any> {
     if (!data?.action) return log("Received message from client, but missing 'action' key.", true)
     log(`Received action ${String(data.action)}`)
 
-    const get = data.action.startsWith("get_")
+    // the key should not be passed on to the app
+    const token = client.token || (typeof data.token === "string" ? data.token : "")
+    delete data.token
+
+    const access = checkAccess(String(data.action), token)
+    logRequest({ time: Date.now(), source: client.source, address: client.address, key: access.keyName, action: String(data.action), status: access.status })
+
+    if (access.status !== "ok") {
+        log(access.error, true)
+        return { error: access.error, status: access.status }
+    }
+    // checked again in the app (OSC paths)
+    data.access = { profile: access.profileId, allowedActions: access.allowedActions }
+
+    // OSC paths with a segment starting with "get" will also return data
+    const get = data.action.startsWith("get_") || (data.action.startsWith("/") && data.action.includes("/get"))
     if (get) data.returnId = uid(5)
 
     sendToMain(ToMain.API_TRIGGER2, data)
@@ -202,6 +426,20 @@ async function receivedData(data: any = {}, log: (...msg: any[]) => void): Promi
     return returnData
 }
 
+// variable requests are read only, and have the same access as the "get_dynamic_value" action
+async function getDynamicValues(data: any, log: (...msg: any[]) => void, client: ApiClient) {
+    const token = client.token || (typeof data.token === "string" ? data.token : "")
+    const access = checkAccess("get_dynamic_value", token)
+    logRequest({ time: Date.now(), source: client.source, address: client.address, key: access.keyName, action: "get_dynamic_value", status: access.status })
+
+    if (access.status !== "ok") {
+        log(access.error, true)
+        return { error: access.error, status: access.status }
+    }
+
+    return { isVariable: true, values: await requestToMain(ToMain.GET_DYNAMIC_VALUES, data.keys || []) }
+}
+
 const returnDataObj: { [key: string]: any } = {}
 export function apiReturnData(data: any) {
     const id = data.returnId
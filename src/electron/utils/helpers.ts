@@ -32,3 +32,40 @@ export function waitUntilValueIsDefined(value: () => any, intervalTime = 50, tim
         }
     })
 }
+
+// CSS colors: "#F525D2" / "#FFF" / "rgb(245 37 210 / 0.5)" / "rgba(245, 37, 210, 0.5)" => { red: 245, green: 37, blue: 210, alpha: 0.5 }
+export function getColorChannels(value: string) {
+    value = (value || "").trim().toLowerCase()
+    if (value === "white") value = "#ffffff"
+    else if (value === "black") value = "#000000"
+
+    let channels: number[] = []
+    const hex = value.match(/^#([0-9a-f]{3,8})$/)?.[1] || ""
+    if (hex.length === 3 || hex.length === 4) channels = hex.split("").map((char, i) => parseInt(char + char, 16) / (i < 3 ? 1 : 255))
+    else if (hex.length === 6 || hex.length === 8) channels = (hex.match(/../g) || []).map((pair, i) => parseInt(pair, 16) / (i < 3 ? 1 : 255))
+    else {
+        const rgb = value.match(/^rgba?\(([^)]+)\)$/)?.[1]
+        const values = rgb?.split(/[\s,/]+/) || []
+        channels = values.filter(Boolean).map((channel) => parseFloat(channel))
+    }
+
+    if (!channels.length) return null
+
+    const [red, green, blue, alpha] = channels
+    const toChannel = (channel: number) => Math.max(0, Math.min(255, Math.round(channel || 0)))
+    return { red: toChannel(red), green: toChannel(green), blue: toChannel(blue), alpha: isNaN(alpha) ? 1 : Math.max(0, Math.min(1, alpha)) }
+}
+
+// CSS declarations: "top: 120px;left: 50px;" => { top: "120px", left: "50px" }
+export function getStyleValues(style: string) {
+    const values: { [key: string]: string } = {}
+    const declarations = (style || "").split(";")
+    declarations.forEach((declaration) => {
+        const index = declaration.indexOf(":")
+        if (index < 0) return
+
+        const key = declaration.slice(0, index).trim().toLowerCase()
+        if (key) values[key] = declaration.slice(index + 1).trim()
+    })
+    return values
+}
@@ -62,10 +62,8 @@ export async function sendMidi(data: any) {
     // port.close()
 }
 
-type MidiMessage = {
-    0: number
-    1: number
-    2: number
+// JZZ MIDI messages are arrays of the message bytes
+type MidiMessage = number[] & {
     _from: any[]
 }
 
@@ -91,6 +89,13 @@ export async function receiveMidi(data: any) {
             const channel = (status & 0x0f) + 1
             const typeCode = status & 0xf0
 
+            // System Exclusive (0xF0)
+            if (status === 0xf0) {
+                const values = getShowControlValues(Array.from(msg))
+                if (values) sendToMain(ToMain.RECEIVE_MIDI2, { id: data.id, values, type: "msc" })
+                return
+            }
+
             // Note On (0x90) or Note Off (0x80)
             if (msg.toString().includes("Note") || typeCode === 0x90 || typeCode === 0x80) {
                 // noteon with velocity 0 is actually noteoff
@@ -112,9 +117,113 @@ export async function receiveMidi(data: any) {
     }
 }
 
+// MIDI SHOW CONTROL (MSC)
+// F0 7F <device_id> 02 <command_format> <command> <data> F7
+
+const MSC_COMMANDS: { [key: number]: string } = {
+    0x01: "go",
+    0x02: "stop",
+    0x03: "resume",
+    0x04: "timed_go",
+    0x05: "load",
+    0x06: "set",
+    0x07: "fire",
+    0x08: "all_off",
+    0x09: "restore",
+    0x0a: "reset",
+    0x0b: "go_off"
+}
+
+function getShowControlValues(bytes: number[]) {
+    if (bytes[1] !== 0x7f || bytes[3] !== 0x02) return null
+
+    const command = MSC_COMMANDS[bytes[5]]
+    if (!command) return null
+
+    // cue number, cue list & cue path are ASCII strings separated by 00 (e.g. "12.5")
+    const end = bytes.indexOf(0xf7)
+    const cueData = bytes.slice(6, end < 0 ? bytes.length : end)
+    const [cue = "", list = "", path = ""] = String.fromCharCode(...cueData).split("\0")
+
+    // device id 127 (0x7F) is sent to all devices
+    return { command, cue, list, path, deviceId: bytes[2], channel: 1 }
+}
+
+// MIDI TIMECODE (MTC)
+
+const MTC_FRAME_RATES = [24, 25, 29.97, 30]
+
+let timecodePort: any = null
+let quarterFrames: number[] = []
+export async function listenMidiTimecode({ input }: { input: string }) {
+    closeMidiTimecode()
+    if (!input) return
+
+    try {
+        const port = await JZZ().openMidiIn(input).or("Error opening MIDI timecode listener: Device not found or not supported!")
+        console.info("LISTENING FOR MIDI TIMECODE:", input)
+
+        timecodePort = port
+        await port.connect((msg: MidiMessage) => {
+            const bytes: number[] = Array.from(msg)
+
+            // Quarter Frame (0xF1)
+            if (bytes[0] === 0xf1) {
+                receiveQuarterFrame(bytes[1])
+                return
+            }
+
+            // Full Frame: F0 7F <device_id> 01 01 hh mm ss ff F7 (sent when the position jumps)
+            if (bytes[0] === 0xf0 && bytes[1] === 0x7f && bytes[3] === 0x01 && bytes[4] === 0x01) {
+                const fps = MTC_FRAME_RATES[(bytes[5] >> 5) & 0x03]
+                sendTimecode(bytes[5] & 0x1f, bytes[6], bytes[7], bytes[8], fps)
+            }
+        })
+    } catch (err) {
+        console.error(err)
+    }
+}
+
+// the full time is sent in 8 pieces over two frames
+function receiveQuarterFrame(data: number) {
+    const piece = data >> 4
+    if (piece === 0) quarterFrames = []
+    quarterFrames[piece] = data & 0x0f
+
+    if (piece !== 7 || quarterFrames.filter((a) => a !== undefined).length < 8) return
+
+    const frames = quarterFrames[0] | ((quarterFrames[1] & 0x01) << 4)
+    const seconds = quarterFrames[2] | ((quarterFrames[3] & 0x03) << 4)
+    const minutes = quarterFrames[4] | ((quarterFrames[5] & 0x03) << 4)
+    const hours = quarterFrames[6] | ((quarterFrames[7] & 0x01) << 4)
+    const fps = MTC_FRAME_RATES[(quarterFrames[7] >> 1) & 0x03]
+
+    // the time was started two frames ago
+    sendTimecode(hours, minutes, seconds, frames + 2, fps)
+}
+
+function sendTimecode(hours: number, minutes: number, seconds: number, frames: number, fps: number) {
+    const time = ((hours * 60 + minutes) * 60 + seconds) * 1000 + Math.round((frames / fps) * 1000)
+    sendToMain(ToMain.TIMECODE, { time, fps, source: "mtc" })
+}
+
+function closeMidiTimecode() {
+    quarterFrames = []
+    if (!timecodePort) return
+
+    try {
+        timecodePort.close()
+    } catch (err) {
+        console.error("Error closing MIDI timecode port:", err)
+    }
+
+    timecodePort = null
+}
+
 export function stopMidi() {
     closeMidiInPorts()
     closeMidiOutPorts()
+    closeMidiTimecode()
     // closeVirtualMidi()
 }
 
@@ -0,0 +1,44 @@
+import crypto from "crypto"
+
+// profile remote passwords are stored as salted hashes: "scrypt$<salt>$<hash>"
+
+const PREFIX = "scrypt"
+const KEY_LENGTH = 32
+
+export function hashPassword(password: string) {
+    if (!password) return ""
+
+    const salt = crypto.randomBytes(16).toString("hex")
+    return [PREFIX, salt, getHash(password, salt).toString("hex")].join("$")
+}
+
+// returns the id of the hash matching the password (all hashes are checked, so the time does not reveal which one matched)
+export function matchPassword({ password, hashes }: { password: string; hashes: { [key: string]: string } }) {
+    let matchId = ""
+
+    Object.entries(hashes).forEach(([id, stored]) => {
+        if (isPasswordMatch(password, stored) && !matchId) matchId = id
+    })
+
+    return matchId
+}
+
+function isPasswordMatch(password: string, stored: string) {
+    if (!password || !stored) return false
+
+    const [prefix, salt, hash] = stored.split("$")
+    // passwords stored before they were hashed
+    if (prefix !== PREFIX || !salt || !hash) return safeEqual(getHash(password, "").toString("hex"), getHash(stored, "").toString("hex"))
+
+    return safeEqual(getHash(password, salt).toString("hex"), hash)
+}
+
+function getHash(password: string, salt: string) {
+    return crypto.scryptSync(password, salt, KEY_LENGTH)
+}
+
+function safeEqual(a: string, b: string) {
+    const bufferA = Buffer.from(a)
+    const bufferB = Buffer.from(b)
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB)
+}
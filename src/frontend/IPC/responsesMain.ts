@@ -4,6 +4,7 @@ import { ToMain } from "../../types/IPC/ToMain"
 import type { Project } from "../../types/Projects"
 import type { Show } from "../../types/Show"
 import { API_ACTIONS, triggerAction } from "../components/actions/api"
+import { setApiSubscriptions } from "../components/actions/apiEvents"
 import { receivedMidi } from "../components/actions/midi"
 import { menuClick } from "../components/context/menuClick"
 import { getCurrentTimerValue } from "../components/drawer/timers/timers"
@@ -16,10 +17,12 @@ import { captureCanvas, setMediaTracks } from "../components/helpers/media"
 import { getActiveOutputs } from "../components/helpers/output"
 import { loadShows, saveTextCache } from "../components/helpers/setShow"
 import { checkName, getLabelId } from "../components/helpers/show"
+import { receivedTimecode } from "../components/helpers/slideRecording"
 import { joinTimeBig } from "../components/helpers/time"
 import { defaultThemes } from "../components/settings/tabs/defaultThemes"
 import { importBibles } from "../converters/bible"
 import { convertCalendar } from "../converters/calendar"
+import { convertReadingPlan } from "../converters/readingPlan"
 import { convertChordPro } from "../converters/chordpro"
 import { convertCSV } from "../converters/csv"
 import { convertEasyslides } from "../converters/easyslides"
@@ -29,6 +32,7 @@ import { createCategory, importShow, importSpecific, importTemplate, setTempShow
 import { convertLessonsPresentation } from "../converters/lessonsChurch"
 import { convertMediaShout } from "../converters/mediashout"
 import { convertOpenLP } from "../converters/openlp"
+import { convertOpenLyrics } from "../converters/openlyrics"
 import { convertOpenSong } from "../converters/opensong"
 import { convertPowerpoint } from "../converters/powerpoint"
 import { addToProject, importProject } from "../converters/project"
@@ -81,8 +85,10 @@ import {
     windowState
 } from "../stores"
 import { newToast } from "../utils/common"
+import { startOutputStreamEncoder, stopOutputStreamEncoder } from "../utils/outputStream"
 import { confirmCustom } from "../utils/popup"
 import { initializeClosing, saveComplete } from "../utils/save"
+import { getStageState } from "../utils/stageTalk"
 import { updateSettings, updateSyncedSettings, updateThemeValues } from "../utils/updateSettings"
 import type { MainReturnPayloads } from "./../../types/IPC/Main"
 import { Main } from "./../../types/IPC/Main"
@@ -156,6 +162,9 @@ export const mainResponses: MainResponses = {
     [ToMain.SPELL_CHECK]: (a) => spellcheck.set(a),
     [Main.CLOSE]: (a) => initializeClosing(a ?? false),
     [ToMain.RECEIVE_MIDI2]: (a) => receivedMidi(a),
+    [ToMain.TIMECODE]: (a) => receivedTimecode(a),
+    [ToMain.STAGE_STATE]: (data) => getStageState(data.id),
+    [ToMain.OUTPUT_STREAM_ENCODER]: (data) => (data.active ? startOutputStreamEncoder(data.outputId, data.framerate) : stopOutputStreamEncoder(data.outputId)),
     [Main.DELETE_SHOWS]: (a) => {
         if (!a.deleted.length) {
             newToast("toast.delete_shows_empty")
@@ -219,6 +228,7 @@ export const mainResponses: MainResponses = {
     },
     [Main.MEDIA_TRACKS]: (data) => setMediaTracks(data),
     [ToMain.API_TRIGGER2]: (data) => triggerAction(data),
+    [ToMain.API_SUBSCRIPTIONS]: (data) => setApiSubscriptions(data),
     [ToMain.PRESENTATION_STATE]: (data) => presentationData.set(data),
     // TOP BAR
     [Main.MAXIMIZED]: (data) => windowState.set({ ...windowState, maximized: data }),
@@ -419,6 +429,7 @@ export const mainResponses: MainResponses = {
             easyworship: () => convertEasyWorship(data),
             videopsalm: () => convertVideopsalm(data),
             openlp: () => convertOpenLP(data),
+            openlyrics: () => convertOpenLyrics(data),
             opensong: () => convertOpenSong(data),
             mediashout: () => convertMediaShout(data),
             quelea: () => convertQuelea(data),
@@ -430,6 +441,7 @@ export const mainResponses: MainResponses = {
             lessons: () => convertLessonsPresentation(data),
             // Other
             calendar: () => convertCalendar(data),
+            reading_plan: () => convertReadingPlan(data),
             // Bibles
             BIBLE: () => importBibles(data)
         }
@@ -4,6 +4,8 @@ import { AUDIO, OUTPUT } from "../../types/Channels"
 import { currentWindow, disabledServers, outputs, playingAudio, playingVideos, serverData, special } from "../stores"
 import { send } from "../utils/request"
 import { AudioAnalyserMerger } from "./audioAnalyserMerger"
+import { AudioBuses } from "./audioBuses"
+import { AudioDucking } from "./audioDucking"
 import { connectAudioSourceToEqualizer, disconnectAudioSourceFromEqualizer, getConnectedSourceOutput, initializeEqualizer, setAutoInitializeCallback } from "./audioEqualizer"
 import { AudioMultichannel } from "./audioMultichannel"
 import { AudioPlayer } from "./audioPlayer"
@@ -19,6 +21,9 @@ export class AudioAnalyser {
     private static splitter: ChannelSplitterNode | null = null
     private static analysers: AnalyserNode[] = []
     private static sources: { [key: string]: AudioNode } = {}
+    private static sourceKeys: { [key: string]: string } = {}
+    private static sourceAnalysers: { [key: string]: AnalyserNode } = {}
+    private static normalizationNodes: { [key: string]: GainNode } = {}
 
     // Expose the AudioContext for other audio systems to use the same context
     static getAudioContext(): AudioContext {
@@ -34,8 +39,11 @@ export class AudioAnalyser {
         })
     }
 
-    static async attach(id: string, audio: HTMLMediaElement | MediaStream) {
+    // sourceKey is used for routing the audio to buses ("audio" | "video" | "playlist:ID" | "microphone:ID")
+    // normalizationGain (dB) is set directly, so the start is not played at the wrong level
+    static async attach(id: string, audio: HTMLMediaElement | MediaStream, sourceKey = "", normalizationGain = 0) {
         if (this.sources[id]) return
+        this.sourceKeys[id] = sourceKey
 
         let source: AudioNode
         try {
@@ -46,7 +54,14 @@ export class AudioAnalyser {
             const detectedChannels = AudioMultichannel.detectChannelCount(source, audio, this.maxChannels)
             if (detectedChannels > this.channels) this.updateChannelCount(detectedChannels)
 
+            // loudness normalization gain, before the equalizer & analysers
+            const normalizationNode = (this.normalizationNodes[id] = this.ac.createGain())
+            normalizationNode.gain.value = Math.pow(10, normalizationGain / 20)
+            source.connect(normalizationNode)
+            source = normalizationNode
+
             this.sources[id] = source
+            this.initSourceAnalyser(id, source)
         } catch (err) {
             console.error("Could not create media source:", err)
             return
@@ -61,9 +76,7 @@ export class AudioAnalyser {
 
         // Connect the equalizer output (or original source if EQ bypassed) to analysis chain
         if (eqOutputNode && this.splitter) {
-            eqOutputNode.connect(this.splitter)
-            this.connectGain(eqOutputNode)
-            this.connectDestination(eqOutputNode)
+            this.connectGain(id, eqOutputNode)
             console.log(`Audio source "${id}" connected to equalizer and analysis chain`)
         } else {
             console.warn(`Failed to connect audio source "${id}" to equalizer`)
@@ -75,13 +88,19 @@ export class AudioAnalyser {
         if (!source) return
 
         this.recorderDeactivate()
-        this.disconnectGain(source)
-        this.disconnectDestination(source)
+        this.disconnectGain(id)
+        AudioDucking.removeNode(id)
+
+        this.sourceAnalysers[id]?.disconnect()
+        delete this.sourceAnalysers[id]
+        this.normalizationNodes[id]?.disconnect()
+        delete this.normalizationNodes[id]
 
         // Disconnect from equalizer
         disconnectAudioSourceFromEqualizer(id)
 
         delete this.sources[id]
+        delete this.sourceKeys[id]
 
         if (get(currentWindow) !== "output") return
 
@@ -184,9 +203,7 @@ export class AudioAnalyser {
                 const eqOutputNode = getConnectedSourceOutput(id)
                 if (!eqOutputNode || !this.splitter) return
 
-                eqOutputNode.connect(this.splitter)
-                this.connectGain(eqOutputNode)
-                this.connectDestination(eqOutputNode)
+                this.connectGain(id, eqOutputNode)
             } catch (err) {
                 console.error(`Failed to reconnect source ${id}:`, err)
             }
@@ -209,16 +226,28 @@ export class AudioAnalyser {
         this.gainNode!.gain.value = Math.max(1, value)
     }
 
-    private static connectGain(source: AudioNode) {
+    // plays on the main output, or on the buses the source is routed to (through the ducking gain)
+    // the master volume is only applied to the main output, buses have their own volume
+    // the meters & the stream only get the main output, so audio routed to buses is not included there
+    private static connectGain(id: string, source: AudioNode) {
         this.initGain()
-        source.connect(this.gainNode!)
+        this.initDestination()
+
+        const duckingNode = AudioDucking.getNode(id, this.ac)
+        AudioMultichannel.configureNodeForMultichannel(duckingNode, this.channels)
+        source.connect(duckingNode)
+
+        const mainOutputs: AudioNode[] = [this.gainNode!, this.destNode!]
+        if (this.splitter) mainOutputs.push(this.splitter)
+        AudioBuses.connect(id, duckingNode, this.sourceKeys[id] || "", mainOutputs)
     }
 
-    private static disconnectGain(source: AudioNode) {
-        if (!this.gainNode) return
+    private static disconnectGain(id: string, source: AudioNode | null = null) {
+        AudioBuses.disconnect(id)
+        if (!source) return
 
         try {
-            source.disconnect(this.gainNode)
+            source.disconnect(AudioDucking.getNode(id, this.ac))
         } catch (err) {
             // Node was already disconnected, ignore the error
         }
@@ -231,22 +260,10 @@ export class AudioAnalyser {
         this.destNode = AudioMultichannel.createMultichannelDestination(this.ac, this.channels)
     }
 
-    private static connectDestination(source: AudioNode) {
+    // all audio on the main output (used for encoding the output stream)
+    static getStream() {
         this.initDestination()
-
-        AudioMultichannel.configureNodeForMultichannel(source, this.channels)
-
-        source.connect(this.destNode!)
-    }
-
-    private static disconnectDestination(source: AudioNode) {
-        if (!this.destNode) return
-
-        try {
-            source.disconnect(this.destNode)
-        } catch (err) {
-            // Node was already disconnected, ignore the error
-        }
+        return this.destNode!.stream
     }
 
     // RECORDER
@@ -321,6 +338,38 @@ export class AudioAnalyser {
         const analyser = this.analysers[channelIndex]
         if (!analyser) return { dB: { value: AudioAnalyserMerger.dBmin } }
 
+        return { dB: { value: this.getAnalyserVolume(analyser) } }
+    }
+
+    // SOURCE
+
+    // level of each source before the equalizer & ducking (used for ducking triggers)
+    private static initSourceAnalyser(id: string, source: AudioNode) {
+        const analyser = (this.sourceAnalysers[id] = this.ac.createAnalyser())
+        analyser.smoothingTimeConstant = 0.85
+        analyser.fftSize = 256
+        source.connect(analyser)
+    }
+
+    static getSourceVolume(id: string) {
+        const analyser = this.sourceAnalysers[id]
+        if (!analyser) return AudioAnalyserMerger.dBmin
+
+        return this.getAnalyserVolume(analyser)
+    }
+
+    static getSourceKeys() {
+        return this.sourceKeys
+    }
+
+    static setNormalizationGain(id: string, dB: number) {
+        const node = this.normalizationNodes[id]
+        if (!node) return
+
+        node.gain.setTargetAtTime(Math.pow(10, dB / 20), this.ac.currentTime, 0.1)
+    }
+
+    private static getAnalyserVolume(analyser: AnalyserNode) {
         analyser.minDecibels = AudioAnalyserMerger.dBmin
         analyser.maxDecibels = AudioAnalyserMerger.dBmax
 
@@ -339,10 +388,7 @@ export class AudioAnalyser {
         const rms = Math.sqrt(sumOfSquares / array.length)
 
         // map RMS to dB scale & protect against log(0)
-        const dB = 20 * Math.log10(rms || 0.0001)
-
-        // const volume = rms
-        return { dB: { value: dB } }
+        return 20 * Math.log10(rms || 0.0001)
     }
 
     static getSource(id: string): AudioNode | null {
@@ -383,9 +429,7 @@ export class AudioAnalyser {
                         // Disconnect old analysis connections if they exist
                         if (oldConnection && this.splitter) {
                             try {
-                                oldConnection.disconnect(this.splitter)
-                                this.disconnectGain(oldConnection)
-                                this.disconnectDestination(oldConnection)
+                                this.disconnectGain(id, oldConnection)
                             } catch (err) {
                                 // Old connections might not exist, that's fine
                             }
@@ -393,9 +437,7 @@ export class AudioAnalyser {
 
                         // Connect new equalizer output to analysis chain
                         if (this.splitter) {
-                            newEqOutputNode.connect(this.splitter)
-                            this.connectGain(newEqOutputNode)
-                            this.connectDestination(newEqOutputNode)
+                            this.connectGain(id, newEqOutputNode)
                         }
 
                         console.log(`Seamlessly switched equalizer connection for audio source: ${id}`)
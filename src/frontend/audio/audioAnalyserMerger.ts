@@ -4,6 +4,7 @@ import { OUTPUT } from "../../types/Channels"
 import { audioChannels, currentWindow, outputs } from "../stores"
 import { send } from "../utils/request"
 import { AudioAnalyser } from "./audioAnalyser"
+import { AudioDucking } from "./audioDucking"
 import { AudioPlayer } from "./audioPlayer"
 import { AudioPlaylist } from "./audioPlaylist"
 import { clone } from "../components/helpers/array"
@@ -48,6 +49,17 @@ export class AudioAnalyserMerger {
         this.timeout = null
         this.channels = {}
         audioChannels.set([])
+        AudioDucking.reset()
+    }
+
+    // loudest channel of all output windows
+    static getOutputsVolume() {
+        const values = Object.entries(this.channels)
+            .filter(([id]) => id !== "main")
+            .flatMap(([_id, channels]) => channels.map((channel) => (typeof channel.dB === "number" ? channel.dB : channel.dB?.value)))
+            .filter((value) => typeof value === "number" && !isNaN(value))
+
+        return values.length ? Math.max(...values) : this.dBmin
     }
 
     private static timeout: NodeJS.Timeout | null = null
@@ -67,6 +79,7 @@ export class AudioAnalyserMerger {
 
         this.checkAudioTime()
         this.mergeAnalysers()
+        AudioDucking.update()
         this.previousMerge = Date.now()
 
         this.timeout = setTimeout(() => {
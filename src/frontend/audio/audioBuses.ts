@@ -0,0 +1,126 @@
+import { get } from "svelte/store"
+import { audioBuses } from "../stores"
+
+// Named audio buses, each bus plays to its own output device
+// sources: "audio" | "video" | "metronome" | "playlist:ID" | "microphone:ID"
+// the analyser meters & stream are main outputs, so routed audio is not included there
+
+type BusOutput = {
+    context: BaseAudioContext
+    busId: string
+    gain: GainNode
+    element: HTMLAudioElement
+    device: string | null
+}
+type BusConnection = {
+    node: AudioNode
+    sourceKey: string
+    mainOutputs: AudioNode[]
+    targets: AudioNode[]
+}
+
+export class AudioBuses {
+    // one output per bus & audio context (the metronome has its own context)
+    private static outputs: BusOutput[] = []
+    private static connections: { [key: string]: BusConnection } = {}
+
+    static {
+        audioBuses.subscribe(() => this.update())
+    }
+
+    static getSourceBuses(sourceKey: string) {
+        if (!sourceKey) return []
+
+        const buses = get(audioBuses)
+        return Object.keys(buses).filter(busId => buses[busId].sources?.includes(sourceKey))
+    }
+
+    // the source plays on the main output if it's not routed to any bus
+    static connect(id: string, node: AudioNode, sourceKey: string, mainOutputs: AudioNode[]) {
+        this.disconnect(id)
+
+        const busIds = this.getSourceBuses(sourceKey)
+        const targets = busIds.length ? busIds.map(busId => this.getInput(node.context, busId)) : mainOutputs
+        targets.forEach(target => node.connect(target))
+
+        this.connections[id] = { node, sourceKey, mainOutputs, targets }
+    }
+
+    static disconnect(id: string) {
+        const connection = this.connections[id]
+        if (!connection) return
+
+        connection.targets.forEach(target => {
+            try {
+                connection.node.disconnect(target)
+            } catch (err) {
+                // Node was already disconnected, ignore the error
+            }
+        })
+
+        delete this.connections[id]
+    }
+
+    static getInput(context: BaseAudioContext, busId: string): AudioNode {
+        const existing = this.outputs.find(a => a.context === context && a.busId === busId)
+        if (existing) return existing.gain
+
+        const gain = context.createGain()
+        const destination = (context as AudioContext).createMediaStreamDestination()
+        gain.connect(destination)
+
+        const element = new Audio()
+        element.srcObject = destination.stream
+
+        const output: BusOutput = { context, busId, gain, element, device: null }
+        this.outputs.push(output)
+
+        this.updateOutput(output)
+        element.play().catch(err => console.error("Could not play audio bus:", err))
+
+        return gain
+    }
+
+    // apply changed bus settings & routing
+    private static update() {
+        const buses = get(audioBuses)
+
+        this.outputs = this.outputs.filter(output => {
+            if (buses[output.busId]) return true
+
+            // bus deleted
+            output.gain.disconnect()
+            output.element.pause()
+            output.element.srcObject = null
+            return false
+        })
+        this.outputs.forEach(output => this.updateOutput(output))
+
+        Object.entries(this.connections).forEach(([id, connection]) => {
+            const busIds = this.getSourceBuses(connection.sourceKey)
+            const currentBusIds = this.outputs.filter(output => connection.targets.includes(output.gain)).map(output => output.busId)
+            const isMain = connection.mainOutputs.some(output => connection.targets.includes(output))
+
+            const unchanged = isMain ? !busIds.length : busIds.length === currentBusIds.length && busIds.every(busId => currentBusIds.includes(busId))
+            if (!unchanged) this.connect(id, connection.node, connection.sourceKey, connection.mainOutputs)
+        })
+    }
+
+    private static async updateOutput(output: BusOutput) {
+        const bus = get(audioBuses)[output.busId]
+        if (!bus) return
+
+        output.gain.gain.value = bus.muted ? 0 : (bus.volume ?? 1)
+
+        // custom audio output (supported in Chrome 110+)
+        const device = bus.device || ""
+        if (output.device === device) return
+        output.device = device
+
+        try {
+            await (output.element as any).setSinkId(device)
+        } catch (err) {
+            console.error("Could not set audio bus output:", err)
+        }
+    }
+}
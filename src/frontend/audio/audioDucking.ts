@@ -0,0 +1,110 @@
+import { get } from "svelte/store"
+import type { AudioDuckingRule } from "../../types/Audio"
+import { audioDucking, audioDuckingReduction, currentWindow, playingVideos } from "../stores"
+import { AudioAnalyser } from "./audioAnalyser"
+import { AudioAnalyserMerger } from "./audioAnalyserMerger"
+
+// Lower the volume of the target sources while a trigger source is playing (sidechain)
+// sources use the same keys as the audio buses, "microphone" & "playlist" will match any of that type
+
+export const DUCKING_DEFAULTS = {
+    threshold: -45, // dB
+    amount: 12, // dB
+    attack: 150, // ms
+    release: 1000 // ms
+}
+
+export class AudioDucking {
+    // a gain node per audio source, placed after the equalizer
+    private static nodes: { [key: string]: GainNode } = {}
+    // current gain reduction of each rule (dB)
+    private static reductions: { [key: string]: number } = {}
+    private static previousUpdate = 0
+
+    static getNode(id: string, context: BaseAudioContext) {
+        if (!this.nodes[id]) this.nodes[id] = context.createGain()
+        return this.nodes[id]
+    }
+
+    static removeNode(id: string) {
+        const node = this.nodes[id]
+        if (!node) return
+
+        node.disconnect()
+        delete this.nodes[id]
+    }
+
+    // called on each analyser update
+    static update() {
+        // audio playlists & microphones are played in the main window
+        if (get(currentWindow)) return
+
+        const now = Date.now()
+        const elapsed = this.previousUpdate ? now - this.previousUpdate : 0
+        this.previousUpdate = now
+
+        const rules = get(audioDucking)
+        const rulesList = Object.entries(rules).filter(([_id, rule]) => !rule.disabled)
+        if (!rulesList.length && !Object.keys(this.reductions).length) return
+
+        const reductions: { [key: string]: number } = {}
+        rulesList.forEach(([id, rule]) => {
+            reductions[id] = this.getRuleReduction(rule, this.reductions[id] || 0, elapsed)
+        })
+        this.reductions = reductions
+
+        const sourceKeys = AudioAnalyser.getSourceKeys()
+        Object.entries(this.nodes).forEach(([id, node]) => {
+            const sourceKey = sourceKeys[id] || ""
+            const reduction = Math.max(0, ...rulesList.filter(([_id, rule]) => matchesSource(rule.targets, sourceKey)).map(([ruleId]) => reductions[ruleId]))
+
+            const value = Math.pow(10, -reduction / 20)
+            node.gain.setTargetAtTime(value, node.context.currentTime, 0.02)
+        })
+
+        audioDuckingReduction.set(reductions)
+    }
+
+    static reset() {
+        this.reductions = {}
+        this.previousUpdate = 0
+        Object.values(this.nodes).forEach(node => (node.gain.value = 1))
+        audioDuckingReduction.set({})
+    }
+
+    private static getRuleReduction(rule: AudioDuckingRule, current: number, elapsed: number) {
+        const threshold = rule.threshold ?? DUCKING_DEFAULTS.threshold
+        const active = this.getTriggerLevel(rule.triggers || []) > threshold
+        const target = active ? Math.max(0, rule.amount ?? DUCKING_DEFAULTS.amount) : 0
+        if (target === current) return current
+
+        // reach ~95% of the change within the attack/release time
+        const time = target > current ? (rule.attack ?? DUCKING_DEFAULTS.attack) : (rule.release ?? DUCKING_DEFAULTS.release)
+        const factor = time > 0 ? 1 - Math.exp((-3 * elapsed) / time) : 1
+
+        const reduction = current + (target - current) * factor
+        if (Math.abs(target - reduction) < 0.05) return target
+        return reduction
+    }
+
+    private static getTriggerLevel(triggers: string[]) {
+        let level = AudioAnalyserMerger.dBmin
+
+        const sourceKeys = AudioAnalyser.getSourceKeys()
+        Object.entries(sourceKeys).forEach(([id, sourceKey]) => {
+            if (!matchesSource(triggers, sourceKey)) return
+            level = Math.max(level, AudioAnalyser.getSourceVolume(id))
+        })
+
+        // videos are played in the output window, and their levels are sent to the main window
+        const videoPlaying = get(playingVideos).some(a => !a.paused && !a.muted)
+        if (videoPlaying && matchesSource(triggers, "video")) level = Math.max(level, AudioAnalyserMerger.getOutputsVolume())
+
+        return level
+    }
+}
+
+function matchesSource(keys: string[], sourceKey: string) {
+    if (!sourceKey) return false
+    return keys.some(key => key === sourceKey || sourceKey.startsWith(key + ":"))
+}
@@ -2,6 +2,7 @@
 
 import { get } from "svelte/store"
 import { customActionActivation } from "../components/actions/actions"
+import { outputClearedEvent } from "../components/actions/apiEvents"
 import { stopMetronome } from "../components/drawer/audio/metronome"
 import { activePlaylist, audioPlaylists, isFadingOut, playingAudio, special } from "../stores"
 import { AudioPlayer } from "./audioPlayer"
@@ -13,6 +14,7 @@ type AudioClearOptions = {
     commonClear?: boolean
     clearTime?: number // effects
     isPlayingNew?: boolean
+    silent?: boolean // no cleared event (sent by clear all)
 }
 
 export const clearing: string[] = []
@@ -36,6 +38,9 @@ export function clearAudio(audioPath = "", options: AudioClearOptions = {}) {
         return
     }
 
+    // not when the next song is started
+    if (!audioPath && !options.isPlayingNew && !options.playlistCrossfade && !options.silent) outputClearedEvent("audio")
+
     const clearTime = options.playlistCrossfade ? 0 : (options.clearTime ?? get(special).audio_fade_duration ?? 1.5)
     const clearIds = audioPath ? [audioPath] : Object.keys(get(playingAudio))
     clearIds.forEach(clear)
@@ -0,0 +1,286 @@
+import { get } from "svelte/store"
+import type { AudioLoudness as AudioLoudnessData } from "../../types/Audio"
+import { Main } from "../../types/IPC/Main"
+import { encodeFilePath } from "../components/helpers/media"
+import { requestMain, sendMain } from "../IPC/main"
+import { audioPlaylists, special } from "../stores"
+import { AudioAnalyser } from "./audioAnalyser"
+import { AudioPlayer } from "./audioPlayer"
+
+// EBU R128 loudness normalization of audio files
+// the integrated loudness & true peak is measured in the background (ITU-R BS.1770), and cached with the thumbnails
+// the gain is only set when a file starts playing, files without a measurement are played unchanged
+
+export const DEFAULT_LOUDNESS_TARGET = -16 // LUFS
+const MAX_TRUE_PEAK = -1 // dBTP
+const MAX_BOOST = 12 // dB
+const MAX_DURATION = 10 * 60 // seconds (longer files are not decoded)
+
+export class AudioLoudness {
+    private static loudness: { [key: string]: AudioLoudnessData | null } = {}
+    private static queue: string[] = []
+    private static analysing = false
+
+    static isEnabled() {
+        return !!get(special).loudnessNormalization
+    }
+
+    // measure files in the background, so they are ready when played
+    static analyse(paths: string[]) {
+        if (!this.isEnabled()) return
+
+        paths.forEach(path => {
+            if (path && this.loudness[path] === undefined && !this.queue.includes(path)) this.queue.push(path)
+        })
+        this.nextInQueue()
+    }
+
+    // memory or disk cache
+    static async getCachedLoudness(path: string): Promise<AudioLoudnessData | null> {
+        if (this.loudness[path] !== undefined) return this.loudness[path]
+
+        const cached = (await requestMain(Main.GET_AUDIO_LOUDNESS, { path }))?.loudness || null
+        if (cached) this.loudness[path] = cached
+
+        return cached
+    }
+
+    // dB gain to play a file with (not measured files are queued, and normalized the next time they are played)
+    static async getNormalizationGain(path: string) {
+        if (!this.isEnabled()) return 0
+
+        const loudness = await this.getCachedLoudness(path)
+        if (!loudness) this.analyse([path])
+
+        return loudness ? this.getGain(loudness) : 0
+    }
+
+    // fade the gain of a playing audio file to the current settings
+    static async normalize(path: string) {
+        AudioAnalyser.setNormalizationGain(path, await this.getNormalizationGain(path))
+    }
+
+    // update playing audio after the settings have changed
+    static refresh() {
+        AudioPlayer.getAllPlaying(false).forEach(id => {
+            if (!AudioPlayer.getPlaying(id)?.stream) this.normalize(id)
+        })
+
+        this.analyse(Object.values(get(audioPlaylists)).flatMap(playlist => playlist.songs || []))
+    }
+
+    // dB
+    static getGain(loudness: AudioLoudnessData) {
+        const target = get(special).loudnessTarget ?? DEFAULT_LOUDNESS_TARGET
+        const gain = target - loudness.integrated
+        if (gain <= 0) return gain
+
+        // don't boost quiet files into clipping
+        return Math.min(gain, MAX_BOOST, Math.max(0, MAX_TRUE_PEAK - loudness.truePeak))
+    }
+
+    private static async nextInQueue() {
+        if (this.analysing || !this.queue.length) return
+        this.analysing = true
+
+        const path = this.queue.shift()!
+        try {
+            const cached = await this.getCachedLoudness(path)
+            if (!cached) {
+                const loudness = await measureFile(path)
+                this.loudness[path] = loudness
+                if (loudness) sendMain(Main.SAVE_AUDIO_LOUDNESS, { path, loudness })
+            }
+        } catch (err) {
+            console.error("Could not measure audio loudness:", err)
+            this.loudness[path] = null
+        }
+
+        this.analysing = false
+        this.nextInQueue()
+    }
+}
+
+// MEASURE
+
+const SAMPLE_RATE = 48000
+
+async function measureFile(path: string): Promise<AudioLoudnessData | null> {
+    // the whole file is decoded in memory
+    const duration = await getDuration(path)
+    if (!duration || duration > MAX_DURATION) return null
+
+    const response = await fetch(encodeFilePath(path))
+    const arrayBuffer = await response.arrayBuffer()
+
+    // decoded at the rate BS.1770 is specified for
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE)
+    const audioBuffer = await context.decodeAudioData(arrayBuffer)
+
+    const weighted = await renderKWeighted(audioBuffer)
+    const integrated = await getIntegratedLoudness(getChannels(weighted))
+    if (!isFinite(integrated)) return null
+
+    const truePeak = await getTruePeak(getChannels(audioBuffer))
+
+    return { integrated: Number(integrated.toFixed(2)), truePeak: Number(truePeak.toFixed(2)) }
+}
+
+const METADATA_TIMEOUT = 10 // seconds
+
+function getDuration(path: string): Promise<number> {
+    return new Promise(resolve => {
+        const audio = new Audio()
+        audio.preload = "metadata"
+
+        // a file that never loads should not block the queue
+        const timeout = setTimeout(() => done(0), METADATA_TIMEOUT * 1000)
+
+        audio.onloadedmetadata = () => done(isFinite(audio.duration) ? audio.duration : 0)
+        audio.onerror = () => done(0)
+        audio.src = encodeFilePath(path)
+
+        function done(duration: number) {
+            clearTimeout(timeout)
+            audio.onloadedmetadata = null
+            audio.onerror = null
+
+            // release the file
+            audio.removeAttribute("src")
+            audio.load()
+
+            resolve(duration)
+        }
+    })
+}
+
+function getChannels(audioBuffer: AudioBuffer) {
+    return [...Array(audioBuffer.numberOfChannels)].map((_, i) => audioBuffer.getChannelData(i))
+}
+
+// let the UI update between chunks of samples
+const CHUNK_SIZE = SAMPLE_RATE * 10
+const nextFrame = () => new Promise(resolve => setTimeout(resolve))
+
+const ABSOLUTE_GATE = -70 // LUFS
+const RELATIVE_GATE = -10 // LU
+
+// the filtering is rendered by the browser, outside of the main thread
+async function renderKWeighted(audioBuffer: AudioBuffer) {
+    const context = new OfflineAudioContext(audioBuffer.numberOfChannels, audioBuffer.length, SAMPLE_RATE)
+    const source = context.createBufferSource()
+    source.buffer = audioBuffer
+
+    const [shelf, highPass] = getKWeightingCoefficients(SAMPLE_RATE).map(({ feedforward, feedback }) => context.createIIRFilter(feedforward, feedback))
+    source.connect(shelf)
+    shelf.connect(highPass)
+    highPass.connect(context.destination)
+
+    source.start()
+    return await context.startRendering()
+}
+
+async function getIntegratedLoudness(channels: Float32Array[]) {
+    // mean square of 100 ms steps, each gating block is 400 ms (75% overlap)
+    const stepSize = Math.round(SAMPLE_RATE * 0.1)
+    const stepCount = Math.floor(channels[0].length / stepSize)
+    const steps = new Float64Array(stepCount)
+
+    for (let c = 0; c < channels.length; c++) {
+        const weight = getChannelWeight(c, channels.length)
+        if (!weight) continue
+
+        const samples = channels[c]
+
+        let sum = 0
+        for (let i = 0; i < stepCount * stepSize; i++) {
+            sum += samples[i] * samples[i]
+
+            if ((i + 1) % stepSize === 0) {
+                steps[(i + 1) / stepSize - 1] += (sum * weight) / stepSize
+                sum = 0
+            }
+            if (i % CHUNK_SIZE === 0) await nextFrame()
+        }
+    }
+
+    const blocks: number[] = []
+    for (let i = 3; i < stepCount; i++) {
+        blocks.push((steps[i - 3] + steps[i - 2] + steps[i - 1] + steps[i]) / 4)
+    }
+
+    const getLoudness = (power: number) => -0.691 + 10 * Math.log10(power)
+    const getMean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+    const absoluteGated = blocks.filter(power => getLoudness(power) > ABSOLUTE_GATE)
+    if (!absoluteGated.length) return -Infinity
+
+    const relativeGate = getLoudness(getMean(absoluteGated)) + RELATIVE_GATE
+    const relativeGated = absoluteGated.filter(power => getLoudness(power) > relativeGate)
+    if (!relativeGated.length) return -Infinity
+
+    return getLoudness(getMean(relativeGated))
+}
+
+// surround channels are weighted higher, and LFE is not counted (5.1: L, R, C, LFE, Ls, Rs)
+function getChannelWeight(channel: number, channelCount: number) {
+    if (channelCount !== 6) return 1
+    return [1, 1, 1, 0, 1.41, 1.41][channel]
+}
+
+// high shelf (head effects) followed by a high pass (RLB), coefficients for any sample rate (same as libebur128)
+function getKWeightingCoefficients(sampleRate: number) {
+    let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate)
+    let Q = 0.7071752369554196
+    const Vh = Math.pow(10, 3.999843853973347 / 20)
+    const Vb = Math.pow(Vh, 0.4996667741545416)
+    let a0 = 1 + K / Q + K * K
+    const shelf = { feedforward: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0], feedback: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0] }
+
+    K = Math.tan((Math.PI * 38.13547087602444) / sampleRate)
+    Q = 0.5003270373238773
+    a0 = 1 + K / Q + K * K
+    const highPass = { feedforward: [1, -2, 1], feedback: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0] }
+
+    return [shelf, highPass]
+}
+
+// 4x oversampling with a windowed sinc interpolation, only around the loudest samples (inter-sample peaks are only a few dB above the sample peak)
+const OVERSAMPLING = 4
+const TAPS = 8 // each side
+async function getTruePeak(channels: Float32Array[]) {
+    const phases = [...Array(OVERSAMPLING - 1)].map((_, p) => getInterpolationCoefficients((p + 1) / OVERSAMPLING))
+
+    let peak = 0
+    for (const samples of channels) {
+        let samplePeak = 0
+        for (const sample of samples) samplePeak = Math.max(samplePeak, Math.abs(sample))
+        peak = Math.max(peak, samplePeak)
+
+        const threshold = samplePeak * 0.5
+        for (let i = TAPS - 1; i < samples.length - TAPS; i++) {
+            if (i % CHUNK_SIZE === 0) await nextFrame()
+            if (Math.abs(samples[i]) < threshold && Math.abs(samples[i + 1]) < threshold) continue
+
+            phases.forEach(coefficients => {
+                let value = 0
+                for (let j = 0; j < coefficients.length; j++) value += samples[i - TAPS + 1 + j] * coefficients[j]
+                peak = Math.max(peak, Math.abs(value))
+            })
+        }
+
+        await nextFrame()
+    }
+
+    return 20 * Math.log10(peak || 0.00001)
+}
+
+// coefficients for a value between sample 0 & 1, using samples -7 to 8
+function getInterpolationCoefficients(fraction: number) {
+    return [...Array(TAPS * 2)].map((_, j) => {
+        const t = j - (TAPS - 1) - fraction
+        const sinc = Math.sin(Math.PI * t) / (Math.PI * t)
+        const window = 0.5 * (1 + Math.cos((Math.PI * t) / TAPS))
+        return sinc * window
+    })
+}
@@ -6,10 +6,11 @@ import { customActionActivation } from "../components/actions/actions"
 import { encodeFilePath, getFileName, removeExtension } from "../components/helpers/media"
 import { checkNextAfterMedia } from "../components/helpers/showActions"
 import { sendMain } from "../IPC/main"
-import { audioChannelsData, dataPath, dictionary, media, outLocked, playingAudio, playingAudioPaths, special, volume } from "../stores"
+import { activePlaylist, audioChannelsData, dataPath, dictionary, media, outLocked, playingAudio, playingAudioPaths, special, volume } from "../stores"
 import { AudioAnalyser } from "./audioAnalyser"
 import { AudioAnalyserMerger } from "./audioAnalyserMerger"
 import { clearAudio, clearing, fadeInAudio, fadeOutAudio } from "./audioFading"
+import { AudioLoudness } from "./audioLoudness"
 import { AudioMultichannel } from "./audioMultichannel"
 import { AudioPlaylist } from "./audioPlaylist"
 
@@ -70,7 +71,8 @@ export class AudioPlayer {
         if (options.crossfade) fadeOutAudio(options.crossfade)
         else if (!options.playMultiple) clearAudio("", { playlistCrossfade: options.playlistCrossfade, isPlayingNew: true })
 
-        const audio = await this.createAudio(path)
+        // the normalization gain is looked up while loading, so it's set before the audio starts
+        const [audio, normalizationGain] = await Promise.all([this.createAudio(path), AudioLoudness.getNormalizationGain(path)])
         // another audio might have been started while awaiting (if played rapidly)
         if (!audio || this.audioExists(path)) return
 
@@ -97,7 +99,7 @@ export class AudioPlayer {
             fadeInAudio(path, options.crossfade, !!waitToPlay, newVolume)
         }
 
-        this.initAudio(path, waitToPlay)
+        this.initAudio(path, waitToPlay, normalizationGain)
 
         const name = removeExtension(metadata.name || getFileName(path))
         this.nowPlaying(path, name)
@@ -159,7 +161,7 @@ export class AudioPlayer {
     // private static init(id: string, audio: HTMLAudioElement, metadata: AudioMetadata) {
     // }
 
-    private static initAudio(id: string, waitToPlay = 0) {
+    private static initAudio(id: string, waitToPlay = 0, normalizationGain = 0) {
         setTimeout(() => {
             // audio might have been cleared
             const audio = this.getAudio(id)
@@ -170,7 +172,7 @@ export class AudioPlayer {
 
             // WIP get microphone input stream (audio will have to be muted in that case)
             // let stream = this.getPlaying(id)?.stream || audio
-            AudioAnalyser.attach(id, audio)
+            AudioAnalyser.attach(id, audio, this.getSourceKey(id), normalizationGain)
 
             // Check if system supports multichannel and enable it if available
             setTimeout(() => {
@@ -182,6 +184,16 @@ export class AudioPlayer {
         }, waitToPlay * 1000)
     }
 
+    // used for routing to audio buses
+    private static getSourceKey(id: string) {
+        if (this.getPlaying(id)?.stream) return `microphone:${id}`
+
+        const playlistId = get(activePlaylist)?.id
+        if (playlistId && AudioPlaylist.getActivePlaylist()?.songs.includes(id)) return `playlist:${playlistId}`
+
+        return "audio"
+    }
+
     //
 
     static play(id: string) {
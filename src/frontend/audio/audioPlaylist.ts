@@ -1,5 +1,6 @@
 import { get } from "svelte/store"
 import { activePlaylist, audioPlaylists, media, outLocked, playingAudio } from "../stores"
+import { AudioLoudness } from "./audioLoudness"
 import { AudioPlayer } from "./audioPlayer"
 import { audioIsFading, clearAudio, fadeOutAudio, isAllAudioFading } from "./audioFading"
 import { customActionActivation } from "../components/actions/actions"
@@ -26,6 +27,7 @@ export class AudioPlaylist {
         }
 
         activePlaylist.set({ id: playlistId })
+        AudioLoudness.analyse(playlist.songs)
 
         const crossfade = Number(playlist.crossfade) || 0
         AudioPlaylist.nextInternal(audioPath, { crossfade })
@@ -0,0 +1,59 @@
+import { Main } from "../../types/IPC/Main"
+import { sendMain } from "../IPC/main"
+import { TimecodeDecoder, type TimecodeData } from "./timecodeDecoder"
+
+// Linear timecode (LTC) from an audio input
+
+export class AudioTimecode {
+    private static deviceId = ""
+    private static stream: MediaStream | null = null
+    private static ac: AudioContext | null = null
+
+    static start(deviceId: string, onTimecode: (data: TimecodeData) => void) {
+        if (this.deviceId === deviceId) return
+        this.stop()
+        this.deviceId = deviceId
+
+        // the signal should not be changed in any way
+        navigator.mediaDevices
+            .getUserMedia({ audio: { deviceId: { exact: deviceId }, echoCancellation: false, noiseSuppression: false, autoGainControl: false } })
+            .then(stream => {
+                // stopped or changed while waiting for access
+                if (this.deviceId !== deviceId) {
+                    stream.getTracks().forEach(track => track.stop())
+                    return
+                }
+
+                this.stream = stream
+                this.ac = new AudioContext()
+
+                const decoder = new TimecodeDecoder(this.ac.sampleRate, onTimecode)
+                const source = this.ac.createMediaStreamSource(stream)
+                const node = this.ac.createScriptProcessor(2048, 1, 1)
+                node.onaudioprocess = e => decoder.process(e.inputBuffer.getChannelData(0))
+
+                source.connect(node)
+                // the processor only runs when connected (the output is silent)
+                node.connect(this.ac.destination)
+            })
+            .catch(err => {
+                console.error(err)
+                // so the same input can be started again
+                if (this.deviceId === deviceId) this.stop()
+
+                if (err.name === "NotReadableError") {
+                    sendMain(Main.ACCESS_MICROPHONE_PERMISSION)
+                }
+            })
+    }
+
+    static stop() {
+        this.deviceId = ""
+
+        this.stream?.getTracks().forEach(track => track.stop())
+        this.stream = null
+
+        this.ac?.close().catch(console.error)
+        this.ac = null
+    }
+}
@@ -0,0 +1,100 @@
+// Linear timecode (LTC) decoder
+// https://en.wikipedia.org/wiki/Linear_timecode
+
+export type TimecodeData = { time: number; fps: number; source: string }
+
+// bits 64-79 of each frame (read forwards)
+const SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1]
+const FRAME_RATES = [24, 25, 30]
+// ignore noise around zero
+const THRESHOLD = 0.05
+
+// biphase mark code: the level changes at every bit, and a "1" has an extra change in the middle
+export class TimecodeDecoder {
+    private bits: number[] = []
+    private level = 0
+    private samplesSinceChange = 0
+    private halfBit = false
+    private minBitLength: number
+    private maxBitLength: number
+    private bitLength: number
+
+    constructor(
+        private sampleRate: number,
+        private onTimecode: (data: TimecodeData) => void
+    ) {
+        // 80 bits per frame
+        this.minBitLength = sampleRate / (30 * 80)
+        this.maxBitLength = sampleRate / (24 * 80)
+        this.bitLength = sampleRate / (25 * 80)
+    }
+
+    process(samples: Float32Array) {
+        for (const sample of samples) {
+            this.samplesSinceChange++
+
+            const level = sample > THRESHOLD ? 1 : sample < -THRESHOLD ? -1 : this.level
+            if (level === this.level) continue
+
+            this.level = level
+            this.levelChanged(this.samplesSinceChange)
+            this.samplesSinceChange = 0
+        }
+    }
+
+    private levelChanged(length: number) {
+        // silence or a different signal
+        if (length > this.bitLength * 2) {
+            this.halfBit = false
+            this.bits = []
+            return
+        }
+
+        const isHalf = length < this.bitLength * 0.75
+        this.updateBitLength(isHalf ? length * 2 : length)
+
+        if (!isHalf) {
+            this.halfBit = false
+            this.addBit(0)
+            return
+        }
+
+        // wait for the second half
+        this.halfBit = !this.halfBit
+        if (!this.halfBit) this.addBit(1)
+    }
+
+    // follow changes in playback speed
+    private updateBitLength(length: number) {
+        const newLength = this.bitLength * 0.95 + length * 0.05
+        this.bitLength = Math.max(this.minBitLength * 0.8, Math.min(this.maxBitLength * 1.2, newLength))
+    }
+
+    private addBit(bit: number) {
+        this.bits.push(bit)
+        if (this.bits.length > 80) this.bits.shift()
+        if (this.bits.length < 80 || SYNC_WORD.some((value, i) => this.bits[64 + i] !== value)) return
+
+        this.decodeFrame()
+        this.bits = []
+    }
+
+    private decodeFrame() {
+        // binary coded decimal values, least significant bit first
+        const value = (start: number, length: number) => this.bits.slice(start, start + length).reduce((total, bit, i) => total + (bit << i), 0)
+
+        const frames = value(0, 4) + value(8, 2) * 10
+        const seconds = value(16, 4) + value(24, 3) * 10
+        const minutes = value(32, 4) + value(40, 3) * 10
+        const hours = value(48, 4) + value(56, 2) * 10
+        if (frames > 29 || seconds > 59 || minutes > 59 || hours > 23) return
+
+        const dropFrame = this.bits[10] === 1
+        const rate = this.sampleRate / (this.bitLength * 80)
+        const fps = dropFrame ? 29.97 : FRAME_RATES.reduce((closest, frameRate) => (Math.abs(frameRate - rate) < Math.abs(closest - rate) ? frameRate : closest))
+
+        // the frame has ended when the sync word is received
+        const time = ((hours * 60 + minutes) * 60 + seconds) * 1000 + Math.round(((frames + 1) / fps) * 1000)
+        this.onTimecode({ time, fps, source: "ltc" })
+    }
+}
@@ -89,5 +89,11 @@ export const actionData = {
 
     // SPECIAL
     // SECTION: "edit.special",
-    wait: { common: true, canAddMultiple: true, name: "animate.wait", icon: "time_in", input: "number" }
+    wait: { common: true, canAddMultiple: true, name: "animate.wait", icon: "time_in", input: "number" },
+    // the steps between "if" and "else"/"end" only run if the conditions are met
+    condition_if: { canAddMultiple: true, name: "actions.condition_if", icon: "light", input: "condition" },
+    condition_else: { canAddMultiple: true, name: "actions.condition_else", icon: "light" },
+    condition_end: { canAddMultiple: true, name: "actions.condition_end", icon: "light" },
+    repeat: { canAddMultiple: true, name: "actions.repeat", icon: "loop", input: "repeat" },
+    repeat_end: { canAddMultiple: true, name: "actions.repeat_end", icon: "loop" }
 }
@@ -10,10 +10,11 @@ import { _show } from "../helpers/shows"
 import { actionData } from "./actionData"
 import type { API_toggle } from "./api"
 import { API_ACTIONS } from "./api"
+import { activationEvent } from "./apiEvents"
 import { convertOldMidiToNewAction } from "./midi"
 import { sortByClosestMatch } from "./apiHelper"
 import { getShowBPM } from "../drawer/audio/metronome"
-import { getDynamicValue } from "../edit/scripts/itemHelpers"
+import { getDynamicValue, isConditionMet } from "../edit/scripts/itemHelpers"
 
 export function runActionId(id: string) {
     runAction(get(actions)[id])
@@ -39,9 +40,7 @@ export async function runAction(action, { midiIndex = -1, slideIndex = -1 } = {}
     // set to active
     runningActions.set([...get(runningActions), action.id])
 
-    for (const actionId of actionTriggers) {
-        await runTrigger(actionId)
-    }
+    await runTriggers(actionTriggers)
 
     // remove from active (timeout to show outline)
     setTimeout(() => {
@@ -53,6 +52,47 @@ export async function runAction(action, { midiIndex = -1, slideIndex = -1 } = {}
         })
     }, 20)
 
+    // if/else & repeat steps are stored in the same flat list as the other triggers
+    async function runTriggers(triggerIds: string[]) {
+        const loops: { start: number; remaining: number }[] = []
+
+        let index = 0
+        while (index < triggerIds.length) {
+            const triggerId = triggerIds[index]
+            const id = getActionTriggerId(triggerId)
+
+            if (id === "condition_if") {
+                const triggerData = actionValues[triggerId] || {}
+                // skip to the matching "else"/"end"
+                if (!isConditionMet(triggerData.conditions, "", "default")) {
+                    index = getBlockEnd(triggerIds, index, true) + 1
+                    continue
+                }
+            } else if (id === "condition_else") {
+                // the "if" steps were run
+                index = getBlockEnd(triggerIds, index) + 1
+                continue
+            } else if (id === "repeat") {
+                const count = Math.min(Math.max(Number(actionValues[triggerId]?.number) || 1, 1), MAX_REPEAT)
+                loops.push({ start: index, remaining: count })
+            } else if (id === "repeat_end") {
+                const loop = loops[loops.length - 1]
+                if (loop) {
+                    loop.remaining--
+                    if (loop.remaining > 0) {
+                        index = loop.start + 1
+                        continue
+                    }
+                    loops.pop()
+                }
+            } else if (id !== "condition_end") {
+                await runTrigger(triggerId)
+            }
+
+            index++
+        }
+    }
+
     async function runTrigger(actionId: string) {
         let triggerData = actionValues[actionId] || {}
         if (midiIndex > -1) triggerData = { ...triggerData, index: midiIndex }
@@ -112,6 +152,23 @@ export async function runAction(action, { midiIndex = -1, slideIndex = -1 } = {}
     }
 }
 
+const MAX_REPEAT = 1000
+
+// find the "end" (or "else") that belongs to the "if" at this index
+function getBlockEnd(triggerIds: string[], index: number, stopAtElse = false) {
+    let depth = 0
+    for (let i = index + 1; i < triggerIds.length; i++) {
+        const id = getActionTriggerId(triggerIds[i])
+        if (id === "condition_if") depth++
+        else if (id === "condition_end") {
+            if (!depth) return i
+            depth--
+        } else if (id === "condition_else" && !depth && stopAtElse) return i
+    }
+
+    return triggerIds.length
+}
+
 export function toggleAction(data: API_toggle) {
     if (!data.id) return
 
@@ -142,6 +199,8 @@ export function checkStartupActions() {
 }
 
 export function customActionActivation(id: string, specificActivation: any = null) {
+    activationEvent(id, specificActivation)
+
     let actionTriggered = false
     Object.keys(get(actions)).forEach((actionId) => {
         const action = get(actions)[actionId]
@@ -22,6 +22,7 @@ import { clearAll, clearBackground, clearDrawing, clearOverlay, clearOverlays, c
 import { formatText } from "../show/formatTextEditor"
 import { getPlainEditorText } from "../show/getTextEditor"
 import { runActionByName, runActionId, toggleAction } from "./actions"
+import { checkApiAccess } from "./apiAccess"
 import {
     getOutput,
     getOutputGroupName,
@@ -99,6 +100,7 @@ import { sendRestCommandSync } from "./rest"
 // 2. Assign an existing data type or create a new one if it's needed
 
 // It can now be called with Companion/WebSocket/REST
+// To give it a typed Open Sound Control address, add a path in apiOSC.ts
 // Follow the next steps to integrate it into "Actions" in the program as well
 
 // 3. In actionData.ts add an entry with the action ID, "name", "icon" & "input"
@@ -115,6 +117,7 @@ interface API {
     id?: number
     index?: number
     returnId?: string
+    access?: { profile: string; allowedActions?: string[] } // set by the main process
 }
 type API_id = { id: string }
 export type API_id_optional = { id?: string }
@@ -374,6 +377,9 @@ export const API_ACTIONS = {
 /// RECEIVER / SENDER ///
 
 export async function triggerAction(data: API) {
+    const access = data.access
+    delete data.access
+
     // Open Sound Control format
     if (data.action.startsWith("/")) data = oscToAPI(data)
 
@@ -386,6 +392,13 @@ export async function triggerAction(data: API) {
 
     const returnId = data.returnId
     delete data.returnId
+
+    const accessError = checkApiAccess(id, access?.profile, access?.allowedActions)
+    if (accessError) {
+        console.warn(accessError)
+        if (returnId) sendMain(Main.API_TRIGGER, { ...data, returnId, data: { error: accessError } })
+        return
+    }
     const returnData = await API_ACTIONS[id](data)
     if (!returnId || returnData === undefined) return
 
@@ -0,0 +1,159 @@
+// ----- FreeShow -----
+// Profile access for the API, remote and controller connections
+// "read" can only get data, "write" can also run the actions
+
+import { get } from "svelte/store"
+import { Main } from "../../../types/IPC/Main"
+import type { AccessType, ApiAccess, ApiKey } from "../../../types/Main"
+import type { ClientMessage } from "../../../types/Socket"
+import { sendMain } from "../../IPC/main"
+import { companion, profiles } from "../../stores"
+import { getAccessLevel, getProfileAccess } from "../../utils/profile"
+import { API_EVENTS } from "./apiEvents"
+
+export const API_ACCESS_CATEGORIES: { [key: string]: { name: string; actions: string[] } } = {
+    project: {
+        name: "guide_title.project",
+        actions: ["id_select_project", "index_select_project", "name_select_project", "next_project_item", "previous_project_item", "index_select_project_item", "get_projects", "get_project"]
+    },
+    show: {
+        name: "guide_title.show",
+        actions: ["name_select_show", "start_show", "change_layout", "get_shows", "get_show", "get_show_layout", "get_plain_text", "get_groups", "get_slide", "get_thumbnail", "get_slide_thumbnail", "get_pdf_thumbnails"]
+    },
+    edit: {
+        name: "titlebar.edit",
+        actions: ["set_plain_text", "set_show", "rearrange_groups", "add_group", "set_template", "transpose_show_up", "transpose_show_down", "add_to_project", "create_show", "create_project", "delete_project", "remove_project_item", "rename_project"]
+    },
+    slide: {
+        name: "preview.slide",
+        actions: ["next_slide", "previous_slide", "random_slide", "index_select_slide", "name_select_slide", "id_select_group", "start_slide_recording", "start_scripture", "scripture_next", "scripture_previous"]
+    },
+    clear: {
+        name: "clear.general",
+        actions: ["restore_output", "clear_all", "clear_background", "clear_slide", "clear_overlays", "clear_overlay", "clear_audio", "clear_next_timer", "clear_drawing", "get_cleared"]
+    },
+    media: {
+        name: "tabs.media",
+        actions: ["start_camera", "start_screen", "play_media", "toggle_playing_media", "video_seekto", "id_start_effect", "get_playing_video_duration", "get_playing_video_time", "get_playing_video_time_left"]
+    },
+    overlays: {
+        name: "tabs.overlays",
+        actions: ["index_select_overlay", "name_select_overlay", "id_select_overlay"]
+    },
+    output: {
+        name: "guide_title.output",
+        actions: ["lock_output", "toggle_output_windows", "toggle_output", "id_select_output_style", "change_output_style", "change_stage_output_layout", "change_transition", "id_select_stage_layout", "change_draw_zoom", "get_output", "get_output_slide_text", "get_output_group_name"]
+    },
+    audio: {
+        name: "tabs.audio",
+        actions: ["play_audio", "pause_audio", "stop_audio", "audio_seekto", "change_volume", "start_audio_stream", "start_playlist", "name_start_playlist", "playlist_next", "start_metronome", "get_playing_audio_duration", "get_playing_audio_time", "get_playing_audio_time_left", "get_playing_audio_data", "get_playlists", "get_playlist"]
+    },
+    timers: {
+        name: "tabs.timers",
+        actions: ["name_start_timer", "id_start_timer", "start_slide_timers", "pause_timers", "stop_timers", "timer_seekto", "edit_timer", "id_pause_timer", "name_pause_timer", "id_stop_timer", "name_stop_timer", "get_timers"]
+    },
+    functions: {
+        name: "tabs.functions",
+        actions: ["change_variable", "start_trigger", "sync_drive", "sync_content_provider", "send_midi", "send_rest_command", "emit_action", "name_run_action", "run_action", "toggle_action", "get_dynamic_value", "get_variables", "get_variable"]
+    }
+}
+
+export function getApiActionCategory(actionId: string) {
+    return Object.keys(API_ACCESS_CATEGORIES).find(id => API_ACCESS_CATEGORIES[id].actions.includes(actionId)) || ""
+}
+
+// returns an error message if the profile (or API key) can't run this action
+export function checkApiAccess(actionId: string, profileId: string | undefined | null, allowedActions?: string[]) {
+    if (allowedActions?.length && !allowedActions.includes(actionId)) return `Access denied: The API key is not allowed to use "${actionId}"!`
+
+    const readOnly = actionId.startsWith("get_")
+    return checkCategoryAccess(getApiActionCategory(actionId), readOnly, profileId, actionId)
+}
+
+function checkCategoryAccess(category: string, readOnly: boolean, profileId: string | undefined | null, name: string) {
+    const profile = profileId ? get(profiles)[profileId] : null
+    if (!profile) return ""
+
+    const access = getProfileAccess(profileId!, "api")
+    const level: AccessType = category ? getAccessLevel(access, category) : access.global || "write"
+    if (level === "write" || (level === "read" && readOnly)) return ""
+
+    return `Access denied: The profile "${profile.name}" is not allowed to use "${name}"!`
+}
+
+// REMOTE & CONTROLLER
+
+// channels that don't run anything
+const readChannels: { [key: string]: { [key: string]: string } } = {
+    REMOTE: { SHOW: "show", PROJECTS: "project", OUT_DATA: "output", GET_SCRIPTURE: "slide" },
+    STAGE: { LAYOUTS: "output", LAYOUT: "output", OUT: "output", SHOW_DATA: "show", REQUEST_PROGRESS: "show", REQUEST_STREAM: "output" },
+    CONTROLLER: { GET_OUTPUT_ID: "output" }
+}
+const controllerActions: { [key: string]: string } = { next: "next_slide", previous: "previous_slide", clear: "clear_slide", clear_painting: "clear_drawing" }
+
+export function checkClientAccess(clientId: string, msg: ClientMessage, profileId: string | undefined | null) {
+    const channel: string = msg.channel
+    if (!profileId || channel === "PASSWORD" || channel === "ACCESS") return ""
+
+    // "API:action_id"
+    if (channel.includes("API:")) return checkApiAccess(channel.split(":")[1], profileId)
+
+    const readCategory = readChannels[clientId]?.[channel]
+    if (readCategory) return checkCategoryAccess(readCategory, true, profileId, channel)
+
+    if (clientId === "REMOTE" && channel === "OUT") {
+        if (msg.data === "clear") return checkApiAccess("clear_all", profileId)
+        // no data will just get the current output
+        if (msg.data === null || msg.data === undefined) return checkApiAccess("get_output", profileId)
+        return checkApiAccess("index_select_slide", profileId)
+    }
+
+    if (clientId === "STAGE" && channel === "RUN_ACTION") return checkApiAccess("run_action", profileId)
+
+    if (clientId === "CONTROLLER") {
+        if (channel === "ACTION") return checkApiAccess(controllerActions[msg.data?.id] || "", profileId)
+        // drawing on the output
+        if (channel === "FOCUS") return checkCategoryAccess("output", false, profileId, "draw")
+    }
+
+    // unknown channels are not handled by the app
+    return `Access denied: Unknown channel "${channel}"!`
+}
+
+// API ACCESS (checked in the main process before sending to the app)
+
+export function startApiAccessListener() {
+    profiles.subscribe(sendApiAccess)
+    companion.subscribe(sendApiAccess)
+}
+
+let previousAccess = ""
+function sendApiAccess() {
+    const allActions = Object.values(API_ACCESS_CATEGORIES).flatMap(a => a.actions)
+
+    const blocked: { [key: string]: string[] } = {}
+    Object.keys(get(profiles)).forEach(profileId => {
+        blocked[profileId] = allActions.filter(actionId => checkApiAccess(actionId, profileId))
+    })
+
+    // only the main process gets the keys, so they are not sent to any clients
+    const keys: ApiAccess["keys"] = {}
+    Object.values((get(companion).apiKeys || {}) as { [key: string]: ApiKey }).forEach(({ key, name, profile, allowedActions, rateLimit }) => {
+        if (key) keys[key] = { name, profile, allowedActions, rateLimit }
+    })
+
+    const blockedEvents: { [key: string]: string[] } = {}
+    Object.keys(get(profiles)).forEach(profileId => {
+        blockedEvents[profileId] = Object.keys(API_EVENTS).filter(eventId => checkCategoryAccess(API_EVENTS[eventId], true, profileId, eventId))
+    })
+
+    // the API is locked to the keys as soon as any key exists
+    const requireKey = !!get(companion).requireKey || !!Object.keys(keys).length
+
+    const data: ApiAccess = { profile: get(companion).profile || "", blocked, blockedEvents, requireKey, keys }
+    const stringified = JSON.stringify(data)
+    if (stringified === previousAccess) return
+    previousAccess = stringified
+
+    sendMain(Main.API_ACCESS, data)
+}
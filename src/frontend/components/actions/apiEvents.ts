@@ -0,0 +1,133 @@
+// ----- FreeShow -----
+// Events pushed to WebSocket clients that have subscribed to them
+// { action: "subscribe", events: ["slide_changed", "timer_tick"] }
+
+import { get } from "svelte/store"
+import { Main } from "../../../types/IPC/Main"
+import type { Variable } from "../../../types/Main"
+import { sendMain } from "../../IPC/main"
+import { activeProject, activeShow, activeTimers, currentWindow, outputs, timers, variables } from "../../stores"
+import { getCurrentTimerValue } from "../drawer/timers/timers"
+import { getActiveOutputs } from "../helpers/output"
+import { _show } from "../helpers/shows"
+import { getPlayingAudioData } from "./apiGet"
+
+// event id: access category (clients need read access to the category)
+export const API_EVENTS: { [key: string]: string } = {
+    slide_changed: "slide",
+    group_start: "slide",
+    scripture_start: "slide",
+    output_cleared: "clear",
+    video_start: "media",
+    video_end: "media",
+    audio_start: "audio",
+    audio_end: "audio",
+    audio_playlist_ended: "audio",
+    timer_start: "timers",
+    timer_tick: "timers",
+    timer_end: "timers",
+    variable_changed: "functions",
+    project_item_changed: "project"
+}
+
+// events that at least one client is subscribed to (set by the main process)
+let subscribedEvents: string[] = []
+export function setApiSubscriptions(events: string[]) {
+    subscribedEvents = events
+}
+
+function sendApiEvent(event: string, data: any = {}) {
+    if (!subscribedEvents.includes(event)) return
+    sendMain(Main.API_EVENT, { event, data })
+}
+
+// the same triggers as the custom action activations
+export function activationEvent(activation: string, specificActivation: any = null) {
+    if (!API_EVENTS[activation]) return
+
+    if (activation === "audio_start") sendApiEvent(activation, getPlayingAudioData() || {})
+    else sendApiEvent(activation, specificActivation ? { id: specificActivation } : {})
+}
+
+// layer: "all" | "background" | "slide" | "overlays" | "audio"
+export function outputClearedEvent(layer: string) {
+    sendApiEvent("output_cleared", { layer })
+}
+
+let eventsStarted = false
+export function startApiEvents() {
+    if (eventsStarted || get(currentWindow)) return
+    eventsStarted = true
+
+    let previousSlide = ""
+    outputs.subscribe(data => {
+        if (!subscribedEvents.includes("slide_changed")) return
+
+        const outputId = getActiveOutputs(data)[0]
+        const slide = data[outputId]?.out?.slide
+
+        const showId = slide?.id || ""
+        const key = JSON.stringify([outputId, showId, slide?.layout, slide?.index])
+        if (key === previousSlide) return
+        previousSlide = key
+
+        const layoutRef = showId ? _show(showId).layouts([slide?.layout]).ref()[0] || [] : []
+        const slideId = layoutRef[slide?.index ?? -1]?.id
+        const group = showId ? _show(showId).get("slides")?.[slideId]?.group || "" : ""
+
+        // API indexes start at 1 (0 = no slide)
+        sendApiEvent("slide_changed", { outputId, showId, layoutId: slide?.layout || "", index: slide?.index !== undefined ? slide.index + 1 : 0, group })
+    })
+
+    activeTimers.subscribe(data => {
+        if (!subscribedEvents.includes("timer_tick") || !data.length) return
+
+        const today = new Date()
+        const ticks = data
+            .filter(activeTimer => get(timers)[activeTimer.id])
+            .map(activeTimer => {
+                const timer = get(timers)[activeTimer.id]
+                const remaining = Math.round(getCurrentTimerValue(timer, { id: activeTimer.id }, today, data))
+                return { id: activeTimer.id, name: timer.name, remaining, paused: !!activeTimer.paused }
+            })
+
+        sendApiEvent("timer_tick", ticks)
+    })
+
+    const previousValues: { [key: string]: string } = {}
+    variables.subscribe(data => {
+        Object.entries(data).forEach(([id, variable]) => {
+            const value = getVariableValue(variable)
+            const stringified = JSON.stringify([value, variable.enabled])
+            if (previousValues[id] === stringified) return
+
+            // don't send all variables on startup
+            const isNew = previousValues[id] === undefined
+            previousValues[id] = stringified
+            if (isNew) return
+
+            sendApiEvent("variable_changed", { id, name: variable.name, type: variable.type, value, enabled: variable.enabled !== false })
+        })
+    })
+
+    let previousItem = ""
+    activeShow.subscribe(data => {
+        const projectId = get(activeProject) || ""
+        if (!projectId || data?.index === undefined) return
+
+        const key = JSON.stringify([projectId, data.index, data.id])
+        if (key === previousItem) return
+        previousItem = key
+
+        // API indexes start at 1
+        const type = data.type || "show"
+        const name = data.name || (type === "show" ? _show(data.id).get("name") : "") || ""
+        sendApiEvent("project_item_changed", { projectId, index: data.index + 1, id: data.id, type, name })
+    })
+}
+
+function getVariableValue(variable: Variable) {
+    if (variable.type === "text") return variable.text || ""
+    if (variable.type === "text_set") return variable.activeTextSet ?? 0
+    return variable.number ?? 0
+}
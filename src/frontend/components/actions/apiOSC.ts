@@ -1,51 +1,238 @@
+import { get } from "svelte/store"
 import { Main } from "../../../types/IPC/Main"
 import { sendMain } from "../../IPC/main"
+import { activeTimers, audioChannels, companion, currentWindow, outputs, timers } from "../../stores"
+import { getCurrentTimerValue } from "../drawer/timers/timers"
+import { getActiveOutputs } from "../helpers/output"
+import { _show } from "../helpers/shows"
+
+// Examples: /show/<id>/start | /slide/next | /clear/all | /slide/index 3 | /audio/volume 0.5
+// Any path segment starting with "get" will return data to the sender.
+// OSC arguments are passed in order to the last function in the path.
+
+type OSC_ARG = string | number | boolean
+type OSC_ARGS = OSC_ARG[]
+
+const num = (value: OSC_ARG | undefined) => (value === undefined || value === "" ? undefined : Number(value))
+const str = (value: OSC_ARG | undefined) => (value === undefined ? undefined : String(value))
+const bool = (value: OSC_ARG | undefined) => (value === undefined ? undefined : value === true || value === 1 || value === "true" || value === "1")
 
-// Examples: /show/<id>/start | /slide/next | /clear/all
 const oscActions = {
-    // project: {
-    //     _id: (id: string) => ({
-    //         open: () => ({ action: "id_select_project", id }),
-    //         // open: () => ({ action: "index_select_project", index: Number(id) }),
-    //     }),
-    // },
+    project: {
+        index: (a: OSC_ARGS) => ({ action: "index_select_project", index: num(a[0]) }),
+        name: (a: OSC_ARGS) => ({ action: "name_select_project", value: str(a[0]) }),
+        create: (a: OSC_ARGS) => ({ action: "create_project", name: str(a[0]), id: str(a[1]) }),
+        get_list: () => ({ action: "get_projects" }),
+        item: {
+            next: () => ({ action: "next_project_item" }),
+            previous: () => ({ action: "previous_project_item" }),
+            index: (a: OSC_ARGS) => ({ action: "index_select_project_item", index: num(a[0]) })
+        },
+        _id: (id: string) => ({
+            open: () => ({ action: "id_select_project", id }),
+            rename: (a: OSC_ARGS) => ({ action: "rename_project", id, name: str(a[0]) }),
+            delete: () => ({ action: "delete_project", id }),
+            add: (a: OSC_ARGS) => ({ action: "add_to_project", projectId: id, id: str(a[0]) }),
+            remove: (a: OSC_ARGS) => ({ action: "remove_project_item", id, index: num(a[0]) }),
+            get: () => ({ action: "get_project", id })
+        })
+    },
+    show: {
+        name: (a: OSC_ARGS) => ({ action: "name_select_show", value: str(a[0]) }),
+        create: (a: OSC_ARGS) => ({ action: "create_show", text: str(a[0]), name: str(a[1]), category: str(a[2]) }),
+        get_list: () => ({ action: "get_shows" }),
+        _id: (id: string) => ({
+            start: () => ({ action: "start_show", id }),
+            layout: (a: OSC_ARGS) => ({ action: "change_layout", showId: id, layoutId: str(a[0]) }),
+            text: (a: OSC_ARGS) => ({ action: "set_plain_text", id, value: str(a[0]) }),
+            set: (a: OSC_ARGS) => ({ action: "set_show", id, value: str(a[0]) }),
+            rearrange: (a: OSC_ARGS) => ({ action: "rearrange_groups", showId: id, from: num(a[0]), to: num(a[1]) }),
+            add_group: (a: OSC_ARGS) => ({ action: "add_group", showId: id, groupId: str(a[0]) }),
+            transpose: {
+                up: () => ({ action: "transpose_show_up", id }),
+                down: () => ({ action: "transpose_show_down", id })
+            },
+            get: () => ({ action: "get_show", id }),
+            get_layout: () => ({ action: "get_show_layout", id }),
+            get_text: () => ({ action: "get_plain_text", id }),
+            get_groups: () => ({ action: "get_groups", id })
+        })
+    },
+    template: {
+        _id: (id: string) => ({
+            set: () => ({ action: "set_template", id })
+        })
+    },
     slide: {
         next: () => ({ action: "next_slide" }),
         previous: () => ({ action: "previous_slide" }),
+        random: () => ({ action: "random_slide" }),
+        index: (a: OSC_ARGS) => ({ action: "index_select_slide", index: num(a[0]), showId: str(a[1]), layoutId: str(a[2]) }),
+        name: (a: OSC_ARGS) => ({ action: "name_select_slide", value: str(a[0]) }),
+        recording: () => ({ action: "start_slide_recording" }),
+        timers: (a: OSC_ARGS) => ({ action: "start_slide_timers", showId: str(a[0]), slideId: str(a[1]) }),
+        get: (a: OSC_ARGS) => ({ action: "get_slide", showId: str(a[0]), slideId: str(a[1]) }),
+        get_text: () => ({ action: "get_output_slide_text" }),
+        get_group: () => ({ action: "get_output_group_name" }),
+        get_thumbnail: (a: OSC_ARGS) => ({ action: "get_slide_thumbnail", index: num(a[0]), showId: str(a[1]), layoutId: str(a[2]) })
     },
-    show: {
+    group: {
         _id: (id: string) => ({
-            // open: () => ({ action: "id_select_show", id }),
-            start: () => ({ action: "start_show", id }),
-            // slide: () => ({
-            //     next: () => ({ action: "next_slide", id }),
-            //     previous: () => ({ action: "previous_slide", id }),
-            //     // _id: (slideId: string) => ({
-            //     //     start: () => ({ action: "id_select_slide", id, slideId }),
-            //     // }),
-            // }),
-        }),
+            start: () => ({ action: "id_select_group", id })
+        })
     },
     clear: {
         all: () => ({ action: "clear_all" }),
         background: () => ({ action: "clear_background" }),
         slide: () => ({ action: "clear_slide" }),
         overlays: () => ({ action: "clear_overlays" }),
+        overlay: (a: OSC_ARGS) => ({ action: "clear_overlay", id: str(a[0]) }),
         audio: () => ({ action: "clear_audio" }),
         next_timer: () => ({ action: "clear_next_timer" }),
+        drawing: () => ({ action: "clear_drawing" })
+    },
+    media: {
+        play: (a: OSC_ARGS) => ({ action: "play_media", path: str(a[0]), index: num(a[1]) }),
+        toggle: () => ({ action: "toggle_playing_media" }),
+        seek: (a: OSC_ARGS) => ({ action: "video_seekto", seconds: num(a[0]) }),
+        camera: (a: OSC_ARGS) => ({ action: "start_camera", id: str(a[0]), name: str(a[1]), groupId: str(a[2]) }),
+        screen: (a: OSC_ARGS) => ({ action: "start_screen", id: str(a[0]), name: str(a[1]) }),
+        get_duration: () => ({ action: "get_playing_video_duration" }),
+        get_time: () => ({ action: "get_playing_video_time" }),
+        get_time_left: () => ({ action: "get_playing_video_time_left" }),
+        get_thumbnail: (a: OSC_ARGS) => ({ action: "get_thumbnail", path: str(a[0]), index: num(a[1]) }),
+        get_pdf_thumbnails: (a: OSC_ARGS) => ({ action: "get_pdf_thumbnails", path: str(a[0]) })
+    },
+    effect: {
+        _id: (id: string) => ({
+            start: () => ({ action: "id_start_effect", id })
+        })
+    },
+    overlay: {
+        index: (a: OSC_ARGS) => ({ action: "index_select_overlay", index: num(a[0]) }),
+        name: (a: OSC_ARGS) => ({ action: "name_select_overlay", value: str(a[0]) }),
+        _id: (id: string) => ({
+            start: () => ({ action: "id_select_overlay", id }),
+            clear: () => ({ action: "clear_overlay", id })
+        })
+    },
+    scripture: {
+        start: (a: OSC_ARGS) => ({ action: "start_scripture", reference: str(a[0]), id: str(a[1]) }),
+        next: () => ({ action: "scripture_next" }),
+        previous: () => ({ action: "scripture_previous" })
+    },
+    output: {
+        restore: () => ({ action: "restore_output" }),
+        lock: (a: OSC_ARGS) => ({ action: "lock_output", value: bool(a[0]), outputId: str(a[1]) }),
+        toggle_windows: () => ({ action: "toggle_output_windows" }),
+        transition: (a: OSC_ARGS) => ({ action: "change_transition", type: str(a[0]), duration: num(a[1]), easing: str(a[2]), id: str(a[3]) }),
+        get: () => ({ action: "get_output" }),
+        get_cleared: () => ({ action: "get_cleared" }),
+        style: {
+            _id: (id: string) => ({
+                set: () => ({ action: "id_select_output_style", id })
+            })
+        },
+        _id: (id: string) => ({
+            toggle: () => ({ action: "toggle_output", id }),
+            style: (a: OSC_ARGS) => ({ action: "change_output_style", outputId: id, styleId: str(a[0]) }),
+            stage_layout: (a: OSC_ARGS) => ({ action: "change_stage_output_layout", outputId: id, stageLayoutId: str(a[0]) }),
+            get: () => ({ action: "get_output", id })
+        })
+    },
+    stage: {
+        _id: (id: string) => ({
+            start: () => ({ action: "id_select_stage_layout", id })
+        })
+    },
+    audio: {
+        play: (a: OSC_ARGS) => ({ action: "play_audio", path: str(a[0]), index: num(a[1]) }),
+        pause: (a: OSC_ARGS) => ({ action: "pause_audio", path: str(a[0]) }),
+        stop: (a: OSC_ARGS) => ({ action: "stop_audio", path: str(a[0]) }),
+        seek: (a: OSC_ARGS) => ({ action: "audio_seekto", seconds: num(a[0]), id: str(a[1]) }),
+        volume: (a: OSC_ARGS) => ({ action: "change_volume", volume: num(a[0]) }),
+        gain: (a: OSC_ARGS) => ({ action: "change_volume", gain: num(a[0]) }),
+        metronome: (a: OSC_ARGS) => ({ action: "start_metronome", tempo: num(a[0]), beats: num(a[1]), volume: num(a[2]) }),
+        clear: () => ({ action: "clear_audio" }),
+        get_duration: () => ({ action: "get_playing_audio_duration" }),
+        get_time: () => ({ action: "get_playing_audio_time" }),
+        get_time_left: () => ({ action: "get_playing_audio_time_left" }),
+        get_data: () => ({ action: "get_playing_audio_data" }),
+        stream: {
+            _id: (id: string) => ({
+                start: () => ({ action: "start_audio_stream", id })
+            })
+        }
+    },
+    playlist: {
+        name: (a: OSC_ARGS) => ({ action: "name_start_playlist", value: str(a[0]) }),
+        next: () => ({ action: "playlist_next" }),
+        get: () => ({ action: "get_playlist" }),
+        get_list: () => ({ action: "get_playlists" }),
+        _id: (id: string) => ({
+            start: () => ({ action: "start_playlist", id }),
+            get: () => ({ action: "get_playlist", id })
+        })
     },
     timer: {
+        pause: () => ({ action: "pause_timers" }),
+        stop: () => ({ action: "stop_timers" }),
+        get_list: () => ({ action: "get_timers" }),
+        name: {
+            start: (a: OSC_ARGS) => ({ action: "name_start_timer", value: str(a[0]) }),
+            pause: (a: OSC_ARGS) => ({ action: "name_pause_timer", value: str(a[0]) }),
+            stop: (a: OSC_ARGS) => ({ action: "name_stop_timer", value: str(a[0]) })
+        },
         _id: (id: string) => ({
             start: () => ({ action: "id_start_timer", id }),
-        }),
-        stop: () => ({ action: "stop_timers" }),
+            pause: () => ({ action: "id_pause_timer", id }),
+            stop: () => ({ action: "id_stop_timer", id }),
+            seek: (a: OSC_ARGS) => ({ action: "timer_seekto", id, seconds: num(a[0]) }),
+            edit: (a: OSC_ARGS) => ({ action: "edit_timer", id, key: str(a[0]), value: a[1] })
+        })
     },
+    variable: {
+        get_list: () => ({ action: "get_variables" }),
+        name: (a: OSC_ARGS) => ({ action: "change_variable", name: str(a[0]), key: a.length > 1 ? "value" : undefined, value: a[1] }),
+        _id: (id: string) => ({
+            set: (a: OSC_ARGS) => ({ action: "change_variable", id, key: "value", value: a[0] }),
+            toggle: (a: OSC_ARGS) => ({ action: "change_variable", id, key: "enabled", value: bool(a[0]) }),
+            increment: (a: OSC_ARGS) => ({ action: "change_variable", id, key: "increment", value: num(a[0]) }),
+            decrement: (a: OSC_ARGS) => ({ action: "change_variable", id, key: "decrement", value: num(a[0]) }),
+            get: () => ({ action: "get_variable", id })
+        })
+    },
+    trigger: {
+        _id: (id: string) => ({
+            start: () => ({ action: "start_trigger", id })
+        })
+    },
+    action: {
+        name: (a: OSC_ARGS) => ({ action: "name_run_action", value: str(a[0]) }),
+        _id: (id: string) => ({
+            run: () => ({ action: "run_action", id }),
+            toggle: (a: OSC_ARGS) => ({ action: "toggle_action", id, value: bool(a[0]) })
+        })
+    },
+    draw: {
+        zoom: (a: OSC_ARGS) => ({ action: "change_draw_zoom", size: num(a[0]), x: num(a[1]), y: num(a[2]) }),
+        clear: () => ({ action: "clear_drawing" })
+    },
+    sync: {
+        drive: () => ({ action: "sync_drive" }),
+        content_provider: () => ({ action: "sync_content_provider" })
+    },
+    emit: (a: OSC_ARGS) => ({ action: "emit_action", emitter: str(a[0]), template: str(a[1]), data: str(a[2]) }),
+    get_dynamic_value: (a: OSC_ARGS) => ({ action: "get_dynamic_value", value: str(a[0]) })
 }
 
-// data: { action: string, ... }
+// data: { action: string, oscArgs?: (string | number | boolean)[], ... }
 export function oscToAPI(data: any) {
+    const args: OSC_ARGS = Array.isArray(data.oscArgs) ? data.oscArgs : []
+    delete data.oscArgs
+
     try {
-        data = { ...data, ...parsePath(data.action) }
+        data = { ...data, ...removeUndefined(parsePath(data.action, args)) }
     } catch (err) {
         // use path value as api action id
         const action = data.action.slice(1)
@@ -59,14 +246,14 @@ export function oscToAPI(data: any) {
     return data
 }
 
-function parsePath(path) {
+function parsePath(path: string, args: OSC_ARGS) {
     const parts = path.split("/").filter(Boolean)
 
     let currentPath: any = oscActions
 
     for (const part of parts) {
         if (typeof currentPath[part] === "function") {
-            currentPath = currentPath[part]()
+            currentPath = currentPath[part](args)
         } else if (currentPath[part]) {
             currentPath = currentPath[part]
         } else if (currentPath._id) {
@@ -76,12 +263,82 @@ function parsePath(path) {
         }
     }
 
-    if (typeof currentPath !== "object") return {}
+    if (typeof currentPath !== "object" || !currentPath.action) throw new Error(`Incomplete OSC API path: ${path}`)
 
     return currentPath
 }
 
+function removeUndefined(data: { [key: string]: any }) {
+    Object.keys(data).forEach((key) => {
+        if (data[key] === undefined) delete data[key]
+    })
+    return data
+}
+
 export type OSC_SIGNAL = { url?: string; port?: string }
 export function emitOSC(signal: OSC_SIGNAL, data: string) {
     sendMain(Main.EMIT_OSC, { signal, data })
 }
+
+// FEEDBACK
+
+// send live state to the configured OSC target (e.g. TouchOSC/QLab)
+// values are only sent when they change
+const previousFeedback: { [key: string]: string } = {}
+function sendFeedback(address: string, ...args: OSC_ARG[]) {
+    const settings = get(companion)?.oscFeedback
+    if (!settings?.enabled) return
+
+    const value = JSON.stringify(args)
+    if (previousFeedback[address] === value) return
+    previousFeedback[address] = value
+
+    sendMain(Main.OSC_FEEDBACK, { signal: { host: settings.host || "127.0.0.1", port: settings.port || 9000 }, address: `/freeshow/feedback${address}`, args })
+}
+
+const AUDIO_LEVEL_PRECISION = 1 // dB
+let feedbackStarted = false
+export function startOSCFeedback() {
+    if (feedbackStarted || get(currentWindow)) return
+    feedbackStarted = true
+
+    outputs.subscribe((data) => {
+        const outputId = getActiveOutputs(data)[0]
+        const slide = data[outputId]?.out?.slide
+
+        const showId = slide?.id || ""
+        const layoutRef = showId ? _show(showId).layouts([slide?.layout]).ref()[0] || [] : []
+        const slideId = layoutRef[slide?.index ?? -1]?.id
+        const group = showId ? _show(showId).get("slides")?.[slideId]?.group || "" : ""
+
+        sendFeedback("/show/id", showId)
+        sendFeedback("/show/name", showId ? _show(showId).get("name") || "" : "")
+        // API indexes start at 1 (0 = no slide)
+        sendFeedback("/slide/index", slide?.index !== undefined ? slide.index + 1 : 0)
+        sendFeedback("/slide/group", group)
+    })
+
+    activeTimers.subscribe((data) => {
+        const today = new Date()
+        data.forEach((activeTimer) => {
+            const activeTimerData = get(timers)[activeTimer.id]
+            if (!activeTimerData) return
+
+            const remaining = Math.round(getCurrentTimerValue(activeTimerData, { id: activeTimer.id }, today, data))
+            sendFeedback(`/timer/${activeTimer.id}/remaining`, remaining)
+        })
+
+        const firstActive = data.find((a) => !a.paused)
+        if (!firstActive) return
+
+        const timer = get(timers)[firstActive.id]
+        if (timer) sendFeedback("/timer/remaining", Math.round(getCurrentTimerValue(timer, { id: firstActive.id }, today, data)))
+    })
+
+    audioChannels.subscribe((channels) => {
+        if (!get(companion)?.oscFeedback?.enabled) return
+
+        const levels = channels.map((channel) => Math.round((channel.dB?.value ?? -80) / AUDIO_LEVEL_PRECISION) * AUDIO_LEVEL_PRECISION)
+        sendFeedback("/audio/level", ...(levels.length ? levels : [-80]))
+    })
+}
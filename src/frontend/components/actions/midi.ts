@@ -1,6 +1,6 @@
 import { get } from "svelte/store"
 import { Main } from "../../../types/IPC/Main"
-import type { Layout, Action } from "../../../types/Show"
+import type { Layout, Action, MidiValues } from "../../../types/Show"
 import { sendMain } from "../../IPC/main"
 import { actions, shows } from "../../stores"
 import { newToast } from "../../utils/common"
@@ -102,19 +102,30 @@ export function receivedMidi(msg) {
         index = msg.values.value || 0
     }
 
-    // the select slide index from velocity can't select slide 0 as a NoteOn with velocity 0 is detected as NoteOff
-    // velocity of 0 currently bypasses the note on/off
-    const diff_type = action.midi?.type !== msg.type
-    const diff_note = msg.type === "control" ? msg.values.controller !== action.midi?.values.controller : msg.values.note !== action.midi?.values.note
-    const diff_channel = msg.values.channel !== action.midi?.values.channel
-    if (!msg.bypass && (diff_type || diff_note || diff_channel) && index !== 0) return
-
-    // some programs send note off with velocity 0 upon release/stop, these should not be detected
-    if (diff_type && index === 0) return
+    let missingCue = false
+    if (msg.type === "msc" || action.midi?.type === "msc") {
+        // show control messages are sent to all actions listening on the port
+        if (!msg.bypass && !isMatchingShowControl(action.midi, msg)) return
+
+        // the cue number can be used as the index ("GO 3" selects slide 3)
+        const cue = parseInt(msg.values.cue, 10)
+        missingCue = Number.isNaN(cue)
+        index = missingCue ? -1 : cue
+    } else {
+        // the select slide index from velocity can't select slide 0 as a NoteOn with velocity 0 is detected as NoteOff
+        // velocity of 0 currently bypasses the note on/off
+        const diff_type = action.midi?.type !== msg.type
+        const diff_note = msg.type === "control" ? msg.values.controller !== action.midi?.values.controller : msg.values.note !== action.midi?.values.note
+        const diff_channel = msg.values.channel !== action.midi?.values.channel
+        if (!msg.bypass && (diff_type || diff_note || diff_channel) && index !== 0) return
+
+        // some programs send note off with velocity 0 upon release/stop, these should not be detected
+        if (diff_type && index === 0) return
+    }
 
     const hasindex = action.triggers?.[0]?.includes("index_") ?? false
     if (hasindex && index < 0) {
-        newToast("toast.midi_no_velocity")
+        newToast(missingCue ? "toast.midi_no_cue" : "toast.midi_no_velocity")
         index = 0
     }
 
@@ -148,6 +159,18 @@ export function receivedMidi(msg) {
     })
 }
 
+// an empty cue matches any cue, and device id 127 is "all call"
+function isMatchingShowControl(midi: MidiValues | undefined, msg) {
+    if (msg.type !== "msc" || midi?.type !== "msc") return false
+
+    const values = midi.values
+    if ((values.command || "go") !== msg.values.command) return false
+    if (values.cue && values.cue !== msg.values.cue) return false
+
+    const deviceId = values.deviceId ?? 127
+    return deviceId === 127 || msg.values.deviceId === 127 || deviceId === msg.values.deviceId
+}
+
 // <= 1.1.6
 export function convertOldMidiToNewAction(action) {
     if (action.action) {
@@ -1,4 +1,5 @@
 import { get } from "svelte/store"
+import { AudioBuses } from "../../../audio/audioBuses"
 import { AudioPlayer } from "../../../audio/audioPlayer"
 import { customMetadata, metronome, metronomeTimer, playingMetronome, volume } from "../../../stores"
 import type { API_metronome } from "../../actions/api"
@@ -160,7 +161,8 @@ async function playNote(time: number, first = false) {
     // volume control
     const gainNode = audioContext.createGain()
     source.connect(gainNode)
-    gainNode.connect(audioContext.destination)
+
+    gainNode.connect(getMetronomeOutput())
 
     // WIP connect getAnalyser()
 
@@ -178,6 +180,16 @@ async function playNote(time: number, first = false) {
     source.start(audioContext.currentTime + time)
 }
 
+// plays on the routed audio buses, or the metronome output (updated by the buses when the routing changes)
+let metronomeOutput: GainNode | null = null
+function getMetronomeOutput() {
+    if (metronomeOutput) return metronomeOutput
+
+    metronomeOutput = audioContext.createGain()
+    AudioBuses.connect("metronome", metronomeOutput, "metronome", [audioContext.destination])
+    return metronomeOutput
+}
+
 const accentVolume = 2
 const secondaryVolume = 1.75
 function getVolume(beatVolume) {
@@ -0,0 +1,91 @@
+import { get } from "svelte/store"
+import type { ReadingPlan, ScriptureReference } from "../../../../types/Scripture"
+import { activeProject, drawerTabsData, readingPlans, scriptures } from "../../../stores"
+import { newToast } from "../../../utils/common"
+import { translateText } from "../../../utils/language"
+import { history } from "../../helpers/history"
+import { getDateKey } from "../../helpers/time"
+import { getScripturesContent, getScriptureShow, loadJsonBible } from "./scripture"
+
+const DAY = 86400000
+
+function parseDateKey(value: string) {
+    const [year, month, day] = value.split("-").map(Number)
+    return new Date(year, month - 1, day)
+}
+
+export function getReadingsForDate(plan: ReadingPlan, date = new Date()): string[] {
+    if (plan.dates?.[getDateKey(date)]) return plan.dates[getDateKey(date)]
+    if (!plan.days?.length || !plan.startDate) return []
+
+    const day = Math.round((parseDateKey(getDateKey(date)).getTime() - parseDateKey(plan.startDate).getTime()) / DAY)
+    return plan.days[day] || []
+}
+
+export function getTodaysReadings(date = new Date()) {
+    return Object.values(get(readingPlans))
+        .filter(plan => !plan.disabled)
+        .flatMap(plan => getReadingsForDate(plan, date))
+}
+
+// create a scripture show for each of today's readings in the active project
+export async function addTodaysReadings(date = new Date()) {
+    const references = [...new Set(getTodaysReadings(date))]
+    if (!references.length) {
+        newToast("scripture.no_readings")
+        return
+    }
+
+    if (!get(activeProject)) {
+        newToast("toast.no_active_project")
+        return
+    }
+
+    const scriptureId = getScriptureId()
+    if (!scriptureId) return
+
+    for (const reference of references) {
+        const resolved = await resolveReference(scriptureId, reference)
+        if (!resolved) {
+            newToast(`${translateText("scripture.reference_not_found")}: ${reference}`)
+            continue
+        }
+
+        const biblesContent = await getScripturesContent(scriptureId, resolved)
+        const show = getScriptureShow(biblesContent)
+        if (!show) continue
+
+        history({ id: "UPDATE", newData: { data: show, remember: { project: get(activeProject) } }, location: { page: "show", id: "show" } })
+    }
+}
+
+// the selected scripture (or collection) in the drawer
+function getScriptureId() {
+    const activeId = get(drawerTabsData).scripture?.activeSubTab || ""
+    if (get(scriptures)[activeId]) return activeId
+    return Object.keys(get(scriptures))[0] || ""
+}
+
+// "John 3:16-18" / "Psalm 23" => book, chapter & verses (in the book names of the scripture)
+export async function resolveReference(scriptureId: string, reference: string): Promise<ScriptureReference | null> {
+    const bibleId = get(scriptures)[scriptureId]?.collection?.versions?.[0] || scriptureId
+
+    try {
+        const bible = await loadJsonBible(bibleId)
+
+        const result = bible.bookSearch(reference)
+        if (!result?.book || !result.chapter) return null
+
+        // whole chapter
+        let verses: (number | string)[] = result.verses || []
+        if (!verses.length) {
+            const chapter = await (await bible.getBook(result.book)).getChapter(Number(result.chapter))
+            verses = chapter.data.verses.map(verse => verse.number)
+        }
+
+        return { book: result.book, chapters: [result.chapter], verses: [verses] }
+    } catch (err) {
+        console.error("Could not resolve reference:", reference, err)
+        return null
+    }
+}
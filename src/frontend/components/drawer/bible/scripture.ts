@@ -5,7 +5,7 @@ import { stripMarkdown } from "json-bible/lib/markdown"
 import { get } from "svelte/store"
 import { uid } from "uid"
 import { Main } from "../../../../types/IPC/Main"
-import type { BibleContent } from "../../../../types/Scripture"
+import type { BibleContent, ScriptureReference } from "../../../../types/Scripture"
 import type { Item, Show } from "../../../../types/Show"
 import { ShowObj } from "../../../classes/Show"
 import { createCategory } from "../../../converters/importHelpers"
@@ -19,6 +19,7 @@ import { history } from "../../helpers/history"
 import { getMediaStyle } from "../../helpers/media"
 import { getActiveOutputs, setOutput } from "../../helpers/output"
 import { checkName } from "../../helpers/show"
+import { DEFAULT_VERSIFICATION, getMappedReference, mapVerse } from "./versification"
 
 const SCRIPTURE_API_URL = "https://contentapi.churchapps.org/bibles"
 
@@ -82,11 +83,13 @@ async function getLocalBible(id: string) {
 
 export async function getActiveScripturesContent() {
     const tabId = get(drawerTabsData).scripture?.activeSubTab || ""
+    return await getScripturesContent(tabId, get(activeScripture).reference)
+}
+
+export async function getScripturesContent(tabId: string, active: ScriptureReference | undefined) {
     const selectedScriptureData = get(scriptures)[tabId]
     if (!selectedScriptureData) return null
 
-    const active = get(activeScripture).reference
-
     // Sort verses by numeric verse id and subverse (e.g. "2_0", "2_1") so mixed
     // values like ["2_1","2_0", 1] end up ordered by base id then subverse.
     const selectedVerses = active?.verses.map(v => (v || []).sort((a, b) => {
@@ -106,6 +109,10 @@ export async function getActiveScripturesContent() {
 
     const currentScriptures = selectedScriptureData.collection?.versions || [tabId]
 
+    // the verses are selected in the numbering of the previewed translation
+    const previewId = currentScriptures[selectedScriptureData.collection?.previewIndex || 0] || currentScriptures[0]
+    const selectedVersification = get(scriptures)[previewId]?.versification || DEFAULT_VERSIFICATION
+
     return await Promise.all(currentScriptures.map(async id => {
         const BibleData = await loadJsonBible(id)
         const Book = await BibleData.getBook(active?.book)
@@ -117,7 +124,6 @@ export async function getActiveScripturesContent() {
 
         const bookName = Book.name
         const selectedChapters = active?.chapters.map(c => Number(c)) || []
-        const Chapters = await Promise.all(selectedChapters.map(c => Book.getChapter(c)))
 
         const metadata = BibleData.data.metadata || {}
         Object.entries(scriptureData?.metadata || {}).forEach(([key, value]) => {
@@ -126,35 +132,72 @@ export async function getActiveScripturesContent() {
         if (scriptureData?.copyright) metadata.copyright = scriptureData.copyright
         if (scriptureData?.name && !metadata.title) metadata.title = scriptureData.name
 
-        // WIP custom verse number offset per scripture (for collections)
+        // align the verses of translations with another numbering (the text is stored with the selected verse ids)
+        const versificationScheme = scriptureData?.versification || DEFAULT_VERSIFICATION
+        const isMapped = versificationScheme !== selectedVersification
+        const mappedVerses: { [key: string]: string } = {}
+        const Chapters = isMapped ? [] : await Promise.all(selectedChapters.map(c => Book.getChapter(c)))
+        const mappedChapters: { [key: number]: Awaited<ReturnType<typeof Book.getChapter>> | null } = {}
 
         const splitLongVerses = get(scriptureSettings).splitLongVerses
-        let allVersesText: { [key: string]: string }[] = []
-        selectedVerses.forEach((verses, i) => {
-            let versesText: { [key: string]: string } = {}
+        const allVersesText: { [key: string]: string }[] = []
+        for (const [i, verses] of selectedVerses.entries()) {
+            const versesText: { [key: string]: string } = {}
 
             // WIP if 1_1, 1_2, 1_3 all add up to over the splitted verse length combined, then merge into "1"
 
-            verses.forEach(v => {
-                const { id, subverse } = getVerseIdParts(v)
+            for (const v of verses) {
+                const { id: verseId, subverse } = getVerseIdParts(v)
 
-                const text = Chapters[i].getVerse(id).getText()
-                const splittedVerses = getSplittedVerses({ [id]: text })
+                let text = ""
+                if (isMapped) {
+                    const mapped = mapVerse(active?.book || "", { chapter: selectedChapters[i], verse: verseId }, selectedVersification, versificationScheme)
+                    if (mapped) {
+                        if (mappedChapters[mapped.chapter] === undefined) mappedChapters[mapped.chapter] = await getChapter(Book, mapped.chapter)
+                        text = getVerseText(mappedChapters[mapped.chapter], mapped.verse)
+                        mappedVerses[`${selectedChapters[i]}:${verseId}`] = `${mapped.chapter}:${mapped.verse}`
+                    }
+                } else {
+                    text = Chapters[i].getVerse(verseId).getText()
+                }
+                const splittedVerses = getSplittedVerses({ [verseId]: text })
 
-                const newVerseId = id + (subverse ? `_${subverse}` : "")
+                const newVerseId = verseId + (subverse ? `_${subverse}` : "")
                 if (splitLongVerses && splittedVerses[newVerseId]) versesText[v] = splittedVerses[newVerseId]
                 else versesText[v] = text
-            })
+            }
 
             allVersesText.push(versesText)
-        })
+        }
 
         // const reference = Chapter.getVerse(selectedVerses[0]).getReference()
 
-        return { id, isApi: scriptureData.api, version, metadata, book: bookName, bookId: active?.book || "", chapters: selectedChapters, verses: allVersesText, activeVerses: selectedVerses, attributionString, attributionRequired } as BibleContent
+        const content = { id, isApi: scriptureData.api, version, metadata, book: bookName, bookId: active?.book || "", chapters: selectedChapters, verses: allVersesText, activeVerses: selectedVerses, attributionString, attributionRequired } as BibleContent
+        if (isMapped) content.versification = { scheme: versificationScheme, mappedFrom: selectedVersification, verses: mappedVerses }
+        return content
     }))
 }
 
+// the chapter might not exist in this translation
+async function getChapter<T>(book: { getChapter: (num: number) => T | Promise<T> }, chapterNumber: number) {
+    try {
+        return await book.getChapter(chapterNumber)
+    } catch (err) {
+        return null
+    }
+}
+
+// the verse might not exist in this translation
+function getVerseText(chapter: { getVerse: (id: number) => { getText: () => string } } | null, verse: number) {
+    if (!chapter) return ""
+
+    try {
+        return chapter.getVerse(verse).getText() || ""
+    } catch (err) {
+        return ""
+    }
+}
+
 // OUTPUT
 
 export async function playScripture() {
@@ -498,7 +541,7 @@ export function getScriptureSlides({ biblesContent, selectedChapters, selectedVe
                 if (get(scriptureSettings).splitReference === false || get(scriptureSettings).firstSlideReference) range = currentVerseNumbers
                 let indexes = [biblesContent.length]
                 if (combineWithText) indexes = [...Array(biblesContent.length)].map((_, i) => i)
-                indexes.forEach((i) => addMeta(clone(get(scriptureSettings)), joinRange(range), v.chapterNumber, { slideIndex, itemIndex: i }))
+                indexes.forEach((i) => addMeta(clone(get(scriptureSettings)), joinRange(range), v.chapterNumber, { slideIndex, itemIndex: i }, range))
             }
 
             if (rangeIndex + 1 >= allVerses.length) return
@@ -526,7 +569,7 @@ export function getScriptureSlides({ biblesContent, selectedChapters, selectedVe
                 return selectedChapters[0]
             })()
 
-            if (remainder) indexes.forEach((i) => addMeta(clone(get(scriptureSettings)), joinRange(range), currentChapterNumber, { slideIndex, itemIndex: i }))
+            if (remainder) indexes.forEach((i) => addMeta(clone(get(scriptureSettings)), joinRange(range), currentChapterNumber, { slideIndex, itemIndex: i }, range))
         }
 
         // auto size & item options
@@ -557,7 +600,7 @@ export function getScriptureSlides({ biblesContent, selectedChapters, selectedVe
 
     return slides
 
-    function addMeta({ showVersion, showVerse, customText }, range: string, chapterNumber: number, { slideIndex, itemIndex }) {
+    function addMeta({ showVersion, showVerse, customText }, range: string, chapterNumber: number, { slideIndex, itemIndex }, verseIds: string[] = []) {
         if (!biblesContent[0]) return
 
         const lines: any[] = []
@@ -580,10 +623,15 @@ export function getScriptureSlides({ biblesContent, selectedChapters, selectedVe
         }
 
         const referenceDivider = get(scriptureSettings).referenceDivider || ":"
+        let reference = books + " " + chapterNumber + referenceDivider + range
+        // translations with another verse numbering have their own reference
+        const mappedReference = combineWithText && biblesContent[itemIndex]?.versification ? getMappedReference(biblesContent[itemIndex].versification!.verses, selectedChapters[0], verseIds) : null
+        if (mappedReference) reference = books + " " + mappedReference.chapter + referenceDivider + joinRange(mappedReference.verses)
+
         let text = customText
         if (!showVersion && !showVerse) return
         text = text.replaceAll(textKeys.showVersion, showVersion ? versions : "")
-        text = text.replaceAll(textKeys.showVerse, showVerse ? books + " " + chapterNumber + referenceDivider + range : "")
+        text = text.replaceAll(textKeys.showVerse, showVerse ? reference : "")
 
         text.split("\n").forEach((line) => {
             if (!line.trim()) return
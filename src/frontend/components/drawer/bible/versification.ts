@@ -0,0 +1,114 @@
+import type { VersificationScheme } from "../../../../types/Scripture"
+
+// Verse numbering differs between traditions, so the same verse can have another reference in each translation of a collection.
+// References are mapped through the default (English) numbering, only the most common differences are included.
+
+type VerseRef = { chapter: number; verse: number }
+type Scheme = { toDefault: (book: number, ref: VerseRef) => VerseRef | null; fromDefault: (book: number, ref: VerseRef) => VerseRef | null }
+
+export const DEFAULT_VERSIFICATION: VersificationScheme = "default"
+export const versificationSchemes: VersificationScheme[] = ["default", "hebrew", "lxx"]
+
+const PSALMS = 19
+const JOEL = 29
+const MALACHI = 39
+// only these books have differences
+const BOOK_IDS: { [key: string]: number } = { PSA: PSALMS, JOL: JOEL, MAL: MALACHI }
+
+// the Psalm titles are counted as the first verse(s) in the Hebrew text
+const PSALM_TITLES_2 = [51, 52, 54, 60]
+const PSALM_TITLES_1 = [3, 4, 5, 6, 7, 8, 9, 12, 13, 18, 19, 20, 21, 22, 30, 31, 34, 36, 38, 39, 40, 41, 42, 44, 45, 46, 47, 48, 49, 53, 55, 56, 57, 58, 59, 61, 62, 63, 64, 65, 67, 68, 69, 70, 75, 76, 77, 80, 81, 83, 84, 85, 88, 89, 92, 102, 108, 140, 142]
+function getPsalmTitleVerses(chapter: number) {
+    if (PSALM_TITLES_2.includes(chapter)) return 2
+    if (PSALM_TITLES_1.includes(chapter)) return 1
+    return 0
+}
+
+const schemes: { [key in VersificationScheme]: Scheme } = {
+    default: {
+        toDefault: (_book, ref) => ref,
+        fromDefault: (_book, ref) => ref
+    },
+    // Masoretic numbering (Hebrew Bibles & many Jewish translations)
+    hebrew: {
+        toDefault: (book, { chapter, verse }) => {
+            if (book === PSALMS) {
+                const offset = getPsalmTitleVerses(chapter)
+                // the title is not a verse in the default numbering
+                if (verse <= offset) return null
+                return { chapter, verse: verse - offset }
+            }
+            if (book === JOEL && chapter === 3) return { chapter: 2, verse: verse + 27 }
+            if (book === JOEL && chapter === 4) return { chapter: 3, verse }
+            if (book === MALACHI && chapter === 3 && verse > 18) return { chapter: 4, verse: verse - 18 }
+            return { chapter, verse }
+        },
+        fromDefault: (book, { chapter, verse }) => {
+            if (book === PSALMS) return { chapter, verse: verse + getPsalmTitleVerses(chapter) }
+            if (book === JOEL && chapter === 2 && verse > 27) return { chapter: 3, verse: verse - 27 }
+            if (book === JOEL && chapter === 3) return { chapter: 4, verse }
+            if (book === MALACHI && chapter === 4) return { chapter: 3, verse: verse + 18 }
+            return { chapter, verse }
+        }
+    },
+    // Septuagint/Vulgate Psalm numbering (Greek Orthodox & older Catholic translations)
+    lxx: {
+        toDefault: (book, { chapter, verse }) => {
+            if (book !== PSALMS) return { chapter, verse }
+            if (chapter === 9 && verse > 20) return { chapter: 10, verse: verse - 20 }
+            if (chapter >= 10 && chapter <= 112) return { chapter: chapter + 1, verse }
+            if (chapter === 113) return verse > 8 ? { chapter: 115, verse: verse - 8 } : { chapter: 114, verse }
+            if (chapter === 114) return { chapter: 116, verse }
+            if (chapter === 115) return { chapter: 116, verse: verse + 9 }
+            if (chapter >= 116 && chapter <= 145) return { chapter: chapter + 1, verse }
+            if (chapter === 146) return { chapter: 147, verse }
+            if (chapter === 147) return { chapter: 147, verse: verse + 11 }
+            return { chapter, verse }
+        },
+        fromDefault: (book, { chapter, verse }) => {
+            if (book !== PSALMS) return { chapter, verse }
+            if (chapter === 10) return { chapter: 9, verse: verse + 20 }
+            if (chapter >= 11 && chapter <= 113) return { chapter: chapter - 1, verse }
+            if (chapter === 114) return { chapter: 113, verse }
+            if (chapter === 115) return { chapter: 113, verse: verse + 8 }
+            if (chapter === 116) return verse > 9 ? { chapter: 115, verse: verse - 9 } : { chapter: 114, verse }
+            if (chapter >= 117 && chapter <= 146) return { chapter: chapter - 1, verse }
+            if (chapter === 147) return verse > 11 ? { chapter: 147, verse: verse - 11 } : { chapter: 146, verse }
+            return { chapter, verse }
+        }
+    }
+}
+
+// returns null if the verse does not exist in the other numbering
+export function mapVerse(book: number | string, ref: VerseRef, from: VersificationScheme = DEFAULT_VERSIFICATION, to: VersificationScheme = DEFAULT_VERSIFICATION): VerseRef | null {
+    if (from === to) return ref
+
+    const bookNumber = getBookNumber(book)
+    const defaultRef = (schemes[from] || schemes.default).toDefault(bookNumber, ref)
+    if (!defaultRef) return null
+
+    return (schemes[to] || schemes.default).fromDefault(bookNumber, defaultRef)
+}
+
+// local Bibles use the book number, and API Bibles use the book id ("GEN")
+function getBookNumber(book: number | string) {
+    if (!isNaN(Number(book))) return Number(book)
+    return BOOK_IDS[String(book).toUpperCase()] || 0
+}
+
+// the reference in the other numbering, mappedVerses: { "2:28": "3:1" }
+// verse ids are prefixed with the chapter if it's not the first selected chapter ("2:7")
+export function getMappedReference(mappedVerses: { [key: string]: string }, firstChapter: number, verseIds: string[]) {
+    const verseRefs = verseIds
+        .map(verseId => {
+            const [verseChapter, verse] = verseId.includes(":") ? verseId.split(":") : [firstChapter, verseId]
+            // sub verses & ranges: "8_2" / "8-10"
+            return mappedVerses[`${verseChapter}:${parseInt(verse, 10)}`] || ""
+        })
+        .filter(Boolean)
+    if (!verseRefs.length) return null
+
+    const chapter = Number(verseRefs[0].split(":")[0])
+    const verses = verseRefs.map(verseRef => (Number(verseRef.split(":")[0]) === chapter ? verseRef.split(":")[1] : verseRef))
+    return { chapter, verses }
+}
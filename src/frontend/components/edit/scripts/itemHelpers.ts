@@ -1,12 +1,12 @@
 import { get } from "svelte/store"
 import type { Condition, ConditionValue, Item, ItemType, Slide } from "../../../../types/Show"
 import type { StageItem } from "../../../../types/Stage"
-import { activeEdit, activeShow, activeStage, activeTimers, allOutputs, outputs, outputSlideCache, overlays, refreshEditSlide, showsCache, stageShows, templates, timers, variables } from "../../../stores"
+import { activeEdit, activeShow, activeStage, activeTimers, allOutputs, outputs, outputSlideCache, overlays, playingAudio, refreshEditSlide, showsCache, stageShows, templates, timers, variables } from "../../../stores"
 import { addSlideAction } from "../../actions/actions"
 import { createNewTimer, getCurrentTimerValue } from "../../drawer/timers/timers"
 import { clone, keysToID, sortByName } from "../../helpers/array"
 import { history } from "../../helpers/history"
-import { getActiveOutputs, getStageOutputId } from "../../helpers/output"
+import { getActiveOutputs, getStageOutputId, isOutCleared } from "../../helpers/output"
 import { getLayoutRef } from "../../helpers/show"
 import { dynamicValueText, getVariableValue, replaceDynamicValues } from "../../helpers/showActions"
 import { _show } from "../../helpers/shows"
@@ -314,6 +314,8 @@ export function checkConditionValue(cVal: ConditionValue, itemsText: string, typ
 
     let operator = cVal.operator || "is"
     if (element === "timer") operator = cVal.operator || "isRunning"
+    else if (element === "output") operator = cVal.operator || "isActive"
+    else if (element === "time") operator = cVal.operator || "isAbove"
 
     const data = cVal.data || "value"
     let dataValue: string | number = cVal.value ?? ""
@@ -324,6 +326,19 @@ export function checkConditionValue(cVal: ConditionValue, itemsText: string, typ
     else if (element === "timer") value = getTimerValue(elementId)
     else if (element === "variable") value = _getVariableValue(elementId)
     else if (element === "dynamicValue") value = getDynamicValue(elementId, type)
+    else if (element === "show") value = getOutputShowName()
+    else if (element === "group") value = getOutputGroup()
+    else if (element === "time") {
+        // compare minutes since midnight
+        const now = new Date()
+        value = (now.getHours() * 60 + now.getMinutes()).toString()
+        dataValue = timeToMinutes(String(dataValue)).toString()
+    }
+
+    if (element === "output" && (operator === "isActive" || operator === "isNotActive")) {
+        const active = isOutputActive(elementId)
+        return operator === "isActive" ? active : !active
+    }
 
     if (operator === "is") {
         return value === dataValue
@@ -344,6 +359,34 @@ export function checkConditionValue(cVal: ConditionValue, itemsText: string, typ
     return true
 }
 
+function getOutputShowName() {
+    const outSlide = get(outputs)[getActiveOutputs()[0]]?.out?.slide
+    if (!outSlide?.id || outSlide.id === "temp") return ""
+    return _show(outSlide.id).get("name") || ""
+}
+
+function getOutputGroup() {
+    const outSlide = get(outputs)[getActiveOutputs()[0]]?.out?.slide
+    if (!outSlide?.id) return ""
+
+    const layoutRef = _show(outSlide.id).layouts([outSlide.layout]).ref()[0] || []
+    const slideId = layoutRef[outSlide.index ?? -1]?.parent?.id || layoutRef[outSlide.index ?? -1]?.id
+    const slide = _show(outSlide.id).get("slides")?.[slideId]
+    return slide?.group || ""
+}
+
+// "" = any layer
+function isOutputActive(layer: string) {
+    if (layer === "audio") return Object.keys(get(playingAudio)).length > 0
+    return !isOutCleared(layer || null)
+}
+
+// "13:30" => 810
+function timeToMinutes(time: string) {
+    const [hours, minutes] = time.split(":").map((a) => Number(a) || 0)
+    return hours * 60 + (minutes || 0)
+}
+
 export function getFirstActiveTimer() {
     let firstTimerId = get(activeTimers)[0]?.id
     if (!firstTimerId) firstTimerId = sortByName(keysToID(get(timers))).find((timer) => timer.type !== "counter")?.id || ""
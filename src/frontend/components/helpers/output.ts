@@ -591,9 +591,12 @@ export function checkWindowCapture(startup = false) {
 // NDI | OutputShow | Stage CurrentOutput
 export function shouldBeCaptured(outputId: string, startup = false) {
     const output = get(outputs)[outputId]
+    // OutputShow devices can be bound to other outputs
+    const streamData = get(serverData)?.output_stream
+    const streamOutputIds = [streamData?.outputId || getActiveOutputs(get(outputs), false, true, true)[0], ...Object.values(streamData?.devices || {}).map((device) => device.outputId)]
     const captures = {
         ndi: !!output.ndi,
-        server: !!(get(disabledServers).output_stream === false && (get(serverData)?.output_stream?.outputId || getActiveOutputs(get(outputs), false, true, true)[0]) === outputId),
+        server: !!(get(disabledServers).output_stream === false && streamOutputIds.includes(outputId)),
         stage: !get(disabledServers).stage && Object.keys(get(connections).STAGE || {}).length > 0 && stageHasOutput(outputId)
     }
 
@@ -1,10 +1,14 @@
 import type { Unsubscriber } from "svelte/store"
 import { get } from "svelte/store"
+import { Main } from "../../../types/IPC/Main"
 import type { Recording } from "../../../types/Show"
-import { activeShow, activeSlideRecording, outLocked, outputs, playingAudio, videosData, videosTime } from "../../stores"
+import { AudioTimecode } from "../../audio/audioTimecode"
+import { sendMain } from "../../IPC/main"
+import { activeShow, activeSlideRecording, activeTimecode, outLocked, outputs, playingAudio, videosData, videosTime } from "../../stores"
 import { getActiveOutputs, setOutput } from "./output"
 import { updateOut } from "./showActions"
 import { _show } from "./shows"
+import { timecodeToTime } from "./time"
 import { updateVideoData, updateVideoTime } from "./video"
 
 /// // SLIDE RECORDING /////
@@ -123,15 +127,11 @@ function startBackgroundListener() {
 
 function checkTimeDifference(currentTime: number) {
     // find closest sequence
-    let addedTime = 0
-    const sequenceIndex = get(activeSlideRecording).sequence.findIndex((sequence) => {
-        addedTime += sequence.time
-        return addedTime > currentTime
-    })
+    const sequence: Recording["sequence"] = get(activeSlideRecording).sequence
+    const sequenceIndex = getSequenceIndex(sequence, currentTime)
     if (sequenceIndex < 0) return
 
-    const sequenceStartTime = addedTime - get(activeSlideRecording).sequence[sequenceIndex].time
-    const difference = currentTime - sequenceStartTime
+    const difference = currentTime - getSequenceStart(sequence, sequenceIndex)
 
     const margin = 500
     if (difference < margin) return
@@ -143,6 +143,20 @@ function checkTimeDifference(currentTime: number) {
     playRecording(recording, ref, sequenceIndex, difference)
 }
 
+function getSequenceIndex(sequence: Recording["sequence"], time: number) {
+    if (time < 0) return -1
+
+    let addedTime = 0
+    return sequence.findIndex((value) => {
+        addedTime += value.time
+        return addedTime > time
+    })
+}
+
+function getSequenceStart(sequence: Recording["sequence"], index: number) {
+    return sequence.slice(0, index).reduce((time, value) => (time += value.time), 0)
+}
+
 export function stopSlideRecording() {
     if (!get(activeSlideRecording)) return
 
@@ -247,3 +261,77 @@ export function playSlideRecording() {
 
     playRecording(recording, { showId, layoutId: activeLayout })
 }
+
+/// // TIMECODE /////
+
+// follow the timecode from a MIDI input (MTC) or an audio input (LTC)
+let timecodeInput = ""
+export function timecodeInputListen(source = "mtc", input = "") {
+    const key = input ? source + input : ""
+    if (key === timecodeInput) return
+    timecodeInput = key
+
+    if (source === "ltc" && input) AudioTimecode.start(input, receivedTimecode)
+    else AudioTimecode.stop()
+
+    sendMain(Main.MIDI_TIMECODE, { input: source === "ltc" ? "" : input })
+}
+
+let timecodeTimeout: NodeJS.Timeout | null = null
+export function receivedTimecode(data: { time: number; fps: number; source: string }) {
+    activeTimecode.set(data)
+
+    // the timecode has stopped
+    if (timecodeTimeout) clearTimeout(timecodeTimeout)
+    timecodeTimeout = setTimeout(() => {
+        activeTimecode.set(null)
+        stopTimecodeRecording()
+    }, 1000)
+
+    followTimecode(data.time, data.fps)
+}
+
+// small timing differences should not move the slides back and forth
+const TIMECODE_MARGIN = 500
+
+let timecodeRef: { showId: string; layoutId: string } | null = null
+function followTimecode(time: number, fps: number) {
+    // the playing recording, the show in the output, or the active show
+    const outSlide = get(outputs)[getActiveOutputs(get(outputs), true, true, true)[0]]?.out?.slide
+    const showId = (get(activeShow)?.type || "show") === "show" ? get(activeShow)?.id || "" : ""
+    const refs = [get(activeSlideRecording)?.ref, { showId: outSlide?.id, layoutId: outSlide?.layout }, { showId, layoutId: showId ? _show(showId).get("settings.activeLayout") : "" }]
+
+    for (const ref of refs) {
+        if (!ref?.showId || !ref.layoutId) continue
+
+        const recording: Recording | undefined = _show(ref.showId).layouts([ref.layoutId]).get("recording")[0]?.[0]
+        if (!recording?.timecodeStart) continue
+
+        const position = time - timecodeToTime(recording.timecodeStart, fps)
+        const index = getSequenceIndex(recording.sequence, position)
+        if (index < 0) continue
+
+        timecodeRef = ref
+        if (!isRecordingAt(ref, recording.sequence, position)) playRecording(recording, ref, index, position - getSequenceStart(recording.sequence, index))
+        return
+    }
+
+    // outside of all recordings
+    stopTimecodeRecording()
+}
+
+function isRecordingAt(ref: { showId: string; layoutId: string }, sequence: Recording["sequence"], position: number) {
+    const current = get(activeSlideRecording)
+    if (!current || current.ref.showId !== ref.showId || current.ref.layoutId !== ref.layoutId) return false
+
+    const start = getSequenceStart(sequence, current.index)
+    const end = start + (sequence[current.index]?.time || 0)
+    return position > start - TIMECODE_MARGIN && position < end + TIMECODE_MARGIN
+}
+
+function stopTimecodeRecording() {
+    const current = get(activeSlideRecording)
+    if (timecodeRef && current?.ref.showId === timecodeRef.showId && current?.ref.layoutId === timecodeRef.layoutId) stopSlideRecording()
+
+    timecodeRef = null
+}
@@ -38,6 +38,18 @@ export function joinTimeBig(time: number, showHours = true) {
     return timeValue
 }
 
+// "HH:MM:SS:FF"
+export function timecodeToTime(timecode: string, fps = 30): number {
+    const [hours = 0, minutes = 0, seconds = 0, frames = 0] = timecode.split(/[:;.]/).map((a) => Number(a) || 0)
+    return ((hours * 60 + minutes) * 60 + seconds) * 1000 + Math.round((frames / fps) * 1000)
+}
+
+export function timeToTimecode(time: number, fps = 30): string {
+    const totalSeconds = Math.floor(time / 1000)
+    const frames = Math.floor(((time % 1000) / 1000) * fps)
+    return [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, frames].map((a) => a.toString().padStart(2, "0")).join(":")
+}
+
 export function dateToString(date: string | number | Date, full = false, d: any = {}): string {
     if (!date) return ""
 
@@ -139,3 +151,8 @@ export function getTimeFromInterval(interval) {
     if (interval === "mothly") return 2592000000
     return 0
 }
+
+// local date (YYYY-MM-DD), as readings follow the calendar day
+export function getDateKey(date: Date) {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
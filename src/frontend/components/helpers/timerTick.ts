@@ -10,7 +10,7 @@ import { customActionActivation, runAction } from "../actions/actions"
 import { sortByClosestMatch } from "../actions/apiHelper"
 import { getCurrentTimerValue, playPauseGlobal } from "../drawer/timers/timers"
 import { getDynamicValue } from "../edit/scripts/itemHelpers"
-import { clone, keysToID, sortByTime } from "./array"
+import { clone, keysToID } from "./array"
 import { loadShows } from "./setShow"
 import { checkNextAfterMedia } from "./showActions"
 
@@ -127,27 +127,20 @@ export function startEventTimer() {
     convertShowToAction()
 
     const currentTime: Date = new Date()
-    let actionEvents: Event[] = Object.values(get(events)).filter((a) => {
-        const eventTime: Date = new Date(a.from)
-        return a.type === "action" && currentTime.getTime() - INTERVAL < eventTime.getTime()
-    })
+    let scheduledActions = getScheduledEventActions().filter((a) => currentTime.getTime() - INTERVAL < a.time)
 
-    if (!actionEvents.length) nextActionEventStart.set({})
+    if (!scheduledActions.length) nextActionEventStart.set({})
 
-    actionEvents = actionEvents.sort(sortByTime)
+    scheduledActions = scheduledActions.sort((a, b) => a.time - b.time)
 
     actionTimeout = setTimeout(() => {
-        actionEvents.forEach((event, i) => {
-            if (!event.action) return
-
-            const eventTime: Date = new Date(event.from)
+        scheduledActions.forEach((scheduled, i) => {
             const toast = get(dictionary).toast || {}
             if (get(nextActionEventPaused)) return
 
-            const actionId = event.action.id
-            const actionName = translateText(actionData[actionId]?.name)
+            const actionName = scheduled.name
 
-            const timeLeft: number = eventTime.getTime() - currentTime.getTime()
+            const timeLeft: number = scheduled.time - currentTime.getTime()
             if (i === 0) nextActionEventStart.set({ name: actionName, timeLeft })
 
             // less than 1 minute
@@ -165,7 +158,7 @@ export function startEventTimer() {
                 newToast(`${toast.starting_action} "${actionName}" ${toast.less_than_seconds.replace("{}", "10")}`)
 
                 // preload data
-                if (actionId === "start_show") loadShows([event.action.data?.id])
+                if (scheduled.showIds.length) loadShows(scheduled.showIds)
                 return
             }
 
@@ -173,7 +166,7 @@ export function startEventTimer() {
             if (timeLeft <= 0 && timeLeft > 0 - INTERVAL) {
                 newToast(`${toast.starting_action} "${actionName}" ${toast.now}`)
 
-                runAction(convertEventAction(event.action))
+                runAction(scheduled.action)
             }
         })
 
@@ -182,10 +175,53 @@ export function startEventTimer() {
     }, INTERVAL)
 }
 
+type ScheduledAction = { time: number; name: string; action: { triggers: string[]; actionValues: { [key: string]: any } }; showIds: string[] }
+// "action" events & events set to auto run actions (linked project)
+function getScheduledEventActions() {
+    const scheduled: ScheduledAction[] = []
+
+    Object.values(get(events)).forEach((event) => {
+        const eventTime = new Date(event.from).getTime()
+
+        if (event.type === "action") {
+            if (!event.action) return
+
+            const actionId = event.action.id
+            const actionShowIds = actionId === "start_show" && event.action.data?.id ? [event.action.data.id] : []
+            scheduled.push({ time: eventTime, name: translateText(actionData[actionId]?.name), action: convertEventAction(event.action), showIds: actionShowIds })
+            return
+        }
+
+        const action = getEventAutoRunAction(event)
+        if (!action) return
+
+        const minutesBefore = Number(event.autoRun?.minutesBefore || 0)
+        const showIds = action.triggers.filter((id) => id === "start_show" && action.actionValues[id]?.id).map((id) => action.actionValues[id].id)
+        scheduled.push({ time: eventTime - minutesBefore * ONE_MINUTE, name: event.name, action, showIds })
+    })
+
+    return scheduled
+}
+
 function convertEventAction(action) {
     return { triggers: [action.id], actionValues: { [action.id]: action.data || {} } }
 }
 
+// the linked project is always opened first, so the following actions can use the project items
+export function getEventAutoRunAction(event: Event) {
+    if (!event.autoRun?.enabled) return null
+
+    const triggers = (event.autoRun.triggers || []).filter((id) => id !== "id_select_project" || !event.project)
+    const actionValues = clone(event.autoRun.actionValues || {})
+    if (event.project) {
+        triggers.unshift("id_select_project")
+        actionValues.id_select_project = { id: event.project }
+    }
+
+    if (!triggers.length) return null
+    return { triggers, actionValues }
+}
+
 // TOWARDS A TIME/EVENT
 
 let timerCheckTimeout: NodeJS.Timeout | null = null
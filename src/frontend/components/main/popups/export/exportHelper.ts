@@ -9,9 +9,13 @@ export const exportFormats: Option[] = [
     { name: "formats.show", id: "show" }, // (json) - can also just be copied from the Shows folder
     { name: "edit.text", id: "txt" },
     { name: "PDF", id: "pdf" },
-    { name: "items.image", id: "image" }
+    { name: "items.image", id: "image" },
+    { name: "PowerPoint", id: "pptx" },
+    { name: "ProPresenter", id: "propresenter" },
+    { name: "ChordPro", id: "chordpro" },
+    { name: "OnSong", id: "onsong" },
+    { name: "OpenLyrics", id: "openlyrics" }
     // {name: "CSV", id: "csv"} // probably not needed
-    // {name: "ChordPro", id: "chordpro"}
 ]
 
 export const exportTypes: Option[] = [
@@ -1,56 +1,35 @@
 import { get } from "svelte/store"
 import type { Item, Line } from "../../../../../types/Show"
-import { showsCache, templates } from "../../../../stores"
+import { showsCache } from "../../../../stores"
 import { newToast } from "../../../../utils/common"
-import { createDoubleTemplate } from "../../../../utils/createData"
 import { getItemTextArray } from "../../../edit/scripts/textStyle"
 import { clone, sortByName } from "../../../helpers/array"
 import { history } from "../../../helpers/history"
 import { isoLanguages } from "./isoLanguages"
+import { getTranslationEngine } from "./translationEngines"
 
-// https://www.npmjs.com/package/translate
-// https://github.com/ssut/py-googletrans/issues/268
-
-const api = "https://translate.googleapis.com/translate_a/single"
 export async function translate(text: string, language: string, source = "auto"): Promise<string> {
-    const query = `${api}?client=gtx&sl=${source}&tl=${language}&dt=t&q=${encodeURI(text)}`
-
-    return new Promise((resolve, reject) => {
-        fetch(query)
-            .then((a) => a.json())
-            .then((json) => {
-                const txt = json?.[0]?.[0]?.[0]
-                if (!txt) reject("Could not get translation!")
-                return resolve(txt)
-            })
-            .catch(reject)
-    })
+    return getTranslationEngine().translate(text, language, source)
 }
 
 export function getIsoLanguages() {
     return sortByName(isoLanguages).map((a) => ({ value: a.code, label: `${a.name}${a.nativeName !== a.name ? " - " + a.nativeName : ""}`, prefix: a.flag }))
 }
 
+// translations are stored in each item, and the language is selected per output (Outputs settings)
 export async function translateShow(showId: string, languageCode: string) {
     const show = get(showsCache)[showId]
     const slides = clone(show.slides)
     let changed = false
-    let onlyOneTextbox = true
 
     await Promise.all(
         Object.keys(slides).map(async (slideId) => {
-            const newItems: Item[] = []
-
-            const items = slides[slideId].items.filter((a) => !a.language)
-            if (onlyOneTextbox && (items.length > 1 || (items[0]?.type || "text") !== "text")) onlyOneTextbox = false
+            // remove old translation items (previously added as separate textboxes)
+            slides[slideId].items = slides[slideId].items.filter((item) => item.language !== languageCode)
 
             await Promise.all(
-                slides[slideId].items.map(async (item, i) => {
-                    if (item.language) {
-                        // remove if same as new
-                        if (item.language === languageCode) slides[slideId].items.splice(i, 1)
-                        return
-                    }
+                slides[slideId].items.map(async (item) => {
+                    if (item.language) return
 
                     const text = getItemTextArray(item)
                     if (!text.length) return
@@ -60,56 +39,88 @@ export async function translateShow(showId: string, languageCode: string) {
                         translatedText = await translate(text.join("[-] "), languageCode)
                     } catch (err) {
                         console.warn("Error when translating:", err)
-                        const tip = err.message?.includes("Failed to fetch") ? ". Check your network and try again." : ""
+                        const offlineTip = getTranslationEngine().local ? ". Check that the translation server is running." : ". Check your network and try again."
+                        const tip = err.message?.includes("Failed to fetch") ? offlineTip : ""
                         newToast("Error when translating: " + String(err) + tip)
                     }
                     if (!translatedText.length) return
 
-                    const translatedLines = translatedText.split("[-]")
-
-                    const alignStyle = item.lines?.[0]?.align || ""
-                    const textStyle = item.lines?.[0]?.text?.[0]?.style || ""
-
-                    const newLines: Line[] = []
-                    translatedLines.forEach((lineText) => {
-                        newLines.push({ align: alignStyle, text: [{ style: textStyle, value: lineText.trim() }] })
-                    })
-
-                    newItems.push({ ...item, language: languageCode, lines: newLines })
+                    item.translations = { ...(item.translations || {}), [languageCode]: getTranslatedLines(item, translatedText.split("[-]")) }
                     changed = true
                 })
             )
-
-            if (newItems.length) slides[slideId].items = [...newItems, ...slides[slideId].items]
         })
     )
 
-    if (!changed) return
+    if (!changed) return false
+
+    history({ id: "UPDATE", newData: { key: "slides", data: slides }, oldData: { id: showId }, location: { id: "show_key", page: "show" } })
+    return true
+}
+
+// keep the style of the original text
+function getTranslatedLines(item: Item, translatedLines: string[]) {
+    const alignStyle = item.lines?.[0]?.align || ""
+    const textStyle = item.lines?.[0]?.text?.[0]?.style || ""
+
+    return translatedLines.map((lineText) => ({ align: alignStyle, text: [{ style: textStyle, value: lineText.trim() }] })) as Line[]
+}
+
+// corrected translations from the review, the text of each item by slide id (empty text removes the translation)
+export function updateShowTranslations(showId: string, languageCode: string, texts: { [key: string]: { [key: number]: string } }) {
+    const slides = clone(get(showsCache)[showId]?.slides || {})
+
+    Object.entries(texts).forEach(([slideId, itemTexts]) => {
+        Object.entries(itemTexts).forEach(([index, text]) => {
+            const item = slides[slideId]?.items[index]
+            if (!item) return
+
+            item.translations = { ...(item.translations || {}), [languageCode]: getTranslatedLines(item, text.split("\n")) }
+            if (!text.trim()) delete item.translations[languageCode]
+            if (!Object.keys(item.translations).length) delete item.translations
+        })
+    })
 
     history({ id: "UPDATE", newData: { key: "slides", data: slides }, oldData: { id: showId }, location: { id: "show_key", page: "show" } })
+}
 
-    // set custom template
-    if (onlyOneTextbox) {
-        // show.settings?.template
-        if (!get(templates).double) createDoubleTemplate()
-        history({ id: "TEMPLATE", save: false, newData: { id: "double", location: { page: "none", override: "show#" + showId } } })
-    }
+export function getShowTranslations(showId: string) {
+    const slides = get(showsCache)[showId]?.slides || {}
+    const languages: string[] = []
+
+    Object.values(slides).forEach((slide) => {
+        slide.items.forEach((item) => {
+            if (item.language) languages.push(item.language)
+            languages.push(...Object.keys(item.translations || {}))
+        })
+    })
+
+    return [...new Set(languages)]
 }
 
 export function removeTranslationFromShow(showId: string, langId = "") {
     const show = get(showsCache)[showId]
     const slides = clone(show.slides)
     let changed = false
+    let hadTranslationItems = false
 
     Object.keys(slides).forEach((slideId) => {
         const previousSize = slides[slideId].items.length
         slides[slideId].items = slides[slideId].items.filter((item) => !item.language || (langId ? item.language !== langId : false))
-        if (slides[slideId].items.length < previousSize) changed = true
+        if (slides[slideId].items.length < previousSize) changed = hadTranslationItems = true
+
+        slides[slideId].items.forEach((item) => {
+            if (!item.translations) return
+
+            if (langId) delete item.translations[langId]
+            if (!langId || !Object.keys(item.translations).length) delete item.translations
+            changed = true
+        })
     })
 
     if (!changed) return
 
     history({ id: "UPDATE", newData: { key: "slides", data: slides }, oldData: { id: showId }, location: { id: "show_key", page: "show" } })
 
-    if (!langId) history({ id: "TEMPLATE", save: false, newData: { id: "default", location: { page: "none", override: "show#" + showId } } })
+    if (!langId && hadTranslationItems) history({ id: "TEMPLATE", save: false, newData: { id: "default", location: { page: "none", override: "show#" + showId } } })
 }
@@ -0,0 +1,58 @@
+import { get } from "svelte/store"
+import { special } from "../../../../stores"
+
+// machine translations are only drafts, they should be reviewed before they are used
+
+export type TranslationEngine = {
+    name: string
+    // runs on this computer/network, so no text is sent to online services
+    local?: boolean
+    translate: (text: string, language: string, source: string) => Promise<string>
+}
+
+export const DEFAULT_TRANSLATION_SERVER = "http://localhost:5000"
+
+export const translationEngines: { [key: string]: TranslationEngine } = {
+    google: { name: "Google Translate", translate: googleTranslate },
+    local: { name: "LibreTranslate / Argos (local)", local: true, translate: localTranslate }
+}
+
+export function getTranslationEngine() {
+    return translationEngines[get(special).translationEngine] || translationEngines.google
+}
+
+export function getTranslationEngineList() {
+    return Object.entries(translationEngines).map(([id, engine]) => ({ value: id, label: engine.name }))
+}
+
+// https://www.npmjs.com/package/translate
+// https://github.com/ssut/py-googletrans/issues/268
+
+const googleApi = "https://translate.googleapis.com/translate_a/single"
+async function googleTranslate(text: string, language: string, source: string): Promise<string> {
+    const query = `${googleApi}?client=gtx&sl=${source}&tl=${language}&dt=t&q=${encodeURI(text)}`
+
+    const json = await (await fetch(query)).json()
+    const txt = json?.[0]?.[0]?.[0]
+    if (!txt) throw new Error("Could not get translation!")
+
+    return txt
+}
+
+// LibreTranslate compatible API: https://libretranslate.com/docs
+// this is used by the local Argos Translate server, and can be used by any local stand-in (e.g. a Marian/OPUS-MT model server)
+async function localTranslate(text: string, language: string, source: string): Promise<string> {
+    const server = (get(special).translationServer || DEFAULT_TRANSLATION_SERVER).replace(/\/$/, "")
+
+    const response = await fetch(`${server}/translate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ q: text, source, target: language, format: "text" })
+    })
+
+    const json = await response.json()
+    if (!response.ok || json.error) throw new Error(json.error || `Translation server responded with ${response.status}`)
+    if (!json.translatedText) throw new Error("Could not get translation!")
+
+    return json.translatedText
+}
@@ -26,6 +26,7 @@ import {
     videosTime
 } from "../../stores"
 import { customActionActivation } from "../actions/actions"
+import { outputClearedEvent } from "../actions/apiEvents"
 import { startMetronome } from "../drawer/audio/metronome"
 import { clone } from "../helpers/array"
 import { clearOverlayTimer, clearPlayingVideo, getActiveOutputs, isOutCleared, setOutput } from "../helpers/output"
@@ -45,11 +46,14 @@ export function clearAll(button = false) {
 
     storeCache()
 
-    clearBackground()
+    // only one cleared event is sent for all layers
+    clearBackground("", true)
     clearSlide(true)
-    clearOverlays()
-    clearAudio("", { clearPlaylist: true, commonClear: true })
+    clearOverlays("", true)
+    clearAudio("", { clearPlaylist: true, commonClear: true, silent: true })
     clearTimers()
+
+    outputClearedEvent("all")
 }
 
 function storeCache() {
@@ -102,7 +106,7 @@ export function restoreOutput() {
     outputCache.set(null)
 }
 
-export function clearBackground(specificOutputId = "") {
+export function clearBackground(specificOutputId = "", silent = false) {
     const outputIds: string[] = specificOutputId ? [specificOutputId] : getActiveOutputs()
 
     outputIds.forEach((outputId) => {
@@ -123,6 +127,7 @@ export function clearBackground(specificOutputId = "") {
 
     customMessageCredits.set("") // unsplash
     customActionActivation("background_cleared")
+    if (!silent) outputClearedEvent("background")
 }
 
 export function clearSlide(shouldClearAll = false) {
@@ -151,6 +156,7 @@ export function clearSlide(shouldClearAll = false) {
     setOutput("slide", null)
     stopSlideRecording()
     customActionActivation("slide_cleared")
+    if (!shouldClearAll) outputClearedEvent("slide")
 }
 
 export function clearOverlay(overlayId: string) {
@@ -165,7 +171,7 @@ export function clearOverlay(overlayId: string) {
     })
 }
 
-export function clearOverlays(specificOutputId = "") {
+export function clearOverlays(specificOutputId = "", silent = false) {
     const outputIds: string[] = specificOutputId ? [specificOutputId] : getActiveOutputs()
 
     outputIds.forEach((outputId) => {
@@ -178,6 +184,8 @@ export function clearOverlays(specificOutputId = "") {
         // let outEffects: string[] = get(outputs)[outputId]?.out?.effects || []
         setOutput("effects", [], false, outputId)
     })
+
+    if (!silent) outputClearedEvent("overlays")
 }
 
 export function clearTimers(specificOutputId = "", clearOverlayTimers = true) {
@@ -34,7 +34,8 @@ import {
     sortedShowsList,
     stageShows,
     styles,
-    textEditActive
+    textEditActive,
+    translationReview
 } from "../../stores"
 import { triggerFunction } from "../../utils/common"
 import { translateText } from "../../utils/language"
@@ -154,6 +155,7 @@ const triggerActions = {
 
         if (id === "textedit") {
             textEditActive.set(!get(textEditActive))
+            translationReview.set("")
             return
         }
 
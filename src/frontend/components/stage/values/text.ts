@@ -9,6 +9,8 @@ export const slideTextSections: { [key: string]: EditBoxSection } = {
             { id: "keepStyle", type: "checkbox", value: false, values: { label: "edit.keepStyle", } },
             { id: "itemNumber", type: "number", value: 0, values: { label: "edit.item_number", } },
             { id: "invertItems", type: "checkbox", value: false, values: { label: "edit.invert_items", } },
+            { id: "language", type: "dropdown", value: "", values: { label: "settings.output_language", options: "languages", allowEmpty: true } },
+            { id: "secondLanguage", type: "dropdown", value: "", values: { label: "settings.output_second_language", options: "languages", allowEmpty: true } },
         ])
     },
     font: {
@@ -4,15 +4,7 @@ import { splitDate } from "../components/helpers/time"
 import { events } from "../stores"
 import { createRepeatedEvents } from "../components/drawer/calendar/event"
 import { clone } from "../components/helpers/array"
-
-// https://github.com/adrianlee44/ical2json/blob/main/src/ical2json.ts
-const NEW_LINE = /\r\n|\n|\r/
-const COLON = ":"
-const SPACE = " "
-
-interface IcalObject {
-    [key: string]: string | string[] | IcalObject[]
-}
+import { convertToJSON } from "./ical"
 
 interface VEvent {
     CLASS?: string
@@ -141,58 +133,3 @@ export function convertCalendar(data: any) {
 function addCharAtPos(value: string, char: string, pos: number) {
     return [value.slice(0, pos), char, value.slice(pos)].join("")
 }
-
-function convertToJSON(source: string): IcalObject {
-    const output: IcalObject = {}
-    const lines = source.split(NEW_LINE)
-
-    let parentObj: IcalObject = {}
-    let currentObj: IcalObject = output
-    const parents: IcalObject[] = []
-
-    let currentKey = ""
-
-    for (const line of lines) {
-        let currentValue = ""
-
-        if (line.charAt(0) === SPACE) {
-            currentObj[currentKey] += line.substr(1)
-        } else {
-            const splitAt = line.indexOf(COLON)
-
-            if (splitAt < 0) {
-                continue
-            }
-
-            currentKey = line.substr(0, splitAt)
-            currentValue = line.substr(splitAt + 1)
-
-            switch (currentKey) {
-                case "BEGIN":
-                    parents.push(parentObj)
-                    parentObj = currentObj
-                    if (parentObj[currentValue] == null) {
-                        parentObj[currentValue] = []
-                    }
-                    // Create a new object, store the reference for future uses
-                    currentObj = {}
-                    ;(parentObj[currentValue] as IcalObject[]).push(currentObj)
-                    break
-                case "END":
-                    currentObj = parentObj
-                    parentObj = parents.pop() as IcalObject
-                    break
-                default:
-                    if (currentObj[currentKey]) {
-                        if (!Array.isArray(currentObj[currentKey])) {
-                            currentObj[currentKey] = [currentObj[currentKey]] as string[]
-                        }
-                        ;(currentObj[currentKey] as string[]).push(currentValue)
-                    } else {
-                        ;(currentObj[currentKey] as string) = currentValue
-                    }
-            }
-        }
-    }
-    return output
-}
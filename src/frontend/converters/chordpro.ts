@@ -12,13 +12,22 @@ import { activePopup, alertMessage, dictionary, drawerTabsData, groups } from ".
 import { setTempShows } from "./importHelpers"
 import { DEFAULT_ITEM_STYLE } from "../components/edit/scripts/itemHelpers"
 
-const metaKeys = ["number", "title", "artist", "composer", "lyricist", "copyright", "year", "notes", "ccli", "t", "su", "k", "f"]
+const metaKeys = ["number", "title", "artist", "composer", "lyricist", "author", "publisher", "copyright", "year", "notes", "ccli", "key", "tempo", "t", "su", "k", "f"]
 const chorus = ["start_of_chorus", "soc"]
 // const verse = ["start_of_verse", "sov"]
 // const end = ["end_of_chorus", "eoc", "end_of_verse", "eov"]
+// {start_of_verse: Verse 1} | {sov} | {soc: Chorus}
+const sectionStartRegex = /^\{\s*(?:start_of_([a-z_]+)|so([cvb]))\s*(?::\s*([^}]*))?\}/i
+const sectionEndRegex = /^\{\s*(?:end_of_[a-z_]+|eo[cvb])\s*\}/i
+const shortSections = { c: "chorus", v: "verse", b: "bridge" }
+// layout order: {x_freeshow_order: Verse 1, Chorus} | Flow: Verse 1, Chorus (OnSong)
+const orderKeys = ["x_freeshow_order", "flow"]
 
 const defaultSlide = { group: "", color: "", globalGroup: "verse", settings: {}, notes: "", items: [] }
 
+// slides are grouped & ordered when creating the show
+type ImportSlide = Slide & { isChild?: boolean; label?: string; repeat?: number }
+
 export function convertChordPro(data: any) {
     alertMessage.set("popup.importing")
     activePopup.set("alert")
@@ -30,52 +39,50 @@ export function convertChordPro(data: any) {
             let name: string = file.name
             const content = file.content
 
-            const slides: Slide[] = [clone(defaultSlide)]
+            const slides: ImportSlide[] = [clone(defaultSlide)]
             const metadata: any = {}
             const extraMetadata: string[] = []
             let notes = ""
+            let order: string[] = []
 
+            // a new group can start at the beginning, or after an empty line/section end
             let newSection = false
+            // inside a labeled section, empty lines will create child slides
+            let inSection: false | "directive" | "label" = false
             content.split("\n").forEach(checkLine)
             function checkLine(line: string) {
-                if (line.includes("end_of_")) {
+                line = line.replaceAll("\r", "")
+                const trimmed = line.trim()
+
+                const sectionMatch = trimmed.match(sectionStartRegex)
+                if (sectionMatch) {
+                    const type: string = sectionMatch[1] || shortSections[sectionMatch[2].toLowerCase()]
+                    const label = (sectionMatch[3] || "").trim() || type.replaceAll("_", " ")
+                    startNewGroup(label)
+                    inSection = "directive"
+                    return
+                }
+
+                if (sectionEndRegex.test(trimmed) || line.includes("end_of_")) {
                     newSection = true
+                    inSection = false
                     return
                 }
 
                 const sectionStart = line.includes("start_of_") || line.includes("{c:")
-                if (newSection || sectionStart) {
-                    newSection = false
-
-                    const trimmed = line.trim()
+                const canStartGroup = newSection || !slides.find((a) => a.items.length)
+                if (canStartGroup || sectionStart) {
                     if (trimmed[trimmed.length - 1] === ":" || sectionStart) {
-                        if (slides[slides.length - 1].group) {
-                            slides.push(clone(defaultSlide))
-                        }
-
-                        // get repeats - "Bridge (x2):" | "{c:Intro 2 (2x)}"
-                        const regex = /(?:x(\d+)|(\d+)x)/
-                        const match = trimmed.match(regex)
-                        if (match) {
-                            const repeatCount = Number(match[1] || match[2])
-                            if (!isNaN(repeatCount)) (slides[slides.length - 1] as any).repeat = repeatCount
-                        }
-
-                        let group = trimmed.slice(0, -1).replace(/\d+/g, "").trim()
-                        group = group.replace("(x)", "").trim()
+                        let group = trimmed.slice(0, -1).trim()
                         if (sectionStart) {
                             const start = line.includes("{c:") ? group.indexOf(":") : group.lastIndexOf("_")
                             const end = group.includes("}") ? group.indexOf("}") : group.length
                             group = group.slice(start + 1, end)
                         }
 
-                        let globalGroup = getGlobalGroup(group)
-
-                        if (globalGroup) slides[slides.length - 1].globalGroup = globalGroup
-                        else delete slides[slides.length - 1].globalGroup
-
-                        if (!get(groups)[globalGroup]) globalGroup = ""
-                        slides[slides.length - 1].group = globalGroup || group
+                        startNewGroup(group)
+                        // "Verse 1:" (OnSong) sections continue until the next group
+                        inSection = sectionStart ? false : "label"
                         return
                     }
                 }
@@ -93,7 +100,22 @@ export function convertChordPro(data: any) {
                 // {title: Amazing Grace}
                 // Title: 10,000 Reasons (Bless the Lord)
                 if (line.includes(":")) {
-                    let metaKey = line.startsWith("{d_") ? "d_" : metaKeys.find((a) => line.toLowerCase().includes(a + ":"))
+                    const lowerLine = trimmed.toLowerCase()
+
+                    const orderKey = orderKeys.find((a) => lowerLine.startsWith("{" + a + ":") || lowerLine.startsWith(a + ":"))
+                    if (orderKey) {
+                        order = trimmed.slice(trimmed.indexOf(":") + 1).replaceAll("}", "").split(",").map((a) => a.trim()).filter(Boolean)
+                        return
+                    }
+
+                    // {meta: name value}
+                    if (lowerLine.startsWith("{meta:")) {
+                        const [customKey, ...value] = trimmed.slice(6).replaceAll("}", "").trim().split(" ")
+                        if (customKey) metadata[customKey.replaceAll("_", " ")] = value.join(" ").trim()
+                        return
+                    }
+
+                    let metaKey = line.startsWith("{d_") ? "d_" : metaKeys.find((a) => lowerLine.includes(a + ":"))
                     if (metaKey) {
                         if (metaKey === "t") metaKey = "title"
                         if (metaKey === "lyricist") metaKey = "author"
@@ -101,6 +123,7 @@ export function convertChordPro(data: any) {
                         if (metaKey === "ccli" || metaKey === "d_ccli") metaKey = "CCLI"
                         if (metaKey === "f") metaKey = "copyright"
                         if (metaKey === "k") metaKey = "key"
+                        if (metaKey === "tempo") metaKey = "BPM"
                         if (metaKey === "d_") metaKey = line.slice(3, line.indexOf(":"))
                         metadata[metaKey] = line.slice(line.indexOf(":") + 1).trim()
                         metadata[metaKey] = metadata[metaKey].replaceAll("}", "")
@@ -140,9 +163,17 @@ export function convertChordPro(data: any) {
 
                 // section spacing
                 if (!line.trim()) {
-                    if (slides[slides.length - 1].items.length) {
-                        slides.push(clone(defaultSlide))
-                        newSection = true
+                    const currentSlide = slides[slides.length - 1]
+                    if (currentSlide.items.length) {
+                        if (inSection) {
+                            // child slide in the same group
+                            slides.push({ ...clone(defaultSlide), isChild: true })
+                            // a new "Label:" can end the current section
+                            if (inSection === "label") newSection = true
+                        } else {
+                            slides.push(clone(defaultSlide))
+                            newSection = true
+                        }
                     }
 
                     return
@@ -154,8 +185,9 @@ export function convertChordPro(data: any) {
                 let isChord = false
                 let letterIndex = 0
                 line = line.replaceAll("[/]", " ").replaceAll("[|]", "")
+                const isDirective = line.trim().startsWith("{")
                 line.split("").forEach((char) => {
-                    if ((char === "[" || char === "]") && !line.slice(0, -2).includes(":")) {
+                    if ((char === "[" || char === "]") && !isDirective) {
                         isChord = char === "["
                         if (isChord) chords.push({ id: uid(5), pos: letterIndex, key: "" })
                         return
@@ -170,27 +202,57 @@ export function convertChordPro(data: any) {
                     letterIndex++
                 })
 
-                text = text.replaceAll("\r", "")
+                newSection = false
 
                 const slideItems = slides[slides.length - 1].items
                 if (!slideItems.length) slideItems.push({ lines: [], style: DEFAULT_ITEM_STYLE })
                 slideItems[slideItems.length - 1].lines!.push({ align: "", text: [{ value: text, style: "" }], chords })
             }
 
+            function startNewGroup(groupName: string) {
+                const lastSlide = slides[slides.length - 1]
+                if (lastSlide.group || lastSlide.items.length) slides.push(clone(defaultSlide))
+                // reuse empty slide
+                else slides[slides.length - 1] = clone(defaultSlide)
+                newSection = false
+
+                const currentSlide = slides[slides.length - 1]
+                currentSlide.label = groupName
+
+                // get repeats - "Bridge (x2):" | "{c:Intro 2 (2x)}"
+                const regex = /(?:x(\d+)|(\d+)x)/
+                const match = groupName.match(regex)
+                if (match) {
+                    const repeatCount = Number(match[1] || match[2])
+                    if (!isNaN(repeatCount)) currentSlide.repeat = repeatCount
+                }
+
+                let group = groupName.replace(/\d+/g, "").trim()
+                group = group.replace("(x)", "").trim()
+
+                let globalGroup = getGlobalGroup(group)
+
+                if (globalGroup) currentSlide.globalGroup = globalGroup
+                else delete currentSlide.globalGroup
+
+                if (!get(groups)[globalGroup]) globalGroup = ""
+                currentSlide.group = globalGroup || group
+            }
+
             if (extraMetadata.length) {
                 if (notes.length) notes += "\n\n"
                 notes += extraMetadata.join("\n")
             }
 
             // repeat repeated slides
-            const newSlides: Slide[] = []
+            const newSlides: ImportSlide[] = []
             slides.forEach((slide) => {
-                const repeat: number = (slide as any).repeat ?? 1
-                delete (slide as any).repeat
+                const repeat: number = slide.repeat ?? 1
+                delete slide.repeat
                 slide.id = uid()
 
                 // replace with matching
-                if (!slide.items.length) {
+                if (!slide.items.length && !slide.isChild) {
                     const matching = slides.find((a) => a.group === slide.group && a.items)
                     slide.items = matching?.items || []
                     if (matching?.id) slide.id = matching.id
@@ -201,7 +263,7 @@ export function convertChordPro(data: any) {
                 })
             })
 
-            const show = createShow({ slides: newSlides, metadata, name, notes })
+            const show = createShow({ slides: newSlides, metadata, name, notes, order })
             tempShows.push({ id: uid(), show })
         })
 
@@ -209,7 +271,7 @@ export function convertChordPro(data: any) {
     }, 10)
 }
 
-function createShow({ slides, metadata, name, notes }) {
+function createShow({ slides, metadata, name, notes, order }) {
     const layoutID: string = uid()
     let category = get(drawerTabsData).shows?.activeSubTab
     if (category === "all" || category === "unlabeled") category = null
@@ -218,17 +280,39 @@ function createShow({ slides, metadata, name, notes }) {
     // remove empty slides
     slides = slides.filter((a) => a.items.length)
 
-    const layouts = getLayout(slides)
     const newSlides: any = {}
-    layouts.forEach(({ id }, i) => {
-        const slide = slides[i]
+    const layouts: any[] = []
+    const labels: { [key: string]: string } = {}
+    let parentId = ""
+    slides.forEach((slide) => {
+        const id: string = slide.id || uid()
+        const isChild = slide.isChild && parentId
+        const label: string = slide.label || ""
         delete slide.id
-        newSlides[id] = slide
+        delete slide.isChild
+        delete slide.label
+
+        if (isChild) {
+            slide.group = null
+            slide.color = null
+            delete slide.globalGroup
+
+            if (!newSlides[parentId].children) newSlides[parentId].children = []
+            newSlides[parentId].children.push(id)
+            newSlides[id] = slide
+            return
+        }
+
+        parentId = id
+        layouts.push({ id })
+        // repeated slides have the same id
+        if (!newSlides[id]) newSlides[id] = slide
+        if (label && !labels[label.toLowerCase()]) labels[label.toLowerCase()] = id
     })
 
     show.name = checkName(name)
     show.slides = newSlides
-    show.layouts[layoutID].slides = layouts
+    show.layouts[layoutID].slides = getLayout(layouts, order, labels)
     if (notes.trim()) show.layouts[layoutID].notes = notes
     show.meta = metadata
     if (show.meta.CCLI) show = setQuickAccessMetadata(show, "CCLI", show.meta.CCLI)
@@ -237,7 +321,12 @@ function createShow({ slides, metadata, name, notes }) {
     return show
 }
 
-function getLayout(slides: Slide[]) {
-    const layout: any[] = slides.map((a) => ({ id: a.id || uid() }))
-    return layout
+// use the stored order if all the labels exist
+function getLayout(layouts: { id: string }[], order: string[], labels: { [key: string]: string }) {
+    if (!order.length) return layouts
+
+    const orderedIds = order.map((label) => labels[label.toLowerCase()])
+    if (orderedIds.some((id) => !id)) return layouts
+
+    return orderedIds.map((id) => ({ id }))
 }
@@ -7,6 +7,7 @@ import { clone } from "../components/helpers/array"
 import { setQuickAccessMetadata } from "../components/helpers/setShow"
 import { checkName } from "../components/helpers/show"
 import { activePopup, alertMessage, drawerTabsData } from "../stores"
+import { parseCSVLine } from "./csvLine"
 import { setTempShows } from "./importHelpers"
 
 const DEFAULT_SLIDE = { group: "", color: "", globalGroup: "verse", settings: {}, notes: "", items: [] }
@@ -71,21 +72,3 @@ function getLayout(slides: Slide[]) {
     const layout: any[] = slides.map(() => ({ id: uid() }))
     return layout
 }
-
-function parseCSVLine(line) {
-    const regex = /"{3}([^"]+)"{3}|"(.*?)"|([^,]+)/g
-    const matches: string[] = []
-    let match
-
-    while ((match = regex.exec(line)) !== null) {
-        if (match[1] !== undefined) {
-            matches.push(`"${match[1]}"`) // Keep one quote if triple quotes were used
-        } else if (match[2] !== undefined) {
-            matches.push(match[2]) // Regular quoted field
-        } else {
-            matches.push(match[3]) // Unquoted field
-        }
-    }
-
-    return matches
-}
@@ -0,0 +1,18 @@
+// fields of a CSV line, quoted fields can contain commas
+export function parseCSVLine(line) {
+    const regex = /"{3}([^"]+)"{3}|"(.*?)"|([^,]+)/g
+    const matches: string[] = []
+    let match
+
+    while ((match = regex.exec(line)) !== null) {
+        if (match[1] !== undefined) {
+            matches.push(`"${match[1]}"`) // Keep one quote if triple quotes were used
+        } else if (match[2] !== undefined) {
+            matches.push(match[2]) // Regular quoted field
+        } else {
+            matches.push(match[3]) // Unquoted field
+        }
+    }
+
+    return matches
+}
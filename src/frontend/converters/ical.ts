@@ -0,0 +1,63 @@
+// https://github.com/adrianlee44/ical2json/blob/main/src/ical2json.ts
+const NEW_LINE = /\r\n|\n|\r/
+const COLON = ":"
+const SPACE = " "
+
+export interface IcalObject {
+    [key: string]: string | string[] | IcalObject[]
+}
+
+export function convertToJSON(source: string): IcalObject {
+    const output: IcalObject = {}
+    const lines = source.split(NEW_LINE)
+
+    let parentObj: IcalObject = {}
+    let currentObj: IcalObject = output
+    const parents: IcalObject[] = []
+
+    let currentKey = ""
+
+    for (const line of lines) {
+        let currentValue = ""
+
+        if (line.charAt(0) === SPACE) {
+            currentObj[currentKey] += line.substr(1)
+        } else {
+            const splitAt = line.indexOf(COLON)
+
+            if (splitAt < 0) {
+                continue
+            }
+
+            currentKey = line.substr(0, splitAt)
+            currentValue = line.substr(splitAt + 1)
+
+            switch (currentKey) {
+                case "BEGIN":
+                    parents.push(parentObj)
+                    parentObj = currentObj
+                    if (parentObj[currentValue] == null) {
+                        parentObj[currentValue] = []
+                    }
+                    // Create a new object, store the reference for future uses
+                    currentObj = {}
+                    ;(parentObj[currentValue] as IcalObject[]).push(currentObj)
+                    break
+                case "END":
+                    currentObj = parentObj
+                    parentObj = parents.pop() as IcalObject
+                    break
+                default:
+                    if (currentObj[currentKey]) {
+                        if (!Array.isArray(currentObj[currentKey])) {
+                            currentObj[currentKey] = [currentObj[currentKey]] as string[]
+                        }
+                        ;(currentObj[currentKey] as string[]).push(currentValue)
+                    } else {
+                        ;(currentObj[currentKey] as string) = currentValue
+                    }
+            }
+        }
+    }
+    return output
+}
@@ -8,6 +8,7 @@ import { translateText } from "../utils/language"
 import { ShowObj } from "./../classes/Show"
 import { activePopup, alertMessage, groups } from "./../stores"
 import { createCategory, setTempShows } from "./importHelpers"
+import { createOpenLyricsShow, XMLtoSong } from "./openlyrics"
 import { xml2json } from "./xml"
 
 interface Song {
@@ -46,8 +47,9 @@ export function convertOpenLP(data: any) {
                 return
             }
 
-            const song = XMLtoObject(content)
-            addShow(song)
+            // OpenLP exports OpenLyrics XML
+            const song = XMLtoSong(content)
+            if (song) tempShows.push({ id: uid(), show: createOpenLyricsShow(song, categoryId) })
         })
 
         setTempShows(tempShows)
@@ -207,108 +209,6 @@ function getSong(song: any, content: any) {
     }
 }
 
-// XML
-
-function XMLtoObject(xml: string) {
-    const song = xml2json(xml).song || {}
-
-    let lyrics = song.lyrics || {}
-    const properties = song.properties || {}
-
-    const notes =
-        song["#comment"] ||
-        (Array.isArray(properties.comments)
-            ? properties.comments?.map((comment) => comment["#text"] || "").join("\n")
-            : typeof properties.comments?.comment === "string"
-                ? properties.comments.comment
-                : typeof properties.comments === "string"
-                    ? properties.comments
-                    : "") ||
-        ""
-
-    const newSong: Song = {
-        title: getTitle(),
-        notes,
-        // created: song["@createDate"],
-        modified: song["@modifiedDate"],
-        copyright: properties.copyright || "",
-        ccli: properties.ccliNo || "",
-        authors: getAuthors(),
-        verseOrder: formatVerseOrder(properties.verseOrder || ""),
-        lyrics: getLyrics()
-    }
-
-    return newSong
-
-    function getTitle() {
-        let currentSongTitle = properties.titles?.title || []
-        if (Array.isArray(currentSongTitle)) currentSongTitle = currentSongTitle[0]
-        if (!currentSongTitle) return ""
-
-        const title = typeof currentSongTitle["#text"] != "undefined" ? currentSongTitle["#text"] : currentSongTitle
-
-        return title
-    }
-
-    function getAuthors() {
-        let currentSongAuthors = properties.authors?.author || []
-        if (!Array.isArray(currentSongAuthors)) currentSongAuthors = [currentSongAuthors]
-
-        let authors: any[] = []
-        authors = currentSongAuthors.map((author) => ({ name: author["#text"] || "", type: author["@type"] || "words" }))
-
-        return authors
-    }
-
-    function formatVerseOrder(verseOrder: string) {
-        const hasNumber = /\d+$/
-        verseOrder = verseOrder.split(" ").map(format).join(" ")
-        function format(id) {
-            if (!hasNumber.test(id)) id += "1"
-            return id
-        }
-
-        return verseOrder
-    }
-
-    function getLyrics() {
-        lyrics = song.lyrics?.verse || []
-        if (!Array.isArray(lyrics)) lyrics = [lyrics]
-
-        lyrics = lyrics.map((a) => {
-            const { lines, chords } = getLines(a.lines || "")
-            return { name: a["@name"], lines, chords }
-        })
-
-        return lyrics
-    }
-
-    function getLines(lines: string | any) {
-        if (lines.tag) lines = lines.tag.tag?.["#text"]
-
-        // might be <lines break="optional">
-        if (lines["#text"]) lines = lines["#text"]
-        // some openlyrics verses can have multiple <lines> tags
-        if (Array.isArray(lines)) {
-            const convertedLines: string[] = lines.map(convertToText)
-            function convertToText(line: any) {
-                if (line["#text"]) return line["#text"]
-                return line
-            }
-            lines = convertedLines.join("\n")
-        }
-
-        if (typeof lines !== "string") lines = ""
-
-        // remove unused line separator char
-        lines = lines.replaceAll("&#8232;", "")
-        // find line breaks
-        lines = lines.replaceAll('xmlns="http://openlyrics.info/namespace/2009/song"', "").replaceAll("<br/>", "\n").replaceAll("<br />", "\n")
-
-        return extractChordLines(lines)
-    }
-}
-
 function extractChordLines(lines: string) {
     // CHORDS
     const chords: Chords[][] = []
@@ -0,0 +1,261 @@
+// ----- FreeShow -----
+// OpenLyrics 0.9 song import (also used for OpenLP XML files)
+// https://docs.openlyrics.org/en/latest/dataformat.html
+
+import { get } from "svelte/store"
+import { uid } from "uid"
+import type { Chords, Item, Line, Slide, SlideData } from "../../types/Show"
+import { DEFAULT_ITEM_STYLE } from "../components/edit/scripts/itemHelpers"
+import { setQuickAccessMetadata } from "../components/helpers/setShow"
+import { checkName, getGlobalGroup } from "../components/helpers/show"
+import { activePopup, alertMessage, groups, templates } from "../stores"
+import { createDoubleTemplate } from "../utils/createData"
+import { translateText } from "../utils/language"
+import { ShowObj } from "./../classes/Show"
+import { createCategory, setTempShows } from "./importHelpers"
+
+interface OpenLyricsVerse {
+    name: string
+    lang: string
+    // each <lines> is a slide
+    slides: Line[][]
+}
+
+interface OpenLyricsSong {
+    title: string
+    authors: { type: string; name: string }[]
+    copyright: string
+    ccli: string
+    key: string
+    tempo: string
+    publisher: string
+    released: string
+    songbook: string
+    verseOrder: string[]
+    comments: string
+    created: string
+    modified: string
+    verses: OpenLyricsVerse[]
+}
+
+export function convertOpenLyrics(data: any) {
+    activePopup.set("alert")
+    alertMessage.set("popup.importing")
+
+    const categoryId = createCategory("OpenLyrics")
+
+    const tempShows: any[] = []
+
+    setTimeout(() => {
+        data?.forEach(({ content, name }: any) => {
+            const song = XMLtoSong(content)
+            if (!song) return
+
+            if (!song.title) song.title = name || ""
+            tempShows.push({ id: uid(), show: createOpenLyricsShow(song, categoryId) })
+        })
+
+        setTempShows(tempShows)
+    }, 10)
+}
+
+export function createOpenLyricsShow(song: OpenLyricsSong, categoryId: string) {
+    const layoutID = uid()
+    let show = new ShowObj(false, categoryId, layoutID)
+    show.origin = "openlyrics"
+    show.name = checkName(song.title)
+
+    const getAuthors = (type: string) =>
+        song.authors
+            .filter(a => a.type === type)
+            .map(a => a.name)
+            .join(", ")
+
+    const meta = {
+        number: song.songbook,
+        title: song.title,
+        artist: getAuthors(""),
+        author: getAuthors("words"),
+        composer: getAuthors("music"),
+        publisher: song.publisher,
+        copyright: song.copyright,
+        CCLI: song.ccli,
+        year: song.released,
+        key: song.key,
+        BPM: song.tempo
+    }
+    // only store the values that exist
+    show.meta = Object.fromEntries(Object.entries(meta).filter(([_key, value]) => value))
+    if (show.meta.number) show.quickAccess = { number: show.meta.number }
+    if (show.meta.CCLI) show = setQuickAccessMetadata(show, "CCLI", show.meta.CCLI)
+
+    const created = new Date(song.created).getTime()
+    const modified = new Date(song.modified).getTime()
+    show.timestamps = { created: created || new Date().getTime(), modified: modified || created || null, used: null }
+
+    const { slides, layout, hasTranslations } = createSlides(song)
+    show.slides = slides
+    show.layouts = { [layoutID]: { name: translateText("example.default"), notes: song.comments, slides: layout } }
+
+    if (hasTranslations) {
+        if (!get(templates).double) createDoubleTemplate()
+        show.settings.template = "double"
+    }
+
+    return show
+}
+
+// Verse, Chorus, Pre-Chorus, Bridge, Ending, Intro, Other
+const OLgroups: { [key: string]: string } = { v: "verse", c: "chorus", p: "pre_chorus", b: "bridge", e: "outro", i: "intro", o: "tag" }
+function createSlides(song: OpenLyricsSong) {
+    const slides: { [key: string]: Slide } = {}
+    let layout: SlideData[] = []
+    const ids: { [key: string]: string } = {}
+
+    // the first language is the main language, the rest are translations
+    const mainLanguage = song.verses[0]?.lang || ""
+    const hasTranslations = song.verses.some(a => a.lang !== mainLanguage)
+
+    song.verses.forEach(verse => {
+        if (verse.lang !== mainLanguage) return
+
+        const translations = song.verses.filter(a => a.name === verse.name && a.lang !== mainLanguage)
+
+        let parentId = ""
+        verse.slides.forEach((lines, i) => {
+            // translations are matched by the <lines> index, so empty slides are only skipped here
+            if (!lines.length) return
+
+            const id = uid()
+            const isChild = !!parentId
+
+            const items: Item[] = []
+            translations.forEach(translation => {
+                const translatedLines = translation.slides[i]
+                if (translatedLines?.length) items.push({ style: DEFAULT_ITEM_STYLE, language: translation.lang, lines: translatedLines })
+            })
+            items.push({ style: DEFAULT_ITEM_STYLE, lines })
+
+            slides[id] = { group: isChild ? null : "", color: null, settings: {}, notes: "", items }
+
+            if (isChild) {
+                if (!slides[parentId].children) slides[parentId].children = []
+                slides[parentId].children!.push(id)
+                return
+            }
+
+            parentId = id
+            ids[verse.name.toLowerCase()] = id
+            layout.push({ id })
+
+            const groupName = verse.name.replace(/[0-9]/g, "") || verse.name
+            const globalGroup = OLgroups[groupName.toLowerCase()] || getGlobalGroup(groupName)
+            if (get(groups)[globalGroup]) slides[id].globalGroup = globalGroup
+            else slides[id].group = groupName
+        })
+    })
+
+    if (song.verseOrder.length) {
+        const newLayout: SlideData[] = []
+        song.verseOrder.forEach(name => {
+            const id = ids[name.toLowerCase()] || ids[name.toLowerCase() + "1"]
+            if (id) newLayout.push({ id })
+        })
+        if (newLayout.length) layout = newLayout
+    }
+
+    return { slides, layout, hasTranslations }
+}
+
+// XML
+
+export function XMLtoSong(xml: string): OpenLyricsSong | null {
+    const parser = new DOMParser()
+    const song = parser.parseFromString(xml, "text/xml").getElementsByTagName("song")[0]
+    if (!song) return null
+
+    const properties = song.getElementsByTagName("properties")[0]
+    const getProperty = (tagName: string) => properties?.getElementsByTagName(tagName)[0]?.textContent?.trim() || ""
+
+    const authors = Array.from(properties?.getElementsByTagName("author") || []).map(author => ({ type: author.getAttribute("type") || "", name: author.textContent?.trim() || "" }))
+    const songbook = properties?.getElementsByTagName("songbook")[0]
+    const comments = Array.from(properties?.getElementsByTagName("comment") || []).map(comment => comment.textContent?.trim() || "")
+
+    const verses: OpenLyricsVerse[] = Array.from(song.getElementsByTagName("verse")).map(verse => {
+        const lang = (verse.getAttribute("lang") || "") + (verse.getAttribute("translit") ? "-" + verse.getAttribute("translit") : "")
+        const slides = Array.from(verse.getElementsByTagName("lines")).map(getLines)
+        return { name: verse.getAttribute("name") || "", lang, slides }
+    })
+
+    return {
+        title: getProperty("title"),
+        authors,
+        copyright: getProperty("copyright"),
+        ccli: getProperty("ccliNo"),
+        key: getProperty("key"),
+        tempo: getProperty("tempo"),
+        publisher: getProperty("publisher"),
+        released: getProperty("released"),
+        songbook: songbook?.getAttribute("entry") || "",
+        verseOrder: getProperty("verseOrder").split(" ").filter(Boolean),
+        comments: comments.join("\n"),
+        created: song.getAttribute("createdDate") || "",
+        modified: song.getAttribute("modifiedDate") || "",
+        verses
+    }
+}
+
+// <lines>Amazing <chord name="D"/>grace<br/>How sweet</lines>
+function getLines(element: Element) {
+    const lines: { text: string; chords: Chords[] }[] = [{ text: "", chords: [] }]
+
+    readNodes(element.childNodes)
+    function readNodes(nodes: NodeListOf<ChildNode>) {
+        nodes.forEach(node => {
+            const line = lines[lines.length - 1]
+
+            if (node.nodeType === Node.TEXT_NODE) {
+                line.text += (node.textContent || "").replace(/\s+/g, " ")
+                return
+            }
+            if (node.nodeType !== Node.ELEMENT_NODE) return
+
+            const tagName = (node as Element).tagName
+            if (tagName === "br") {
+                lines.push({ text: "", chords: [] })
+                return
+            }
+            if (tagName === "comment") return
+
+            if (tagName === "chord") {
+                const key = getChordKey(node as Element)
+                if (key) line.chords.push({ id: uid(5), pos: line.text.length, key })
+            }
+
+            // <chord> (0.9) and <tag> can contain text
+            readNodes(node.childNodes)
+        })
+    }
+
+    return lines
+        .map(({ text, chords }) => {
+            // remove indentation, and keep chords at the same letters
+            const indent = text.length - text.trimStart().length
+            const line: Line = { align: "", text: [{ style: "", value: text.trim() }] }
+            if (chords.length) line.chords = chords.map(chord => ({ ...chord, pos: Math.max(0, chord.pos - indent) }))
+            return line
+        })
+        .filter(line => line.text[0].value || line.chords?.length)
+}
+
+// <chord name="Dm7"/> (0.8) | <chord root="D" structure="m7" bass="F"/> (0.9)
+function getChordKey(chord: Element) {
+    const name = chord.getAttribute("name")
+    if (name) return name
+
+    const root = chord.getAttribute("root") || ""
+    if (!root) return ""
+
+    const bass = chord.getAttribute("bass")
+    return root + (chord.getAttribute("structure") || "") + (bass ? "/" + bass : "")
+}
@@ -734,15 +734,12 @@ function decodeRTF(text: string) {
     return text
 }
 
-function getColorValue(color: { red: number; green: number; blue: number; alpha: number }) {
+// color channels are 0-1 (zero values are not included in the decoded file)
+function getColorValue(color: { red?: number; green?: number; blue?: number; alpha?: number }) {
     if (!color) return ""
 
-    color = {
-        red: color.red || 255,
-        green: color.green || 255,
-        blue: color.blue || 255,
-        alpha: color.alpha || 1
-    }
-
-    return "rgb(" + [color.red.toFixed(2), color.green.toFixed(2), color.blue.toFixed(2)].join(" ") + " / " + color.alpha.toFixed(1) + ")"
+    const toChannel = (value = 0) => Math.round(Math.min(Math.max(value, 0), 1) * 255)
+    // shown as opaque if the alpha is missing
+    const alpha = Math.min(Math.max(color.alpha ?? 1, 0), 1)
+    return `rgb(${toChannel(color.red)} ${toChannel(color.green)} ${toChannel(color.blue)} / ${Number(alpha.toFixed(2))})`
 }
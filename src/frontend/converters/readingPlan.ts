@@ -0,0 +1,20 @@
+import { uid } from "uid"
+import { readingPlans } from "../stores"
+import { newToast } from "../utils/common"
+import { convertICS, convertPlanCSV } from "./readingPlanParser"
+
+export function convertReadingPlan(data: { content: string; name?: string; extension?: string }[]) {
+    data.forEach(({ content, name, extension }) => {
+        const plan = extension === "ics" ? convertICS(content) : convertPlanCSV(content)
+        if (!plan) {
+            newToast(`Could not find any readings in ${name || "file"}`)
+            return
+        }
+
+        plan.name = name || ""
+        readingPlans.update(a => {
+            a[uid()] = plan
+            return a
+        })
+    })
+}
@@ -0,0 +1,95 @@
+import type { ReadingPlan } from "../../types/Scripture"
+import { getDateKey } from "../components/helpers/time"
+import { parseCSVLine } from "./csvLine"
+import { convertToJSON, type IcalObject } from "./ical"
+
+// CSV: "2026-12-25,Isaiah 9:2-7;Psalm 96,Luke 2:1-20" (lectionary) or "1,Genesis 1;Matthew 1" (reading plan day)
+// ICS: each event has the readings of that date in the summary (or description)
+
+export function convertPlanCSV(content: string) {
+    const dates: { [key: string]: string[] } = {}
+    const days: string[][] = []
+
+    content.split(/\r?\n/).forEach(line => {
+        const [first, ...columns] = parseCSVLine(line).map((a: string) => a.trim())
+        if (!first) return
+
+        const references = columns.flatMap(splitReferences)
+        if (!references.length) return
+
+        // header rows are skipped, as they have no date/day
+        if (/^\d+$/.test(first)) {
+            days[Number(first) - 1] = references
+            return
+        }
+
+        const date = getDate(first)
+        if (date) dates[date] = [...(dates[date] || []), ...references]
+    })
+
+    return createPlan(dates, days)
+}
+
+export function convertICS(content: string) {
+    const dates: { [key: string]: string[] } = {}
+
+    const calendar = convertToJSON(content).VCALENDAR as IcalObject[] | undefined
+    const events = (calendar?.[0]?.VEVENT || []) as IcalObject[]
+    events.forEach(event => {
+        const startKey = Object.keys(event).find(key => key.startsWith("DTSTART")) || ""
+        // YYYYMMDD or YYYYMMDDTHHmmss
+        const start = unescapeText(event[startKey])
+        const date = getDate(`${start.slice(0, 4)}-${start.slice(4, 6)}-${start.slice(6, 8)}`)
+        if (!date) return
+
+        let references = splitReferences(unescapeText(event.SUMMARY))
+        if (!references.length) references = splitReferences(unescapeText(event.DESCRIPTION))
+        if (references.length) dates[date] = [...(dates[date] || []), ...references]
+    })
+
+    return createPlan(dates, [])
+}
+
+function createPlan(dates: { [key: string]: string[] }, days: string[][]) {
+    const plan: ReadingPlan = { name: "" }
+
+    if (Object.keys(dates).length) plan.dates = dates
+    if (days.length) {
+        plan.days = Array.from(days, references => references || [])
+        plan.startDate = getDateKey(new Date())
+    }
+
+    if (!plan.dates && !plan.days) return null
+    return plan
+}
+
+// "Proper 23: Job 23:1-9; Psalm 22:1-15" => ["Job 23:1-9", "Psalm 22:1-15"]
+// "Isaiah 9:2-7, Psalm 96, Luke 2:1-20" => ["Isaiah 9:2-7", "Psalm 96", "Luke 2:1-20"] (but "John 3:16, 18" is kept)
+// "Job 23 : 1 - 9" => "Job 23:1-9" (but the label in "Proper 23: 1 Kings 2" is kept)
+function splitReferences(value = "") {
+    return value
+        .replace(/(\d)\s*:\s*(?=\d+(?!\d)(?!\s*\p{L}))/gu, "$1:")
+        .replace(/(\d)\s*-\s*(?=\d)/g, "$1-")
+        .split(/[;\n]|,\s*(?=(?:[1-3]\s*)?\p{L})/u)
+        .map(reference => reference.slice(reference.lastIndexOf(": ") + 1).trim())
+        .filter(reference => /\d/.test(reference))
+}
+
+function unescapeText(value: IcalObject[string] | undefined) {
+    const text = Array.isArray(value) ? value[0] : value
+    if (typeof text !== "string") return ""
+    return text.replace(/\\n/gi, "\n").replace(/\\([;,\\])/g, "$1")
+}
+
+function getDate(value: string) {
+    if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+        const dateKey = value.slice(0, 10)
+        return isNaN(new Date(dateKey).getTime()) ? "" : dateKey
+    }
+
+    // only parse values that look like dates (e.g. 12/25/2026)
+    if (!/\d/.test(value) || !/[/.\-\s]/.test(value)) return ""
+
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? "" : getDateKey(date)
+}
@@ -11,12 +11,13 @@ import type { Effects } from "../types/Effects"
 import type { History, HistoryNew } from "../types/History"
 import type { ActiveEdit, Clipboard, Media, MediaOptions, NumberObject, OS, Popups, Profiles, Selected, SlidesOptions, Trigger, Variable } from "../types/Main"
 import type { Folders, Projects, ShowRef } from "../types/Projects"
+import type { ReadingPlan } from "../types/Scripture"
 import type { Dictionary, Styles, Themes } from "../types/Settings"
 import type { Action, Emitter, ID, Overlays, ShowGroups, ShowList, Shows, ShowType, SlideTimer, Tag, Templates, Timer, Transition, TrimmedShows } from "../types/Show"
 import type { ServerData } from "../types/Socket"
 import type { ActiveStage, StageLayouts } from "../types/Stage"
 import type { BibleCategories, Categories, DrawerTabs, SettingsTabs, TopViews } from "../types/Tabs"
-import type { AudioChannel, AudioChannelData, AudioStream, Playlist } from "./../types/Audio"
+import type { AudioBus, AudioChannel, AudioChannelData, AudioDuckingRule, AudioStream, Playlist } from "./../types/Audio"
 import type { Outputs } from "./../types/Output"
 import type { DrawerTabIds } from "./../types/Tabs"
 import { type EQBand, type EqualizerConfig } from "./audio/audioEqualizer"
@@ -41,7 +42,7 @@ export const windowState: Writable<any> = writable({})
 // ACTIVE
 export const selected: Writable<Selected> = writable({ id: null, data: [] })
 export const clipboard: Writable<Clipboard> = writable({ id: null, data: [] })
-export const connections: Writable<{ [key: string]: { [key: string]: { entered?: boolean; active?: string } } }> = writable({})
+export const connections: Writable<{ [key: string]: { [key: string]: { entered?: boolean; active?: string; profile?: string; name?: string; device?: string } } }> = writable({})
 export const activePopup: Writable<null | Popups> = writable(null)
 export const activePage: Writable<TopViews> = writable("show")
 export const contextActive: Writable<boolean> = writable(false)
@@ -73,6 +74,7 @@ export const activeTriggerFunction: Writable<string> = writable("")
 export const guideActive: Writable<boolean> = writable(false)
 export const runningActions: Writable<string[]> = writable([])
 export const activeSlideRecording: Writable<any> = writable(null)
+export const activeTimecode: Writable<{ time: number; fps: number; source: string } | null> = writable(null)
 export const scriptureMode: Writable<"grid" | "list"> = writable("list")
 export const providerConnections: Writable<{ [key in ContentProviderId]?: boolean }> = writable({})
 export const metronomeTimer: Writable<{ beat: number; timeToNext: number }> = writable({ beat: 0, timeToNext: 0 })
@@ -91,6 +93,7 @@ export const nextActionEventPaused: Writable<boolean> = writable(false)
 
 // AUDIO
 export const audioChannels: Writable<AudioChannel[]> = writable([])
+export const audioDuckingReduction: Writable<{ [key: string]: number }> = writable({})
 export const playingAudio: Writable<{ [key: string]: AudioData }> = writable({})
 export const playingAudioPaths: Writable<string[]> = writable([])
 export const playingVideos: Writable<any[]> = writable([])
@@ -153,6 +156,7 @@ export const storedEditMenuState: Writable<any> = writable({})
 export const copyPasteEdit: Writable<any> = writable({})
 export const textEditActive: Writable<boolean> = writable(false)
 export const textEditZoom: Writable<number> = writable(10)
+export const translationReview: Writable<string> = writable("") // language code
 export const spellcheck: Writable<{ misspelled: string; suggestions: string[] } | null> = writable(null)
 
 // OTHER
@@ -236,6 +240,8 @@ export const audioPlaylists: Writable<{ [key: string]: Playlist }> = writable({}
 export const volume: Writable<number> = writable(1) // 1
 export const gain: Writable<number> = writable(1) // 1
 export const audioChannelsData: Writable<{ [key: string]: AudioChannelData }> = writable({}) // {}
+export const audioBuses: Writable<{ [key: string]: AudioBus }> = writable({}) // {}
+export const audioDucking: Writable<{ [key: string]: AudioDuckingRule }> = writable({}) // {}
 export const metronome: Writable<API_metronome> = writable({}) // {}
 export const effectsLibrary: Writable<{ path: string; name: string }[]> = writable([]) // []
 export const equalizerConfig = writable<EqualizerConfig>({ enabled: false, bands: [] })
@@ -262,6 +268,7 @@ export const stageShows: Writable<StageLayouts> = writable({}) // {default}
 export const scriptures: Writable<{ [key: string]: BibleCategories }> = writable({}) // {default}
 export const scripturesCache: Writable<{ [key: string]: Bible }> = writable({}) // {}
 export const scriptureSettings: Writable<any> = writable({ template: "scripture", versesPerSlide: 3, verseNumbers: false, showVersion: false, showVerse: true, referenceDivider: ":" }) // {default}
+export const readingPlans: Writable<{ [key: string]: ReadingPlan }> = writable({}) // {}
 
 // DRAWER
 export const drawerTabsData: Writable<DrawerTabs> = writable({}) // {default}
@@ -399,6 +406,7 @@ export const $ = {
     scriptures,
     scripturesCache,
     scriptureSettings,
+    readingPlans,
     drawerTabsData,
     drawer,
     mediaOptions,
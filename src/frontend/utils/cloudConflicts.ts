@@ -0,0 +1,38 @@
+import { uid } from "uid"
+import type { CloudConflict, CloudConflictChoice } from "../../types/Main"
+import type { Show } from "../../types/Show"
+
+// no store imports, so the conflict choices can be tested without the app
+
+// apply the chosen version of a conflicting slide/layout to the merged show
+export function applyShowConflict(show: Show, conflict: CloudConflict, choice: CloudConflictChoice) {
+    if (choice === "mine") return
+
+    const key = conflict.itemType === "slide" ? "slides" : "layouts"
+    const keepBoth = choice === "both" && conflict.local && conflict.cloud
+
+    if (!keepBoth) {
+        if (conflict.cloud) show[key][conflict.itemId] = clone(conflict.cloud)
+        else delete show[key][conflict.itemId]
+    } else if (conflict.itemType === "layout") {
+        show.layouts[uid()] = { ...clone(conflict.cloud), name: `${conflict.cloud.name || ""} (2)` }
+    } else {
+        // add their slide after mine in all layouts
+        const slideId = uid()
+        show.slides[slideId] = clone(conflict.cloud)
+        Object.values(show.layouts).forEach(layout => {
+            const index = layout.slides.findIndex(ref => ref.id === conflict.itemId)
+            if (index > -1) layout.slides.splice(index + 1, 0, { id: slideId })
+        })
+    }
+
+    // their version might have deleted the active layout
+    const layoutIds = Object.keys(show.layouts)
+    if (layoutIds.length && !show.layouts[show.settings.activeLayout]) show.settings.activeLayout = layoutIds[0]
+
+    show.timestamps.modified = Date.now()
+}
+
+function clone<T>(object: T): T {
+    return JSON.parse(JSON.stringify(object))
+}
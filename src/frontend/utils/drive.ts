@@ -1,8 +1,14 @@
 import { get } from "svelte/store"
 import { uid } from "uid"
 import { CLOUD } from "../../types/Channels"
-import type { DriveData } from "../../types/Main"
-import { activePopup, dataPath, driveData, driveKeys, popupData, showsPath } from "../stores"
+import { Main } from "../../types/IPC/Main"
+import type { CloudBackendId, CloudBackendsConfig, CloudConflict, CloudConflictChoice, CloudSecretBackend, DriveData } from "../../types/Main"
+import type { Project } from "../../types/Projects"
+import { clone } from "../components/helpers/array"
+import { loadShows } from "../components/helpers/setShow"
+import { requestMain } from "../IPC/main"
+import { activePopup, dataPath, driveData, driveKeys, popupData, projects, showsCache, showsPath } from "../stores"
+import { applyShowConflict } from "./cloudConflicts"
 import { newToast } from "./common"
 import { send } from "./request"
 import { save } from "./save"
@@ -32,15 +38,62 @@ export function validateKeys(file: string) {
     save()
 }
 
-export function driveConnect(keys: any) {
-    if (typeof keys !== "object" || !Object.keys(keys).length) return
+export function isCloudConfigured(data = get(driveData), keys = get(driveKeys)) {
+    const backend: CloudBackendId = data.backend || "google_drive"
+    const config: CloudBackendsConfig = data.backends || {}
+
+    if (backend === "webdav") return !!config.webdav?.url
+    if (backend === "s3") return !!(config.s3?.bucket && config.s3.accessKeyId && config.s3.secretUpdated)
+    if (backend === "folder") return !!config.folder?.path
+    return typeof keys === "object" && !!Object.keys(keys).length
+}
+
+// reconnect when the keys or the sync method changes
+let previousConnection = ""
+export function driveConnect() {
+    const backend: CloudBackendId = get(driveData).backend || "google_drive"
+    const config: CloudBackendsConfig = get(driveData).backends || {}
+
+    const connection = isCloudConfigured() ? JSON.stringify([backend, backend === "google_drive" ? get(driveKeys) : config[backend]]) : ""
+    if (connection === previousConnection) return
+    previousConnection = connection
+    if (!connection) return
 
     // give time for the keys file to save
     setTimeout(() => {
-        send(CLOUD, ["DRIVE_CONNECT"])
+        send(CLOUD, ["DRIVE_CONNECT"], { backend, config })
     }, 100)
 }
 
+export function setCloudBackend(backend: CloudBackendId) {
+    driveData.update((a) => {
+        a.backend = backend
+        // the folders are different
+        a.mainFolderId = null
+        a.initializeMethod = null
+        return a
+    })
+}
+
+export function updateCloudBackendConfig(backend: Exclude<CloudBackendId, "google_drive">, key: string, value: string | number) {
+    driveData.update((a) => {
+        if (!a.backends) a.backends = {}
+        a.backends[backend] = { ...(a.backends[backend] || {}), [key]: value }
+
+        a.mainFolderId = null
+        a.initializeMethod = null
+        return a
+    })
+}
+
+// the secret is only stored in the main process
+export async function updateCloudSecret(backend: CloudSecretBackend, value: string) {
+    const saved = await requestMain(Main.CLOUD_SECRET, { backend, value })
+    if (value && !saved) newToast("cloud.secret_not_encrypted")
+    // reconnect with the new secret
+    updateCloudBackendConfig(backend, "secretUpdated", saved ? Date.now() : 0)
+}
+
 // force = manual sync OR first sync
 export function syncDrive(force = false, closeWhenFinished = false, startup = false) {
     const autoSyncDisabled = get(driveData).disabled === true
@@ -59,3 +112,57 @@ export function syncDrive(force = false, closeWhenFinished = false, startup = fa
 
     newToast("cloud.syncing")
 }
+
+// CONFLICTS
+
+// the local version is kept when syncing, so only "theirs" & "both" has to be applied
+export async function resolveCloudConflicts(conflicts: CloudConflict[], choices: { [key: string]: CloudConflictChoice }) {
+    const showIds = [...new Set(conflicts.filter((a) => a.type === "show").map((a) => a.parentId))]
+    // the cached shows might be older than the merged shows
+    showsCache.update((a) => {
+        showIds.forEach((id) => delete a[id])
+        return a
+    })
+    await loadShows(showIds)
+
+    conflicts.forEach((conflict) => {
+        const choice = choices[conflict.id] || "mine"
+        if (choice === "mine") return
+
+        if (conflict.type === "show") resolveShowConflict(conflict, choice)
+        else resolveProjectConflict(conflict, choice)
+    })
+
+    save()
+}
+
+function resolveShowConflict(conflict: CloudConflict, choice: CloudConflictChoice) {
+    showsCache.update((a) => {
+        const show = a[conflict.parentId]
+        if (!show) return a
+
+        applyShowConflict(show, conflict, choice)
+        return a
+    })
+}
+
+// project items are identified as "showId:occurrence"
+function resolveProjectConflict(conflict: CloudConflict, choice: CloudConflictChoice) {
+    projects.update((a) => {
+        const project: Project = a[conflict.parentId]
+        if (!project) return a
+
+        const [showId, occurrence] = conflict.itemId.split(":")
+        const index = project.shows.findIndex((item, i) => item.id === showId && project.shows.slice(0, i + 1).filter((b) => b.id === showId).length === Number(occurrence))
+
+        if (index < 0) {
+            if (conflict.cloud) project.shows.push(clone(conflict.cloud))
+        } else if (choice === "both") {
+            if (conflict.cloud) project.shows.splice(index + 1, 0, clone(conflict.cloud))
+        } else if (conflict.cloud) project.shows[index] = clone(conflict.cloud)
+        else project.shows.splice(index, 1)
+
+        project.modified = Date.now()
+        return a
+    })
+}
@@ -4,6 +4,7 @@ import { AudioPlayer } from "../audio/audioPlayer"
 import { midiInListen } from "../components/actions/midi"
 import { getActiveOutputs } from "../components/helpers/output"
 import { loadShows } from "../components/helpers/setShow"
+import { timecodeInputListen } from "../components/helpers/slideRecording"
 import { getShowCacheId, updateCachedShow, updateCachedShows, updateShowsList } from "../components/helpers/show"
 import {
     $,
@@ -13,6 +14,7 @@ import {
     activeShow,
     activeTimers,
     audioChannelsData,
+    audioBuses,
     audioData,
     cachedShowsData,
     colorbars,
@@ -20,6 +22,7 @@ import {
     draw,
     drawSettings,
     drawTool,
+    driveData,
     driveKeys,
     effects,
     equalizerConfig,
@@ -54,7 +57,7 @@ import {
 } from "../stores"
 import { hasNewerUpdate } from "./common"
 import { driveConnect } from "./drive"
-import { convertBackgrounds } from "./remoteTalk"
+import { convertBackgrounds, sendOutputToRemotes } from "./remoteTalk"
 import { send } from "./request"
 import { arrayToObject, eachConnection, filterObjectArray, sendData, timedout } from "./sendData"
 
@@ -160,10 +163,7 @@ export function storeSubscriber() {
         send(OUTPUT, ["ALL_OUTPUTS"], data)
 
         // let it update properly
-        setTimeout(() => {
-            sendData(REMOTE, { channel: "OUT" })
-            sendData(REMOTE, { channel: "OUT_DATA" })
-        })
+        setTimeout(() => sendOutputToRemotes())
 
         // STAGE
         sendData(STAGE, { channel: "OUT" })
@@ -269,6 +269,8 @@ export function storeSubscriber() {
 
     special.subscribe((data) => {
         send(OUTPUT, ["SPECIAL"], data)
+
+        timecodeInputListen(data.timecodeSource, data.timecodeInput)
     })
 
     volume.subscribe((data) => {
@@ -280,6 +282,9 @@ export function storeSubscriber() {
     audioChannelsData.subscribe((data) => {
         send(OUTPUT, ["AUDIO_CHANNELS_DATA"], data)
     })
+    audioBuses.subscribe((data) => {
+        send(OUTPUT, ["AUDIO_BUSES"], data)
+    })
 
     equalizerConfig.subscribe((data) => {
         send(OUTPUT, ["EQUALIZER_CONFIG"], data)
@@ -357,6 +362,7 @@ export function storeSubscriber() {
     })
 
     driveKeys.subscribe(driveConnect)
+    driveData.subscribe(driveConnect)
 
     refreshSlideThumbnails.subscribe(() => {
         setTimeout(() => {
@@ -0,0 +1,88 @@
+import { AudioAnalyser } from "../audio/audioAnalyser"
+import { Main } from "../../types/IPC/Main"
+import { requestMain, sendMain } from "../IPC/main"
+
+// encodes outputs to fragmented MP4 for the HLS output stream (the server splits it into segments)
+
+// H.264 & AAC plays in most HLS players
+const MIME_TYPES = ['video/mp4;codecs="avc1.42E01F,mp4a.40.2"', 'video/mp4;codecs="avc1.42E01F,opus"', "video/mp4"]
+// the server starts a new segment at each key frame
+const SEGMENT_DURATION = 2000 // ms
+
+const encoders: { [key: string]: { recorder: MediaRecorder; timer: NodeJS.Timeout } } = {}
+
+export function startOutputStreamEncoder(outputId: string, framerate: number) {
+    if (encoders[outputId]) return
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    if (!mimeType) {
+        sendMain(Main.OUTPUT_STREAM_DATA, { outputId, error: "MP4 encoding is not supported" })
+        return
+    }
+
+    const canvas = document.createElement("canvas")
+    const ctx = canvas.getContext("2d")!
+
+    const stream = canvas.captureStream(framerate)
+    AudioAnalyser.getStream()
+        .getAudioTracks()
+        .forEach(track => stream.addTrack(track))
+
+    const options = { mimeType, videoBitsPerSecond: 4000000, audioBitsPerSecond: 128000, videoKeyFrameIntervalDuration: SEGMENT_DURATION }
+    const recorder = new MediaRecorder(stream, options as MediaRecorderOptions)
+    recorder.addEventListener("dataavailable", async ev => {
+        const buffer = new Uint8Array(await ev.data.arrayBuffer())
+        if (buffer.length) sendMain(Main.OUTPUT_STREAM_DATA, { outputId, buffer })
+    })
+    recorder.addEventListener("error", () => {
+        sendMain(Main.OUTPUT_STREAM_DATA, { outputId, error: "Could not encode the output" })
+        stopOutputStreamEncoder(outputId)
+    })
+
+    let loading = false
+    const timer = setInterval(
+        async () => {
+            if (loading) return
+            loading = true
+
+            try {
+                const jpeg = await requestMain(Main.OUTPUT_STREAM_FRAME, { outputId })
+                // an empty frame can't be decoded
+                if (!jpeg?.length || !encoders[outputId]) return
+
+                await drawFrame(jpeg)
+            } catch (err) {
+                console.error("Could not draw the output stream frame:", err)
+            } finally {
+                loading = false
+            }
+        },
+        Math.round(1000 / framerate)
+    )
+
+    encoders[outputId] = { recorder, timer }
+
+    async function drawFrame(jpeg: Uint8Array) {
+        const image = await createImageBitmap(new Blob([jpeg], { type: "image/jpeg" }))
+
+        // the size can't change while recording, so it's started with the first frame
+        if (recorder.state === "inactive") {
+            canvas.width = image.width
+            canvas.height = image.height
+            // the fragments don't follow the key frames, so the server has to find them
+            recorder.start(SEGMENT_DURATION / 4)
+        }
+
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+        image.close()
+    }
+}
+
+export function stopOutputStreamEncoder(outputId: string) {
+    const encoder = encoders[outputId]
+    if (!encoder) return
+
+    clearInterval(encoder.timer)
+    if (encoder.recorder.state !== "inactive") encoder.recorder.stop()
+    delete encoders[outputId]
+}
@@ -4,9 +4,11 @@ import type { Popups } from "../../types/Main"
 import About from "../components/main/popups/About.svelte"
 import Action from "../components/main/popups/Action.svelte"
 import ActionHistory from "../components/main/popups/ActionHistory.svelte"
+import ApiKeys from "../components/main/popups/ApiKeys.svelte"
 import Alert from "../components/main/popups/Alert.svelte"
 import Animate from "../components/main/popups/Animate.svelte"
 import AspectRatio from "../components/main/popups/AspectRatio.svelte"
+import AudioDucking from "../components/main/popups/AudioDucking.svelte"
 import AudioStream from "../components/main/popups/AudioStream.svelte"
 import CategoryAction from "../components/main/popups/CategoryAction.svelte"
 import ChangeIcon from "../components/main/popups/ChangeIcon.svelte"
@@ -17,6 +19,8 @@ import ChooseOutput from "../components/main/popups/ChooseOutput.svelte"
 import ChooseScreen from "../components/main/popups/ChooseScreen.svelte"
 import ChooseStyle from "../components/main/popups/ChooseStyle.svelte"
 import ChumsSyncCategories from "../components/main/popups/ChumsSyncCategories.svelte"
+import CloudConflicts from "../components/main/popups/CloudConflicts.svelte"
+import ConnectedDevices from "../components/main/popups/ConnectedDevices.svelte"
 import CloudMethod from "../components/main/popups/CloudMethod.svelte"
 import CloudUpdate from "../components/main/popups/CloudUpdate.svelte"
 import Color from "../components/main/popups/Color.svelte"
@@ -54,6 +58,7 @@ import MediaFit from "../components/main/popups/MediaFit.svelte"
 import MetadataDisplay from "../components/main/popups/MetadataDisplay.svelte"
 import NextTimer from "../components/main/popups/NextTimer.svelte"
 import Rename from "../components/main/popups/Rename.svelte"
+import ReadingPlans from "../components/main/popups/ReadingPlans.svelte"
 import ResetAll from "../components/main/popups/ResetAll.svelte"
 import ScriptureShow from "../components/main/popups/ScriptureShow.svelte"
 import SelectShow from "../components/main/popups/SelectShow.svelte"
@@ -104,6 +109,7 @@ export const popups: { [key in Popups]: ComponentType } = {
     variable: Variable,
     trigger: Trigger,
     audio_stream: AudioStream,
+    audio_ducking: AudioDucking,
     aspect_ratio: AspectRatio,
     max_lines: MaxLines,
     transition: Transition,
@@ -112,6 +118,7 @@ export const popups: { [key in Popups]: ComponentType } = {
     import_scripture: ImportScripture,
     create_collection: CreateCollection,
     scripture_show: ScriptureShow,
+    reading_plans: ReadingPlans,
     edit_event: EditEvent,
     choose_screen: ChooseScreen,
     choose_output: ChooseOutput,
@@ -140,8 +147,11 @@ export const popups: { [key in Popups]: ComponentType } = {
     slide_midi: SlideMidi,
     user_data_overwrite: UserDataOverwrite,
     connect: Connect,
+    api_keys: ApiKeys,
     cloud_update: CloudUpdate,
     cloud_method: CloudMethod,
+    cloud_conflicts: CloudConflicts,
+    connected_devices: ConnectedDevices,
     chums_sync_categories: ChumsSyncCategories,
     effect_items: EffectItems
 }
@@ -1,6 +1,45 @@
 import { get } from "svelte/store"
-import { activeProfile, profiles } from "../stores"
+import { Main } from "../../types/IPC/Main"
+import type { AccessType } from "../../types/Main"
+import { requestMain } from "../IPC/main"
+import { activeProfile, profiles, remotePassword } from "../stores"
 
 export function getAccess(id: string) {
     return get(activeProfile) ? get(profiles)[get(activeProfile)!]?.access[id] || {} : {}
 }
+
+export function getProfileAccess(profileId: string, id: string) {
+    return get(profiles)[profileId]?.access[id] || {}
+}
+
+// the global level limits the specific levels
+export function getAccessLevel(access: { [key: string]: AccessType }, id: string): AccessType {
+    const currentLocalLevel = access[id] || "write"
+    const currentGlobalLevel = access.global || "write"
+
+    if (currentGlobalLevel === "write") return currentLocalLevel
+    if (currentGlobalLevel === "read" && currentLocalLevel === "write") return "read"
+    if (currentGlobalLevel === "none") return "none"
+    return currentLocalLevel
+}
+
+// REMOTE PASSWORDS
+
+// profile passwords are stored as salted hashes, and are checked in the main process
+export async function getRemotePasswordProfile(password: string, exceptProfileId = "") {
+    if (!password) return ""
+
+    const hashes: { [key: string]: string } = {}
+    Object.entries(get(profiles)).forEach(([id, profile]) => {
+        if (id !== exceptProfileId && profile.remotePassword) hashes[id] = profile.remotePassword
+    })
+    if (!Object.keys(hashes).length) return ""
+
+    return await requestMain(Main.MATCH_PASSWORD, { password, hashes })
+}
+
+// each password can only give one access (profileId is empty for the global password)
+export async function isRemotePasswordUsed(password: string, profileId = "") {
+    if (profileId && password === get(remotePassword)) return true
+    return !!(await getRemotePasswordProfile(password, profileId))
+}
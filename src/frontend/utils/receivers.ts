@@ -17,6 +17,7 @@ import {
     alertMessage,
     allOutputs,
     audioChannelsData,
+    audioBuses,
     audioData,
     closeAd,
     colorbars,
@@ -314,6 +315,7 @@ export const receiveOUTPUTasOUTPUT: any = {
     VOLUME: (a: any) => volume.set(a),
     GAIN: (a: any) => gain.set(a),
     AUDIO_CHANNELS_DATA: (a: any) => audioChannelsData.set(a),
+    AUDIO_BUSES: (a: any) => audioBuses.set(a),
 
     EQUALIZER_CONFIG: (a: any) => {
         equalizerConfig.set(a)
@@ -400,7 +402,7 @@ const receiveCLOUD = {
 
         syncDrive(true)
     },
-    SYNC_DATA: ({ changes, closeWhenFinished }) => {
+    SYNC_DATA: ({ changes, conflicts, mergedShows, closeWhenFinished }) => {
         if (changes.error) {
             newToast(changes.error)
             if (!closeWhenFinished) return
@@ -420,7 +422,7 @@ const receiveCLOUD = {
             return a
         })
 
-        if (!changes.length) {
+        if (!changes.length && !conflicts?.length) {
             newToast("cloud.sync_complete")
 
             if (get(activePopup) !== "cloud_update") return
@@ -431,13 +433,20 @@ const receiveCLOUD = {
             return
         }
 
-        // reload shows cache (because there could be some changes)
-        showsCache.set({})
+        // reload shows cache (because there could be some changes), merged shows are already loaded
+        showsCache.set(clone(mergedShows || {}))
         activeShow.set(null)
 
         // show completed toast
         newToast("cloud.sync_complete")
 
+        // changes made on both computers that could not be merged
+        if (conflicts?.length) {
+            popupData.set({ conflicts })
+            activePopup.set("cloud_conflicts")
+            return
+        }
+
         // show popup if manually syncing
         if (get(activePopup) === "cloud_update") {
             popupData.set(changes)
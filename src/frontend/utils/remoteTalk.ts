@@ -11,21 +11,22 @@ import { updateOut } from "../components/helpers/showActions"
 import { _show } from "../components/helpers/shows"
 import { clearAll } from "../components/output/clear"
 import { REMOTE } from "./../../types/Channels"
-import { activeProject, connections, dictionary, driveData, folders, language, openedFolders, outLocked, outputs, overlays, projects, remotePassword, scriptures, shows, showsCache, styles } from "./../stores"
+import { activeProject, connections, dictionary, driveData, folders, language, openedFolders, outLocked, outputs, overlays, profiles, projects, remotePassword, scriptures, shows, showsCache, styles } from "./../stores"
 import { translateText } from "./language"
+import { getRemotePasswordProfile } from "./profile"
 import { send } from "./request"
-import { sendData, setConnectedState } from "./sendData"
+import { getDeviceSettings, sendData, setConnectedState } from "./sendData"
 import { loadJsonBible } from "../components/drawer/bible/scripture"
 
 // REMOTE
 
-let currentOut = ""
+const currentOut: { [key: string]: string } = {}
 let loadingShow = ""
 export const receiveREMOTE: any = {
     PASSWORD: (msg: any) => {
         msg.data = {
             dictionary: get(dictionary),
-            password: !!get(remotePassword).length
+            password: !!get(remotePassword).length || hasProfilePasswords()
         }
         if (msg.data.password) return msg
 
@@ -37,8 +38,11 @@ export const receiveREMOTE: any = {
 
         return msg
     },
-    ACCESS: (msg: any) => {
-        if (get(remotePassword).length && msg.data !== get(remotePassword)) return { id: msg.id, channel: "ERROR", data: "wrongPass" }
+    ACCESS: async (msg: any) => {
+        // connect with the profile that has this password
+        const profileId = await getRemotePasswordProfile(typeof msg.data === "string" ? msg.data : "")
+        if (profileId) setConnectedState("REMOTE", msg.id, "profile", profileId)
+        else if (!isGlobalPassword(msg.data)) return { id: msg.id, channel: "ERROR", data: "wrongPass" }
 
         send(REMOTE, ["LANGUAGE"], { lang: get(language), strings: get(dictionary) })
 
@@ -81,9 +85,11 @@ export const receiveREMOTE: any = {
         if (get(outLocked)) return
         // set id because convertBackgrounds might use a long time
         const currentId = uid(5)
-        currentOut = currentId
+        currentOut[msg.id || ""] = currentId
 
-        const currentOutput: any = get(outputs)[getActiveOutputs()[0]]
+        const currentOutput: any = get(outputs)[getRemoteOutputId(msg.id)]
+        // bound devices only change their own output
+        const boundOutputId = getBoundOutputId(msg.id)
         const out: any = currentOutput?.out?.slide || null
         let id = ""
 
@@ -97,8 +103,8 @@ export const receiveREMOTE: any = {
             const layout = getLayoutRef(id)
             if (msg.data.index < layout.length && msg.data.index >= 0) {
                 if (!msg.data.layout) msg.data.layout = _show(id).get("settings.activeLayout")
-                updateOut(msg.data.id, msg.data.index, _show(msg.data.id).layouts([msg.data.layout]).ref()[0])
-                setOutput("slide", msg.data)
+                updateOut(msg.data.id, msg.data.index, _show(msg.data.id).layouts([msg.data.layout]).ref()[0], true, boundOutputId)
+                setOutput("slide", msg.data, false, boundOutputId)
             }
 
             return
@@ -108,7 +114,7 @@ export const receiveREMOTE: any = {
             const layout = getLayoutRef(id)
             if (msg.data < layout.length && msg.data >= 0) {
                 const newOutSlide: any = { ...out, index: msg.data }
-                setOutput("slide", newOutSlide)
+                setOutput("slide", newOutSlide, false, boundOutputId)
             }
             msg.data = null
         } else if (out?.id === "temp") {
@@ -124,7 +130,7 @@ export const receiveREMOTE: any = {
                 msg.data.show.id = id
             }
 
-            if (currentOut !== currentId) return
+            if (currentOut[msg.id || ""] !== currentId) return
         }
         if (id.length && msg.id) {
             setConnectedState("REMOTE", msg.id, "active", id)
@@ -133,7 +139,7 @@ export const receiveREMOTE: any = {
         return msg
     },
     OUT_DATA: (msg: any) => {
-        const currentOutput = get(outputs)[getActiveOutputs()[0]]
+        const currentOutput = get(outputs)[getRemoteOutputId(msg.id)]
         const out = currentOutput?.out || {}
         msg.data = out
 
@@ -205,6 +211,43 @@ export const receiveREMOTE: any = {
 
 let oldOutSlide = ""
 
+// the output the device is bound to, or the first active output
+function getRemoteOutputId(connectionId: string | undefined) {
+    return getBoundOutputId(connectionId) || getActiveOutputs()[0]
+}
+
+function getBoundOutputId(connectionId: string | undefined) {
+    const outputId = connectionId ? getDeviceSettings(REMOTE, connectionId).outputId : ""
+    return outputId && get(outputs)[outputId] ? outputId : ""
+}
+
+export function sendOutputToRemotes() {
+    const connectionIds = Object.keys(get(connections).REMOTE || {})
+    const hasBoundDevices = connectionIds.some((id) => getDeviceSettings(REMOTE, id).outputId)
+
+    if (!hasBoundDevices) {
+        sendData(REMOTE, { channel: "OUT" })
+        sendData(REMOTE, { channel: "OUT_DATA" })
+        return
+    }
+
+    connectionIds.forEach((id) => {
+        sendData(REMOTE, { id, channel: "OUT" })
+        sendData(REMOTE, { id, channel: "OUT_DATA" })
+    })
+}
+
+function hasProfilePasswords() {
+    return Object.values(get(profiles)).some((profile) => profile.remotePassword)
+}
+
+// without a global password, only the profile passwords give access (if any are set)
+function isGlobalPassword(password: string) {
+    const globalPassword = get(remotePassword)
+    if (!globalPassword.length) return !hasProfilePasswords()
+    return password === globalPassword
+}
+
 export async function initializeRemote(id: string) {
     // Send access confirmation to remote client
     window.api.send(REMOTE, { id, channel: "ACCESS", data: null })
@@ -215,7 +258,7 @@ export async function initializeRemote(id: string) {
     send(REMOTE, ["PROJECT"], get(activeProject))
 
     // Get current output state
-    const currentOutput: any = get(outputs)[getActiveOutputs()[0]]
+    const currentOutput: any = get(outputs)[getRemoteOutputId(id)]
     const styleRes = currentOutput?.style ?
         get(styles)[currentOutput?.style]?.aspectRatio || get(styles)[currentOutput?.style]?.resolution :
         null
@@ -12,6 +12,8 @@ import {
     activeProject,
     alertUpdates,
     audioChannelsData,
+    audioBuses,
+    audioDucking,
     audioFolders,
     audioPlaylists,
     autoOutput,
@@ -67,6 +69,7 @@ import {
     renamedShows,
     resized,
     saved,
+    readingPlans,
     scriptureSettings,
     scriptures,
     scripturesCache,
@@ -99,7 +102,7 @@ import {
 import type { SaveActions, SaveData, SaveList, SaveListSettings, SaveListSyncedSettings } from "./../../types/Save"
 import { audioStreams, companion } from "./../stores"
 import { newToast } from "./common"
-import { syncDrive } from "./drive"
+import { isCloudConfigured, syncDrive } from "./drive"
 
 export function save(closeWhenFinished = false, customTriggers: SaveActions = {}) {
     console.info("SAVING...")
@@ -148,6 +151,8 @@ export function save(closeWhenFinished = false, customTriggers: SaveActions = {}
         volume: get(volume),
         gain: get(gain),
         audioChannelsData: get(audioChannelsData),
+        audioBuses: get(audioBuses),
+        audioDucking: get(audioDucking),
         driveData: get(driveData),
         calendarAddShow: get(calendarAddShow),
         metronome: get(metronome),
@@ -166,6 +171,7 @@ export function save(closeWhenFinished = false, customTriggers: SaveActions = {}
         overlayCategories: get(overlayCategories),
         scriptures: get(scriptures),
         scriptureSettings: get(scriptureSettings),
+        readingPlans: get(readingPlans),
         templateCategories: get(templateCategories),
         styles: get(styles),
         profiles: get(profiles),
@@ -238,7 +244,7 @@ export function saveComplete({ closeWhenFinished, customTriggers }: { closeWhenF
     if (customTriggers?.backup || customTriggers?.changeUserData) return
 
     const mainFolderId = get(driveData)?.mainFolderId
-    if (!mainFolderId || get(driveData)?.disabled === true || !Object.keys(get(driveKeys)).length) {
+    if (!mainFolderId || get(driveData)?.disabled === true || !isCloudConfigured()) {
         if (closeWhenFinished) closeApp()
 
         return
@@ -364,6 +370,7 @@ const saveList: { [key in SaveList]: any } = {
     resized: null,
     scriptures,
     scriptureSettings,
+    readingPlans,
     slidesOptions,
     splitLines,
     templateCategories,
@@ -379,6 +386,8 @@ const saveList: { [key in SaveList]: any } = {
     volume: null,
     gain: null,
     audioChannelsData,
+    audioBuses,
+    audioDucking,
     midiIn: actions,
     emitters,
     videoMarkers,
@@ -1,9 +1,12 @@
 import { get } from "svelte/store"
-import { CONTROLLER, REMOTE, STAGE } from "../../types/Channels"
-import type { ClientMessage, Clients } from "../../types/Socket"
+import { CONTROLLER, OUTPUT_STREAM, REMOTE, STAGE } from "../../types/Channels"
+import { Main } from "../../types/IPC/Main"
+import type { ClientMessage, Clients, DeviceRole, ServerData, ServerDevice } from "../../types/Socket"
 import { API_ACTIONS } from "../components/actions/api"
+import { checkClientAccess } from "../components/actions/apiAccess"
 import { checkWindowCapture } from "../components/helpers/output"
-import { connections, currentWindow, shows } from "../stores"
+import { sendMain } from "../IPC/main"
+import { connections, currentWindow, outputs, serverData, shows } from "../stores"
 import { receiveCONTROLLER } from "./controllerTalk"
 import { receiveREMOTE } from "./remoteTalk"
 import { receiveSTAGE } from "./stageTalk"
@@ -25,7 +28,10 @@ export function client(id: Clients, msg: ClientMessage) {
     if (msg.channel === "CONNECTION") {
         connections.update((c: any) => {
             if (!c[id]) c[id] = {}
-            c[id][msgId] = { entered: false, ...msg.data }
+            // default profile for this connection type
+            const profile = get(serverData)?.[id.toLowerCase()]?.profile || ""
+            // only the remote has a password step, the profile is set after the data so it can't be changed by the client
+            c[id][msgId] = { ...msg.data, entered: id !== REMOTE, profile }
             return c
         })
         console.info("SERVER: " + msgId + " connected")
@@ -37,7 +43,127 @@ export function client(id: Clients, msg: ClientMessage) {
             return c
         })
         console.info("SERVER: " + msgId + " disconnected")
-    } else sendData(id, msg)
+    } else {
+        // the password has to be entered before anything else is accepted
+        if (!get(connections)[id]?.[msgId]?.entered && msg.channel !== "PASSWORD" && msg.channel !== "ACCESS") {
+            window.api.send(id, { id: msgId, channel: "ERROR", data: "The password has to be entered first" })
+            return
+        }
+
+        const deviceError = checkDeviceAccess(id, msgId, msg)
+        if (deviceError) {
+            window.api.send(id, { id: msgId, channel: "ERROR", data: deviceError })
+            return
+        }
+
+        // blocked by the profile of this connection
+        const accessError = checkClientAccess(id, msg, get(connections)[id]?.[msgId]?.profile)
+        if (accessError) {
+            console.warn(accessError)
+            window.api.send(id, { id: msgId, channel: "ERROR", data: accessError })
+            return
+        }
+
+        sendData(id, msg)
+    }
+}
+
+// DEVICES
+
+export function getDeviceSettings(id: Clients, connectionId: string): ServerDevice {
+    const device = get(connections)[id]?.[connectionId]?.device
+    return (device && get(serverData)[id.toLowerCase()]?.devices?.[device]) || {}
+}
+
+export function updateDeviceSettings<K extends keyof ServerDevice>(id: Clients, connectionId: string, key: K, value: ServerDevice[K]) {
+    const device = get(connections)[id]?.[connectionId]?.device
+    if (!device) return
+
+    updateServerData(id, (data) => {
+        const devices = data.devices || {}
+        const settings: ServerDevice = devices[device] || {}
+
+        if (value) settings[key] = value
+        else delete settings[key]
+
+        devices[device] = settings
+        data.devices = devices
+    })
+
+    // update the device with the new settings
+    if (key === "outputId" && id === REMOTE) {
+        sendData(REMOTE, { id: connectionId, channel: "OUT" })
+        sendData(REMOTE, { id: connectionId, channel: "OUT_DATA" })
+    } else if (key === "outputId" && id === OUTPUT_STREAM) {
+        checkWindowCapture()
+    } else if (key === "stageId" && id === STAGE && value) {
+        window.api.send(STAGE, { id: connectionId, channel: "SWITCH", data: { id: value } })
+    }
+}
+
+// kicked devices are blocked from connecting again, until they are unblocked
+export function kickConnection(id: Clients, connectionId: string) {
+    const device = get(connections)[id]?.[connectionId]?.device
+    if (device) setDeviceBlocked(id, device, true)
+
+    sendMain(Main.SERVER_KICK, { id, connectionId })
+}
+
+export function setDeviceBlocked(id: Clients, device: string, blocked: boolean) {
+    updateServerData(id, (data) => {
+        const blockedDevices = (data.blocked || []).filter((a) => a !== device)
+        if (blocked) blockedDevices.push(device)
+        data.blocked = blockedDevices
+    })
+}
+
+function updateServerData(id: Clients, updater: (data: ServerData) => void) {
+    serverData.update((a) => {
+        const serverId = id.toLowerCase()
+        const data: ServerData = a[serverId] || {}
+        updater(data)
+        a[serverId] = data
+        return a
+    })
+    sendMain(Main.SERVER_DATA, get(serverData))
+}
+
+// a blocked or view only device can get a new device id by clearing its browser data,
+// so devices without a role can only view while any device is blocked or can only view
+export function getDeviceRole(id: Clients, connectionId: string): DeviceRole {
+    const role = getDeviceSettings(id, connectionId).role
+    if (role) return role
+
+    const data: ServerData = get(serverData)[id.toLowerCase()] || {}
+    const isRestricted = !!data.blocked?.length || Object.values(data.devices || {}).some((device) => device.role === "view")
+    return isRestricted ? "view" : "control"
+}
+
+// the device id is from a token issued by the main process
+// devices bound to an output can only control that output
+function checkDeviceAccess(id: Clients, connectionId: string, msg: ClientMessage) {
+    if (!isControlMessage(id, msg)) return ""
+    if (getDeviceRole(id, connectionId) === "view") return "This device can only view"
+
+    const outputId = getDeviceSettings(id, connectionId).outputId
+    if (outputId && get(outputs)[outputId] && isGlobalControlMessage(id, msg)) return "This device can only control its output"
+
+    return ""
+}
+
+function isControlMessage(id: Clients, msg: ClientMessage) {
+    const channel: string = msg.channel
+    if (channel.startsWith("API:")) return !channel.startsWith("API:get_")
+
+    if (id === REMOTE && channel === "OUT") return msg.data !== null && msg.data !== undefined
+    if (id === CONTROLLER) return channel === "ACTION" || channel === "FOCUS"
+    return false
+}
+
+// actions & clearing are applied to all outputs, only selecting a slide is sent to the bound output
+function isGlobalControlMessage(id: Clients, msg: ClientMessage) {
+    if (msg.channel.startsWith("API:")) return true
+    return id === REMOTE && msg.channel === "OUT" && msg.data === "clear"
 }
 
 export function setConnectedState(type: string, connectionId: string, key = "active", value: string | boolean) {
@@ -1,6 +1,7 @@
 import { get } from "svelte/store"
 import { STAGE } from "../../types/Channels"
 import type { OutSlide } from "../../types/Show"
+import type { StageState } from "../../types/Stage"
 import { runAction } from "../components/actions/actions"
 import { clone, keysToID } from "../components/helpers/array"
 import { getBase64Path } from "../components/helpers/media"
@@ -12,7 +13,7 @@ import { actions, events, groups, media, outputs, previewBuffers, showsCache, st
 import { connections } from "./../stores"
 import { translateText } from "./language"
 import { send } from "./request"
-import { arrayToObject, filterObjectArray, sendData, setConnectedState } from "./sendData"
+import { arrayToObject, filterObjectArray, getDeviceSettings, sendData, setConnectedState } from "./sendData"
 
 // WIP loading different paths, might cause returned base64 to be different than it should if previous thumbnail finishes after
 export async function sendBackgroundToStage(outputId, updater = get(outputs), returnPath = false) {
@@ -71,6 +72,24 @@ async function getNextBackground(currentOutputSlide: OutSlide | null, returnPath
     return { path: base64path, filePath: path, mediaStyle: get(media)[path] || {} }
 }
 
+// plain HTML stage display (rendered in main)
+export function getStageState(stageId = ""): StageState {
+    const layouts = receiveSTAGE.LAYOUTS()
+
+    const stageLayout = stageId ? get(stageShows)[stageId] : null
+    const layout = stageLayout && !stageLayout.disabled ? { ...clone(stageLayout), id: stageId } : null
+
+    const outputId = layout?.settings.output || getActiveOutputs(get(outputs), false, true, true)[0]
+    const output = get(outputs)[outputId]
+    const language = { language: output?.language || "", secondLanguage: output?.secondLanguage || "" }
+
+    const outSlide = output?.out?.slide
+    if (!outSlide?.id || outSlide.type) return { layouts, layout, slide: null, show: null, language }
+
+    const slide = { showId: outSlide.id, layoutId: outSlide.layout || "", index: outSlide.index ?? -1, tempItems: clone(outSlide.tempItems) }
+    return { layouts, layout, slide, show: clone(get(showsCache)[outSlide.id]) || null, language }
+}
+
 export const receiveSTAGE = {
     LAYOUTS: () => {
         return keysToID(get(stageShows))
@@ -78,6 +97,13 @@ export const receiveSTAGE = {
             .map((a) => ({ id: a.id, name: a.name, password: !!a.password }))
     },
     LAYOUT: (data: { id: string }, connectionId: string) => {
+        // the device is bound to another stage layout
+        const boundId = getDeviceSettings(STAGE, connectionId).stageId
+        if (boundId && boundId !== data.id && get(stageShows)[boundId] && !get(stageShows)[boundId].disabled) {
+            window.api.send(STAGE, { id: connectionId, channel: "SWITCH", data: { id: boundId } })
+            return
+        }
+
         let layout = get(stageShows)[data.id]
         if (!layout || layout.disabled) return { channel: "ERROR", data: "noShow" }
         // if (show.password.length && show.password !== data.password) return { channel: "ERROR", data: "wrongPass" }
@@ -3,6 +3,9 @@ import type { ContentProviderId } from "../../electron/contentProviders/base/typ
 import { OUTPUT, STARTUP } from "../../types/Channels"
 import { Main } from "../../types/IPC/Main"
 import { checkStartupActions } from "../components/actions/actions"
+import { startApiAccessListener } from "../components/actions/apiAccess"
+import { startApiEvents } from "../components/actions/apiEvents"
+import { startOSCFeedback } from "../components/actions/apiOSC"
 import { getTimeFromInterval } from "../components/helpers/time"
 import { requestMainMultiple, sendMain, sendMainMultiple } from "../IPC/main"
 import { cameraManager } from "../media/cameraManager"
@@ -52,6 +55,9 @@ async function startupMain() {
     await waitUntilValueIsDefined(() => get(loaded), 100, 8000)
     storeSubscriber()
     remoteListen()
+    startOSCFeedback()
+    startApiAccessListener()
+    startApiEvents()
     checkStartupActions()
     autoBackup()
     startTracking()
@@ -13,6 +13,8 @@ import {
     activeProject,
     alertUpdates,
     audioChannelsData,
+    audioBuses,
+    audioDucking,
     audioFolders,
     audioPlaylists,
     audioStreams,
@@ -59,6 +61,7 @@ import {
     ports,
     profiles,
     projectView,
+    readingPlans,
     remotePassword,
     resized,
     serverData,
@@ -272,6 +275,7 @@ const updateList: { [key in SaveListSettings | SaveListSyncedSettings]: any } =
     resized: (v: any) => resized.set(v),
     scriptures: (v: any) => scriptures.set(v),
     scriptureSettings: (v: any) => scriptureSettings.set(v),
+    readingPlans: (v: any) => readingPlans.set(v),
     slidesOptions: (v: any) => slidesOptions.set(v),
     splitLines: (v: any) => splitLines.set(v),
     templateCategories: (v: any) => templateCategories.set(v),
@@ -285,6 +289,8 @@ const updateList: { [key in SaveListSettings | SaveListSyncedSettings]: any } =
     volume: (v: any) => volume.set(v),
     gain: (v: any) => gain.set(v),
     audioChannelsData: (v: any) => audioChannelsData.set(v),
+    audioBuses: (v: any) => audioBuses.set(v),
+    audioDucking: (v: any) => audioDucking.set(v),
     emitters: (v: any) => emitters.set(v),
     midiIn: (v: any) => actions.set(v),
     videoMarkers: (v: any) => videoMarkers.set(v),
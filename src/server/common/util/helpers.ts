@@ -1,3 +1,5 @@
+import type { Socket } from "socket.io-client"
+
 export const getValue = (e: any) => (e.target?.value || "") as string
 export const isChecked = (e: any) => !!e.target?.checked
 
@@ -15,3 +17,16 @@ export function keysToID(object: { [key: string]: any }): any[] {
     let newObjects: any[] = Object.entries(object).map(([id, a]) => ({ ...a, id }))
     return newObjects
 }
+
+// the app issues a device token that is stored in this browser, so device specific settings are kept between connections
+export function getDeviceAuth() {
+    return { device: (localStorage.deviceToken || "") as string }
+}
+
+export function storeDeviceToken(socket: Socket) {
+    socket.on("DEVICE_TOKEN", (token: string) => {
+        localStorage.deviceToken = token
+        // used when reconnecting
+        socket.auth = getDeviceAuth()
+    })
+}
@@ -89,4 +89,4 @@ export function createVirtualBreaks(lines: Line[], skip: boolean = false) {
 export function replaceVirtualBreaks(line: string, replaceWith: string = "<br>") {
     // replace & remove spaces
     return line.replaceAll(VIRTUAL_BREAK_CHAR, replaceWith).replace(/\s*<br>\s*/g, "<br>")
-}
\ No newline at end of file
+}
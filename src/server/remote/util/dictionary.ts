@@ -51,6 +51,8 @@ export const DEFAULT_DICTIONARY = {
         password: "Password",
         wrong_password: "Wrong password",
         quick_play: "Quick play",
+        reconnecting: "Reconnecting...",
+        disconnected: "Disconnected by the operator",
     },
     clear: {
         all: "Clear all",
@@ -1,6 +1,6 @@
 import type { Item, Show } from "../../../types/Show"
 import { setError, translate } from "./helpers"
-import { send } from "./socket"
+import { resync, send } from "./socket"
 import { _, _get, _set, _update, currentScriptureState, overlays, scriptures, scriptureCache } from "./stores"
 
 export type ReceiverKey = keyof typeof receiver
@@ -30,9 +30,9 @@ export const receiver = {
     ACCESS: () => {
         if (_get("password").remember && _get("password").stored.length) localStorage.password = _get("password").stored
         _set("isConnected", true)
-        
-        // Request current output data which should include scripture state
-        send("API:get_output")
+
+        // replay queued commands & request current output data (which should include scripture state)
+        resync()
     },
 
     /////
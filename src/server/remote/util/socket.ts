@@ -1,19 +1,37 @@
 import { io } from "socket.io-client"
-import { _get, _update } from "./stores"
+import { getDeviceAuth, storeDeviceToken } from "../../common/util/helpers"
+import { setError, translate } from "./helpers"
+import { _get, _set, _update } from "./stores"
 import { receiver, ReceiverKey } from "./receiver"
 
-const socket = io()
+const socket = io({ auth: getDeviceAuth() })
+storeDeviceToken(socket)
 let id: string = ""
 
+// commands are queued with sequence numbers while offline, and replayed after the connection is restored
+// unacknowledged messages are also replayed, the app skips sequence numbers it has already handled
+type QueuedMessage = { seq: number; channel: string; data: any; time: number }
+
+// actions older than this are discarded instead of changing the output unexpectedly
+const ACTION_MAX_AGE = 15000 // ms
+const QUEUE_MAX_LENGTH = 100
+const UNQUEUED_CHANNELS = ["PASSWORD", "ACCESS"]
+
+// keep the session when the page reloads, so the app can recognize replayed messages
+const session: string = sessionStorage.remoteSession || (sessionStorage.remoteSession = Math.random().toString(36).slice(2))
+let seq = Number(sessionStorage.remoteSeq || 0)
+let queue: QueuedMessage[] = []
+let hasAccess = false
+
 export function initSocket() {
     socket.on("connect", () => {
         id = socket.id || ""
         console.log("Connected with id:", id)
 
-        // try accessing with saved password
-        const SAVED_PASSWORD = localStorage.password
+        // try accessing with saved password (or the one entered before the connection was lost)
+        const SAVED_PASSWORD = localStorage.password || (_get("isConnected") && _get("password").stored)
         if (SAVED_PASSWORD) {
-            _update("password", "remember", true)
+            if (localStorage.password) _update("password", "remember", true)
             _update("password", "stored", SAVED_PASSWORD)
             send("ACCESS", SAVED_PASSWORD)
             return
@@ -23,7 +41,26 @@ export function initSocket() {
         send("PASSWORD")
     })
 
+    socket.on("disconnect", (reason) => {
+        hasAccess = false
+
+        // kicked by the operator
+        if (reason === "io server disconnect") {
+            queue = []
+            _set("isConnected", false)
+            setError(translate("remote.disconnected"))
+            return
+        }
+
+        _set("isOffline", true)
+    })
+
     socket.on("REMOTE", (msg) => {
+        if (msg.channel === "ACK") {
+            queue = queue.filter((a) => a.seq > msg.data)
+            return
+        }
+
         let key = msg.channel as ReceiverKey
         if (!receiver[key]) {
             if (msg.data !== null) console.log("Unhandled message:", msg)
@@ -39,4 +76,63 @@ export function initSocket() {
     })
 }
 
-export const send = (channel: string, data: any = null) => socket.emit("REMOTE", { id, channel, data })
+export function send(channel: string, data: any = null) {
+    if (UNQUEUED_CHANNELS.includes(channel)) {
+        socket.emit("REMOTE", { id, channel, data })
+        return
+    }
+
+    seq++
+    sessionStorage.remoteSeq = seq
+
+    const msg: QueuedMessage = { seq, channel, data, time: Date.now() }
+    queue.push(msg)
+    if (queue.length > QUEUE_MAX_LENGTH) queue.shift()
+
+    if (hasAccess) emit(msg)
+}
+
+// called when the app has given access
+export function resync() {
+    hasAccess = true
+    _set("isOffline", false)
+
+    replayQueue()
+
+    // request the full state, as updates might have been missed while offline
+    // (projects, folders, output & overlays are sent by the app when access is given)
+    const activeShow = _get("activeShow")
+    if (activeShow?.id) send("SHOW", activeShow.id)
+    send("API:get_output")
+    send("API:get_cleared")
+    send("API:get_playing_audio_data")
+}
+
+function replayQueue() {
+    const now = Date.now()
+    const sent: string[] = []
+
+    queue = queue.filter((msg) => {
+        if (isAction(msg.channel) && now - msg.time > ACTION_MAX_AGE) {
+            console.log("Discarded outdated action:", msg.channel)
+            return false
+        }
+
+        // identical requests only need to be sent once
+        const key = JSON.stringify([msg.channel, msg.data])
+        if (!isAction(msg.channel) && sent.includes(key)) return false
+        sent.push(key)
+
+        return true
+    })
+
+    queue.forEach(emit)
+}
+
+function emit(msg: QueuedMessage) {
+    socket.emit("REMOTE", { id, channel: msg.channel, data: msg.data, seq: msg.seq, session })
+}
+
+function isAction(channel: string) {
+    return channel.startsWith("API:") && !channel.startsWith("API:get_")
+}
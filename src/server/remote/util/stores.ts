@@ -20,6 +20,7 @@ export let password = writable({
 })
 
 export let isConnected = writable(false)
+export let isOffline = writable(false)
 export let quickPlay = writable(false)
 export let createShow = writable(false)
 export let showSearchValue = writable("")
@@ -80,6 +81,7 @@ export const _ = {
     errors,
     password,
     isConnected,
+    isOffline,
     quickPlay,
     activeTab,
     outputMode,
@@ -64,20 +64,20 @@ function getCustomStyle(style: string): string {
 }
 
 // Helper function to scale positioning and sizing based on viewport (matching desktop app behavior)
-function scaleStyleForViewport(style: string): string {
+export function scaleStyleForViewport(style: string, resolution = { width: 1920, height: 1080 }): string {
     if (!style) return "";
 
     const styles = getStyles(style);
     let scaledStyle = "";
 
-    // Scale positioning and sizing from 1920x1080 base to viewport size
+    // Scale positioning and sizing from the resolution (1920x1080 by default) to viewport size
     // This matches the desktop app's percentageStylePos function
     Object.entries(styles).forEach(([key, value]) => {
         if (key === 'left' || key === 'width') {
             // Scale based on viewport width (1920px base)
             const numValue = parseFloat(value);
             if (!isNaN(numValue)) {
-                scaledStyle += `${key}: ${(numValue / 1920) * 100}vw;`;
+                scaledStyle += `${key}: ${(numValue / resolution.width) * 100}vw;`;
             } else {
                 scaledStyle += `${key}: ${value};`;
             }
@@ -85,7 +85,7 @@ function scaleStyleForViewport(style: string): string {
             // Scale based on viewport height (1080px base)
             const numValue = parseFloat(value);
             if (!isNaN(numValue)) {
-                scaledStyle += `${key}: ${(numValue / 1080) * 100}vh;`;
+                scaledStyle += `${key}: ${(numValue / resolution.height) * 100}vh;`;
             } else {
                 scaledStyle += `${key}: ${value};`;
             }
@@ -95,7 +95,7 @@ function scaleStyleForViewport(style: string): string {
             if (!isNaN(numValue)) {
                 // Scale font size based on viewport size (matching desktop app behavior)
                 // Use the smaller dimension to maintain aspect ratio
-                scaledStyle += `${key}: min(${(numValue / 1920) * 100}vw, ${(numValue / 1080) * 100}vh);`;
+                scaledStyle += `${key}: min(${(numValue / resolution.width) * 100}vw, ${(numValue / resolution.height) * 100}vh);`;
             } else {
                 scaledStyle += `${key}: ${value};`;
             }
@@ -0,0 +1,314 @@
+import type { Express, Request, Response } from "express"
+import { escapeXml } from "../../../common/escape"
+import { getItemsInLanguage } from "../../../common/translations"
+import { requestToMain } from "../../../electron/IPC/main"
+import { getRequestDevice } from "../../../electron/servers"
+import { ToMain } from "../../../types/IPC/ToMain"
+import type { Item } from "../../../types/Show"
+import type { StageItem, StageState } from "../../../types/Stage"
+import { getLayoutSlides, scaleStyleForViewport } from "./HtmlSlideHelper"
+
+// Plain HTML stage display for devices that can't run the stage app (old smart TVs, e-readers...)
+// /plain                   list of stage layouts
+// /plain/:stageId          server rendered stage layout, updated by Server-Sent Events (add ?refresh=<seconds> to use meta refresh instead)
+// /plain/:stageId/events   Server-Sent Events with the rendered layout content
+// /slide.json              current & next slide text (add ?layout=<stageId> to use the output of that stage layout, required if any layout has a password)
+// blocked devices & devices bound to a stage layout are handled the same as in the stage app (recognized by a cookie)
+
+const UPDATE_INTERVAL = 1000
+const UPDATE_TIMEOUT = 5000
+const FALLBACK_REFRESH = 5 // seconds
+
+export function addPlainStageRoutes(app: Express): void {
+    app.get("/plain", handleLayoutsRequest)
+    app.get("/plain/:stageId", handleLayoutRequest)
+    app.get("/plain/:stageId/events", handleEventsRequest)
+    app.get("/slide.json", handleSlideTextRequest)
+}
+
+// ROUTES
+
+async function handleLayoutsRequest(req: Request, res: Response): Promise<void> {
+    const boundId = checkDevice(req, res)
+    if (boundId === null) return
+    if (boundId) {
+        res.redirect(`/plain/${encodeURIComponent(boundId)}`)
+        return
+    }
+
+    const state = await requestToMain(ToMain.STAGE_STATE, {})
+    if (!state) {
+        res.status(503).send("FreeShow is not ready")
+        return
+    }
+
+    const links = state.layouts.map(layout => `<li><a href="/plain/${encodeURIComponent(layout.id)}">${escapeXml(layout.name || layout.id)}</a>${layout.password ? " 🔒" : ""}</li>`).join("")
+    res.send(getPage("Stage", `<ul class="layouts">${links}</ul>`))
+}
+
+async function handleLayoutRequest(req: Request, res: Response): Promise<void> {
+    const state = await getLayoutState(req, res)
+    if (!state) return
+
+    const refresh = Number(req.query.refresh) || 0
+    const eventsUrl = `/plain/${encodeURIComponent(req.params.stageId)}/events${req.url.includes("?") ? req.url.slice(req.url.indexOf("?")) : ""}`
+    // the URL is added to an inline script, escaping "<" prevents it from closing the tag ("</script>")
+    const eventsUrlString = JSON.stringify(eventsUrl).replace(/</g, "\\u003c")
+
+    // ES5 for older browsers
+    const updateScript = `<script>
+        if (window.EventSource) {
+            var source = new EventSource(${eventsUrlString});
+            source.onmessage = function (e) { document.getElementById("stage").innerHTML = JSON.parse(e.data).content; };
+        } else {
+            setTimeout(function () { location.reload(); }, ${FALLBACK_REFRESH * 1000});
+        }
+    </script>`
+    const head = refresh ? `<meta http-equiv="refresh" content="${refresh}">` : `<noscript><meta http-equiv="refresh" content="${FALLBACK_REFRESH}"></noscript>`
+
+    const background = state.layout!.settings.color ? `background-color: ${state.layout!.settings.color};` : ""
+    const body = `<div id="stage" style="${escapeXml(background)}">${renderLayoutContent(state)}</div>${refresh ? "" : updateScript}`
+
+    res.send(getPage(state.layout!.name || "Stage", body, head))
+}
+
+async function handleEventsRequest(req: Request, res: Response): Promise<void> {
+    const state = await getLayoutState(req, res)
+    if (!state) return
+
+    const stageId = req.params.stageId
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" })
+    res.write(`data: ${JSON.stringify({ content: renderLayoutContent(state) })}\n\n`)
+
+    if (!eventClients[stageId]) eventClients[stageId] = []
+    eventClients[stageId].push(res)
+    startUpdates()
+
+    req.on("close", () => {
+        eventClients[stageId] = (eventClients[stageId] || []).filter(client => client !== res)
+        if (!eventClients[stageId].length) {
+            delete eventClients[stageId]
+            delete lastContent[stageId]
+        }
+    })
+}
+
+async function handleSlideTextRequest(req: Request, res: Response): Promise<void> {
+    const boundId = checkDevice(req, res)
+    if (boundId === null) return
+
+    const stageId = boundId || (typeof req.query.layout === "string" ? req.query.layout : "")
+    const state = await requestToMain(ToMain.STAGE_STATE, { id: stageId })
+    if (!state) {
+        res.status(503).json({ error: "FreeShow is not ready" })
+        return
+    }
+
+    // the default output is also shown on the password protected layouts
+    if (!stageId && state.layouts.some(layout => layout.password)) {
+        res.status(401).json({ error: "A stage layout password is required, add ?layout=<stageId>&password=<password> to the URL" })
+        return
+    }
+    if (stageId && !isAuthorized(state, req, res)) return
+
+    const current = getSlideAtOffset(state, 0, state.language)
+    const next = getSlideAtOffset(state, 1, state.language)
+    res.json({ show: state.slide ? { id: state.slide.showId, name: state.show?.name || "" } : null, current, next })
+}
+
+async function getLayoutState(req: Request, res: Response): Promise<StageState | null> {
+    const boundId = checkDevice(req, res)
+    if (boundId === null) return null
+    if (boundId && boundId !== req.params.stageId) {
+        res.redirect(`/plain/${encodeURIComponent(boundId)}`)
+        return null
+    }
+
+    const state = await requestToMain(ToMain.STAGE_STATE, { id: req.params.stageId })
+    if (!state) {
+        res.status(503).send("FreeShow is not ready")
+        return null
+    }
+
+    if (!isAuthorized(state, req, res)) return null
+    return state
+}
+
+// returns the stage layout the device is bound to, or null if it's blocked
+function checkDevice(req: Request, res: Response): string | null {
+    const device = getRequestDevice("STAGE", req, res)
+    if (device.blocked) {
+        res.status(403).send("This device is blocked")
+        return null
+    }
+
+    return device.settings.stageId || ""
+}
+
+function isAuthorized(state: StageState, req: Request, res: Response): boolean {
+    if (!state.layout) {
+        res.status(404).send("Stage layout not found")
+        return false
+    }
+
+    if (state.layout.password && req.query.password !== state.layout.password) {
+        res.status(401).send("Wrong password, add ?password=<password> to the URL")
+        return false
+    }
+
+    return true
+}
+
+// UPDATES
+
+const eventClients: { [key: string]: Response[] } = {}
+const lastContent: { [key: string]: string } = {}
+let updateInterval: NodeJS.Timeout | null = null
+let updating = false
+
+function startUpdates(): void {
+    if (updateInterval) return
+    updateInterval = setInterval(sendUpdates, UPDATE_INTERVAL)
+}
+
+async function sendUpdates(): Promise<void> {
+    const stageIds = Object.keys(eventClients)
+    if (!stageIds.length) {
+        if (updateInterval) clearInterval(updateInterval)
+        updateInterval = null
+        return
+    }
+
+    // the app might be busy
+    if (updating) return
+    updating = true
+
+    try {
+        await Promise.all(
+            stageIds.map(async stageId => {
+                const state = await requestStateWithTimeout(stageId)
+                if (!state?.layout) return
+
+                const content = renderLayoutContent(state)
+                if (content === lastContent[stageId]) return
+                lastContent[stageId] = content
+
+                ;(eventClients[stageId] || []).forEach(client => client.write(`data: ${JSON.stringify({ content })}\n\n`))
+            })
+        )
+    } finally {
+        updating = false
+    }
+}
+
+// the request is never answered if the app is reloading
+function requestStateWithTimeout(stageId: string): Promise<StageState | null> {
+    let timeout: NodeJS.Timeout | null = null
+    const timedOut = new Promise<null>(resolve => {
+        timeout = setTimeout(() => resolve(null), UPDATE_TIMEOUT)
+    })
+
+    return Promise.race([requestToMain(ToMain.STAGE_STATE, { id: stageId }), timedOut]).finally(() => {
+        if (timeout) clearTimeout(timeout)
+    })
+}
+
+// RENDER
+
+function renderLayoutContent(state: StageState): string {
+    const layout = state.layout!
+    const resolution = layout.settings.resolution || { width: 1920, height: 1080 }
+    const itemIds = layout.itemOrder || Object.keys(layout.items)
+
+    return itemIds.map(id => renderItem(id, layout.items[id], state, resolution)).join("")
+}
+
+function renderItem(id: string, item: StageItem | undefined, state: StageState, resolution: { width: number; height: number }): string {
+    if (!item || (!item.type && item.enabled === false)) return ""
+
+    const slideOffset = item.type ? Number(item.slideOffset || 0) : id.includes("next") ? 1 : 0
+
+    // the item languages, or the languages of the output
+    const language = item.language || item.secondLanguage ? { language: item.language, secondLanguage: item.secondLanguage } : state.language
+
+    let text = ""
+    if (item.type === "slide_notes" || (!item.type && id.includes("notes"))) {
+        text = getSlideAtOffset(state, slideOffset)?.notes || ""
+    } else if (item.type === "slide_text" || (!item.type && id.includes("slide") && !id.includes("tracker"))) {
+        text = getSlideAtOffset(state, slideOffset, language)?.text || ""
+    } else if (item.type === "slide_tracker" || id.includes("slide_tracker")) {
+        const current = getSlideAtOffset(state, 0)
+        text = current ? `${current.index + 1}/${current.length}` : ""
+    } else if (item.type === "clock" || id.includes("clock")) {
+        const date = new Date()
+        text = `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`
+    } else if (item.type === "text") {
+        text = getLinesText(item.lines)
+    } else {
+        // other items require the stage app
+        return ""
+    }
+
+    const style = scaleStyleForViewport(item.style, resolution)
+    return `<div class="item" style="${escapeXml(style)}"><div class="align" style="${escapeXml(item.align || "")}">${escapeXml(text).replaceAll("\n", "<br>")}</div></div>`
+}
+
+function getPage(title: string, body: string, head = ""): string {
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeXml(title)}</title>${head}<style>${PAGE_STYLE}</style></head><body>${body}</body></html>`
+}
+
+const PAGE_STYLE = `
+    body { margin: 0; background-color: #000; color: #fff; font-family: sans-serif; overflow: hidden; }
+    #stage { position: relative; width: 100vw; height: 100vh; }
+    .item { position: absolute; box-sizing: border-box; overflow: hidden; font-size: 5vh; }
+    .align { display: flex; align-items: center; justify-content: center; text-align: center; width: 100%; height: 100%; }
+    .layouts { font-size: 1.5em; line-height: 2em; }
+    .layouts a { color: #fff; }
+`
+
+// SLIDES
+
+function getSlideAtOffset(state: StageState, offset: number, language: StageState["language"] = {}) {
+    if (!state.slide) return null
+
+    // scripture & other temporary slides
+    if (state.slide.tempItems) {
+        if (offset !== 0) return null
+        return { id: "", index: 0, length: 1, group: "", text: getItemsText(state.slide.tempItems, language), notes: "" }
+    }
+
+    if (!state.show) return null
+
+    const layoutSlides = getLayoutSlides(state.show, state.slide.layoutId)
+    let index = state.slide.index
+
+    // skip disabled slides
+    let steps = Math.abs(offset)
+    while (steps > 0) {
+        index += Math.sign(offset)
+        if (!layoutSlides[index]) return null
+        if (!layoutSlides[index].disabled) steps--
+    }
+
+    const ref = layoutSlides[index]
+    const slide = ref ? state.show.slides[ref.id] : null
+    if (!slide) return null
+
+    const group = slide.group || (ref.parent ? state.show.slides[ref.parent]?.group : "") || ""
+    return { id: ref.id, index, length: layoutSlides.length, group, text: getItemsText(slide.items, language), notes: slide.notes || "" }
+}
+
+function getItemsText(items: Item[] = [], language: StageState["language"] = {}): string {
+    return getItemsInLanguage(items, language?.language, language?.secondLanguage)
+        .map(item => getLinesText(item.lines))
+        .filter(Boolean)
+        .join("\n\n")
+}
+
+function getLinesText(lines: Item["lines"] = []): string {
+    return lines
+        .map(line => (line.text || []).map(text => text.value || "").join(""))
+        .join("\n")
+        .trim()
+}
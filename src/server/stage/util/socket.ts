@@ -1,8 +1,10 @@
 import { io } from "socket.io-client"
 import { uid } from "uid"
+import { getDeviceAuth, storeDeviceToken } from "../../common/util/helpers"
 import { receiver, type ReceiverKey } from "./receiver"
 
-const socket = io()
+const socket = io({ auth: getDeviceAuth() })
+storeDeviceToken(socket)
 let id: string = ""
 
 export function initSocket() {
@@ -12,6 +12,30 @@ export interface AudioChannelData {
     isMuted?: boolean
 }
 
+export interface AudioBus {
+    name: string
+    device?: string // audio output device id (default output if empty)
+    volume?: number
+    muted?: boolean
+    sources?: string[] // "audio" | "video" | "metronome" | "playlist:ID" | "microphone:ID"
+}
+
+export interface AudioDuckingRule {
+    name: string
+    disabled?: boolean
+    triggers: string[] // "video" | "audio" | "microphone" | "playlist" | "playlist:ID" | "microphone:ID"
+    targets: string[] // "audio" | "playlist" | "playlist:ID" | "microphone:ID"
+    threshold?: number // dB level the trigger has to reach
+    amount?: number // dB
+    attack?: number // ms
+    release?: number // ms
+}
+
+export interface AudioLoudness {
+    integrated: number // LUFS (EBU R128)
+    truePeak: number // dBTP
+}
+
 export interface AudioChannel {
     dB: {
         value: number
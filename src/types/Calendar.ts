@@ -6,6 +6,8 @@ export interface Event {
     notes?: string
     location?: string
     action?: any
+    project?: string // linked project
+    autoRun?: EventAutoRun
     show?: string // <= 1.1.7
     isoFrom?: string
     isoTo?: string
@@ -25,3 +27,11 @@ export interface Event {
     }
     group?: string
 }
+
+export interface EventAutoRun {
+    enabled: boolean
+    minutesBefore?: number
+    // same format as actions
+    triggers: string[]
+    actionValues?: { [key: string]: any }
+}
@@ -5,13 +5,14 @@ import type { Bible } from "json-bible/lib/Bible"
 import type os from "os"
 import type { ContentFile, ContentLibraryCategory, ContentProviderId } from "../../electron/contentProviders/base/types"
 import type { stores } from "../../electron/data/store"
-import type { ErrorLog, FileData, LessonsData, LyricSearchResult, MainFilePaths, Media, OS, Subtitle } from "../Main"
+import type { ApiAccess, ApiRequestLog, CloudSecretBackend, ErrorLog, FileData, LessonsData, LyricSearchResult, MainFilePaths, Media, OS, Subtitle } from "../Main"
 import type { Output } from "../Output"
 import type { Folders, Projects } from "../Projects"
 import type { Dictionary, Resolution, Themes } from "../Settings"
 import type { Overlays, Show, Shows, Templates, TrimmedShows } from "../Show"
-import type { ServerData } from "../Socket"
+import type { Clients, ServerData } from "../Socket"
 import type { StageLayouts } from "../Stage"
+import type { AudioLoudness } from "../Audio"
 import type { Event } from "./../Calendar"
 import type { History } from "./../History"
 import type { SaveData, SaveListSyncedSettings } from "./../Save"
@@ -39,6 +40,7 @@ export enum Main {
     MEDIA = "MEDIA",
     THEMES = "THEMES",
     DRIVE_API_KEY = "DRIVE_API_KEY",
+    CLOUD_SECRET = "CLOUD_SECRET",
     HISTORY = "HISTORY",
     USAGE = "USAGE",
     CACHE = "CACHE",
@@ -81,6 +83,8 @@ export enum Main {
     OUTPUT = "OUTPUT",
     DOES_MEDIA_EXIST = "DOES_MEDIA_EXIST",
     GET_THUMBNAIL = "GET_THUMBNAIL",
+    GET_AUDIO_LOUDNESS = "GET_AUDIO_LOUDNESS",
+    SAVE_AUDIO_LOUDNESS = "SAVE_AUDIO_LOUDNESS",
     SAVE_IMAGE = "SAVE_IMAGE",
     PDF_TO_IMAGE = "PDF_TO_IMAGE",
     READ_EXIF = "READ_EXIF",
@@ -103,15 +107,26 @@ export enum Main {
     START = "START",
     STOP = "STOP",
     SERVER_DATA = "SERVER_DATA",
+    SERVER_KICK = "SERVER_KICK",
     WEBSOCKET_START = "WEBSOCKET_START",
     WEBSOCKET_STOP = "WEBSOCKET_STOP",
     API_TRIGGER = "API_TRIGGER",
     EMIT_OSC = "EMIT_OSC",
+    OSC_FEEDBACK = "OSC_FEEDBACK",
+    API_ACCESS = "API_ACCESS",
+    API_REQUEST_LOG = "API_REQUEST_LOG",
+    API_REQUEST_LOG_CLEAR = "API_REQUEST_LOG_CLEAR",
+    API_EVENT = "API_EVENT",
     GET_MIDI_OUTPUTS = "GET_MIDI_OUTPUTS",
     GET_MIDI_INPUTS = "GET_MIDI_INPUTS",
     SEND_MIDI = "SEND_MIDI",
     RECEIVE_MIDI = "RECEIVE_MIDI",
     CLOSE_MIDI = "CLOSE_MIDI",
+    MIDI_TIMECODE = "MIDI_TIMECODE",
+    OUTPUT_STREAM_FRAME = "OUTPUT_STREAM_FRAME",
+    OUTPUT_STREAM_DATA = "OUTPUT_STREAM_DATA",
+    HASH_PASSWORD = "HASH_PASSWORD",
+    MATCH_PASSWORD = "MATCH_PASSWORD",
     GET_LYRICS = "GET_LYRICS",
     SEARCH_LYRICS = "SEARCH_LYRICS",
     RESTORE = "RESTORE",
@@ -154,6 +169,7 @@ export interface MainSendPayloads {
     [Main.OPEN_FOLDER_PATH]: string
     [Main.GET_STORE_VALUE]: { file: "config" | keyof typeof stores; key: string }
     [Main.SET_STORE_VALUE]: { file: "config" | keyof typeof stores; key: string; value: any }
+    [Main.CLOUD_SECRET]: { backend: CloudSecretBackend; value: string }
     [Main.DELETE_SHOWS]: { shows: { id: string; name: string }[]; path: string }
     [Main.DELETE_SHOWS_NI]: { shows: TrimmedShows; path: string }
     [Main.REFRESH_SHOWS]: { path: string }
@@ -162,6 +178,8 @@ export interface MainSendPayloads {
     [Main.OUTPUT]: "true" | "false"
     [Main.DOES_MEDIA_EXIST]: { path: string; creationTime?: number; noCache?: boolean }
     [Main.GET_THUMBNAIL]: { input: string; size: number }
+    [Main.GET_AUDIO_LOUDNESS]: { path: string }
+    [Main.SAVE_AUDIO_LOUDNESS]: { path: string; loudness: AudioLoudness }
     [Main.SAVE_IMAGE]: { path: string; base64?: string; filePath?: string[]; format?: "png" | "jpg" }
     [Main.PDF_TO_IMAGE]: { dataPath: string; filePath: string }
     [Main.READ_EXIF]: { id: string }
@@ -179,14 +197,23 @@ export interface MainSendPayloads {
     [Main.PRESENTATION_CONTROL]: { action: string }
     [Main.START]: { ports: { [key: string]: number }; max: number; disabled: { [key: string]: boolean }; data: { [key: string]: ServerData } }
     [Main.SERVER_DATA]: { [key: string]: any }
+    [Main.SERVER_KICK]: { id: Clients; connectionId: string }
     [Main.WEBSOCKET_START]: number
     [Main.API_TRIGGER]: { action: string; returnId: string; data: any }
     [Main.EMIT_OSC]: { signal: any; data: any }
+    [Main.OSC_FEEDBACK]: { signal: { host?: string; port?: number }; address: string; args: any[] }
+    [Main.API_ACCESS]: ApiAccess
+    [Main.API_EVENT]: { event: string; data: any }
     [Main.GET_MIDI_OUTPUTS]: string[]
     [Main.GET_MIDI_INPUTS]: string[]
     [Main.SEND_MIDI]: any
     [Main.RECEIVE_MIDI]: any
     [Main.CLOSE_MIDI]: { id: string }
+    [Main.MIDI_TIMECODE]: { input: string }
+    [Main.OUTPUT_STREAM_FRAME]: { outputId: string }
+    [Main.OUTPUT_STREAM_DATA]: { outputId: string; buffer?: Uint8Array; error?: string }
+    [Main.HASH_PASSWORD]: { password: string }
+    [Main.MATCH_PASSWORD]: { password: string; hashes: { [key: string]: string } }
     [Main.GET_LYRICS]: { song: LyricSearchResult }
     [Main.SEARCH_LYRICS]: { artist: string; title: string }
     [Main.RESTORE]: { showsPath: string }
@@ -234,6 +261,7 @@ export interface MainReturnPayloads {
     [Main.MEDIA]: Media
     [Main.THEMES]: { [key: string]: Themes }
     [Main.DRIVE_API_KEY]: any
+    [Main.CLOUD_SECRET]: boolean
     [Main.HISTORY]: { undo: History[]; redo: History[] }
     [Main.USAGE]: any
     [Main.CACHE]: any
@@ -257,6 +285,7 @@ export interface MainReturnPayloads {
     [Main.GET_WINDOWS]: Promise<{ name: string; id: string }[]>
     [Main.DOES_MEDIA_EXIST]: Promise<{ path: string; exists: boolean; creationTime?: number }>
     [Main.GET_THUMBNAIL]: { output: string; input: string; size: number }
+    [Main.GET_AUDIO_LOUDNESS]: Promise<{ path: string; loudness: AudioLoudness | null }>
     // [Main.PDF_TO_IMAGE]: Promise<string[]>
     [Main.READ_EXIF]: Promise<{ id: string; exif: ExifData }>
     [Main.MEDIA_CODEC]: Promise<{ path: string; codecs: string[]; mimeType: string; mimeCodec: string }>
@@ -265,8 +294,12 @@ export interface MainReturnPayloads {
     // [Main.MEDIA_BASE64]: { id: string; content: string }[]
     [Main.CAPTURE_SLIDE]: Promise<{ base64: string } | undefined>
     [Main.SLIDESHOW_GET_APPS]: string[]
+    [Main.API_REQUEST_LOG]: ApiRequestLog[]
     [Main.GET_MIDI_OUTPUTS]: { name: string }[]
     [Main.GET_MIDI_INPUTS]: { name: string }[]
+    [Main.OUTPUT_STREAM_FRAME]: Buffer | null
+    [Main.HASH_PASSWORD]: string
+    [Main.MATCH_PASSWORD]: string
     [Main.GET_LYRICS]: Promise<{ lyrics: string; source: string; title: string; artist: string }>
     [Main.SEARCH_LYRICS]: Promise<LyricSearchResult[]>
     [Main.DOES_PATH_EXIST]: { path: string; dataPath: string; exists: boolean }
@@ -1,6 +1,7 @@
 import type { ICommonTagsResult } from "music-metadata"
 import type { ContentProviderId } from "../../electron/contentProviders/base/types"
 import type { TrimmedShows } from "../Show"
+import type { StageState } from "../Stage"
 
 export enum ToMain {
     ALERT = "ALERT",
@@ -20,6 +21,10 @@ export enum ToMain {
     WEBSOCKET = "WEBSOCKET",
     AUDIO_METADATA = "AUDIO_METADATA",
     GET_DYNAMIC_VALUES = "GET_DYNAMIC_VALUES",
+    API_SUBSCRIPTIONS = "API_SUBSCRIPTIONS",
+    TIMECODE = "TIMECODE",
+    STAGE_STATE = "STAGE_STATE",
+    OUTPUT_STREAM_ENCODER = "OUTPUT_STREAM_ENCODER",
     // Main
     IMPORT2 = "IMPORT2",
     SHOW2 = "SHOW2",
@@ -49,6 +54,10 @@ export interface ToMainSendPayloads {
     [ToMain.WEBSOCKET]: "connected"
     [ToMain.AUDIO_METADATA]: { filePath: string; metadata: ICommonTagsResult }
     [ToMain.GET_DYNAMIC_VALUES]: string[]
+    [ToMain.API_SUBSCRIPTIONS]: string[]
+    [ToMain.TIMECODE]: { time: number; fps: number; source: "mtc" }
+    [ToMain.STAGE_STATE]: { id?: string }
+    [ToMain.OUTPUT_STREAM_ENCODER]: { outputId: string; active: boolean; framerate: number }
     ///
     [ToMain.IMPORT2]: { channel: string; data: ({ content: Buffer | string | object; name?: string; extension?: string } | string)[]; custom?: any }
     [ToMain.SHOW2]: { error?: string; err?: NodeJS.ErrnoException; id: string }
@@ -58,12 +67,13 @@ export interface ToMainSendPayloads {
     [ToMain.API_TRIGGER2]: { action: string; returnId: string; data: any }
     [ToMain.OPEN_FOLDER2]: { channel: string; path: string; showsPath?: string }
     [ToMain.OPEN_FILE2]: { channel: string; id: string; files: string[]; content: { [key: string]: string } }
-    [ToMain.RECEIVE_MIDI2]: { id: string; values: any; type: "noteon" | "noteoff" | "control" }
+    [ToMain.RECEIVE_MIDI2]: { id: string; values: any; type: "noteon" | "noteoff" | "control" | "msc" }
 }
 
 export interface ToMainReturnPayloads {
     [ToMain.API]: Promise<any>
     [ToMain.GET_DYNAMIC_VALUES]: Promise<{ [key: string]: string }>
+    [ToMain.STAGE_STATE]: StageState
 }
 
 ///////////
@@ -198,6 +198,30 @@ export type LyricSearchResult = {
     originalQuery?: string
 }
 
+export type CloudBackendId = "google_drive" | "webdav" | "s3" | "folder"
+// the WebDAV password & S3 secret key are stored encrypted in the main process, only the time it was set is stored in the settings
+export type CloudSecretBackend = "webdav" | "s3"
+export interface CloudBackendsConfig {
+    webdav?: { url: string; username: string; secretUpdated?: number }
+    // S3 compatible storage (AWS, MinIO, Backblaze, Wasabi...)
+    s3?: { endpoint: string; region: string; bucket: string; accessKeyId: string; prefix?: string; secretUpdated?: number }
+    // a shared/local folder (network share, Syncthing, Dropbox...)
+    folder?: { path: string }
+}
+// changed on both computers since the last sync
+export interface CloudConflict {
+    id: string
+    type: "show" | "project"
+    parentId: string
+    parentName: string
+    itemType: "slide" | "layout" | "item"
+    itemId: string
+    // undefined if deleted
+    local: any
+    cloud: any
+}
+export type CloudConflictChoice = "mine" | "theirs" | "both"
+
 export interface DriveData {
     mainFolderId: string | null
     path: string | null
@@ -276,9 +300,34 @@ export interface Profile {
     color: string
     image: string
     access: { [key: string]: { [key: string]: AccessType } }
+    remotePassword?: string // remote connections with this password will use this profile
 }
 export type AccessType = "none" | "read" | "write"
 
+export interface ApiKey {
+    name: string
+    key: string
+    created: number
+    profile?: string
+    allowedActions?: string[] // all actions are allowed if empty
+    rateLimit?: number // max requests per minute
+}
+export interface ApiRequestLog {
+    time: number
+    source: "WebSocket" | "REST" | "OSC"
+    address: string
+    key: string // key name
+    action: string
+    status: "ok" | "denied" | "unauthorized" | "rate_limited"
+}
+export interface ApiAccess {
+    profile: string
+    blocked: { [key: string]: string[] } // blocked actions per profile
+    blockedEvents: { [key: string]: string[] } // blocked WebSocket events per profile
+    requireKey: boolean
+    keys: { [key: string]: Omit<ApiKey, "key" | "created"> }
+}
+
 export interface ErrorLog {
     time: Date
     os: string
@@ -319,6 +368,7 @@ export type Popups =
     | "variable"
     | "trigger"
     | "audio_stream"
+    | "audio_ducking"
     | "aspect_ratio"
     | "max_lines"
     | "transition"
@@ -327,6 +377,7 @@ export type Popups =
     | "import_scripture"
     | "create_collection"
     | "scripture_show"
+    | "reading_plans"
     | "edit_event"
     | "choose_chord"
     | "choose_screen"
@@ -357,8 +408,11 @@ export type Popups =
     | "slide_midi"
     | "user_data_overwrite"
     | "connect"
+    | "connected_devices"
+    | "api_keys"
     | "cloud_update"
     | "cloud_method"
+    | "cloud_conflicts"
     | "chums_sync_categories"
     | "effect_items"
 
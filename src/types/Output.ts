@@ -30,6 +30,8 @@ export interface Output {
     invisible?: boolean
     taskbar?: boolean
     style?: string
+    language?: string // show translated item lines (the original text if empty)
+    secondLanguage?: string // stacked below the first language ("original" for the original text)
     show?: any
     out?: OutData
 }
@@ -23,6 +23,7 @@ export type SaveListSyncedSettings =
     | "audioPlaylists"
     | "scriptures"
     | "scriptureSettings"
+    | "readingPlans"
     | "groups"
     | "midiIn"
     | "emitters"
@@ -74,6 +75,8 @@ export type SaveListSettings =
     | "volume"
     | "gain"
     | "audioChannelsData"
+    | "audioBuses"
+    | "audioDucking"
     | "driveData"
     | "calendarAddShow"
     | "metronome"
@@ -10,4 +10,24 @@ export interface BibleContent {
     activeVerses: (number | string)[][]
     attributionString: string
     attributionRequired: boolean
-}
\ No newline at end of file
+    // set if the verses were mapped from the numbering of the first translation
+    versification?: { scheme: VersificationScheme; mappedFrom: VersificationScheme; verses: { [key: string]: string } }
+}
+
+export type VersificationScheme = "default" | "hebrew" | "lxx"
+export interface ScriptureReference {
+    book: number | string
+    chapters: (number | string)[]
+    verses: (number | string)[][]
+}
+
+// imported reading plans & lectionary calendars
+export interface ReadingPlan {
+    name: string
+    // lectionaries have readings on specific dates (YYYY-MM-DD)
+    dates?: { [key: string]: string[] }
+    // reading plans have readings for each day, counted from the start date
+    days?: string[][]
+    startDate?: string
+    disabled?: boolean
+}
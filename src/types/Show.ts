@@ -141,6 +141,7 @@ export interface Item {
     visualizer?: any
     captions?: any
     language?: string // used to store auto localized text
+    translations?: { [key: string]: Line[] } // translated lines by language code
     fromTemplate?: boolean // these will be removed if another template is applied
     // media: fit, startAt, endAt
     // tag?: string; // p, div????
@@ -284,6 +285,7 @@ export interface Recording {
     // name: string
     // useDurationTime?: boolean // moved to global settings
     layoutAtRecording: string // store layout ids to detect changes
+    timecodeStart?: string // "HH:MM:SS:FF" - follow the external timecode from this position
     sequence: {
         time: number
         slideRef: { id: string; index: number }
@@ -385,8 +387,8 @@ export interface Media {
 
 export interface Action {
     name: string
-    triggers: string[]
-    actionValues?: any[]
+    triggers: string[] // run in order, "condition_if"/"condition_else"/"condition_end" & "repeat"/"repeat_end" control the flow
+    actionValues?: any[] // condition_if: { conditions: Condition; matchAny?: boolean }, repeat: { number }
     tags?: string[]
     // action?: string
     // actionData?: any
@@ -410,7 +412,7 @@ export interface Action {
 export interface MidiValues {
     input?: string
     output?: string
-    type: "noteon" | "noteoff" | "control"
+    type: "noteon" | "noteoff" | "control" | "msc"
     values: {
         channel: number
         // Note
@@ -419,6 +421,10 @@ export interface MidiValues {
         // CC
         controller?: number
         value?: number
+        // MIDI Show Control
+        command?: string
+        cue?: string
+        deviceId?: number
     }
 }
 
@@ -3,6 +3,10 @@ export interface Message {
     data?: any
     id?: string
 
+    // remote commands queued while offline
+    seq?: number
+    session?: string
+
     name?: string
     path?: string
 }
@@ -22,4 +26,16 @@ type ClientChannels = "API" | "CONNECTION" | "DISCONNECT" | "ERROR" | "DATA" | "
 export interface ServerData {
     outputId?: string
     sendAudio?: boolean
+    profile?: string // limit access for new connections
+    devices?: { [key: string]: ServerDevice } // by the device id stored in the browser
+    blocked?: string[] // device ids that are not allowed to connect
+}
+
+// settings for each connected device
+export interface ServerDevice {
+    name?: string
+    role?: DeviceRole
+    outputId?: string // remote & output stream
+    stageId?: string // stage layout
 }
+export type DeviceRole = "control" | "view"
@@ -1,12 +1,23 @@
 import type { AutosizeTypes } from "../frontend/components/edit/scripts/autosize"
 import type { Resolution } from "./Settings"
-import type { Condition, Line } from "./Show"
+import type { Condition, Item, Line, Show } from "./Show"
 
 export interface ActiveStage {
     id: null | string
     items: string[]
 }
 
+// used by the plain HTML stage display
+export interface StageState {
+    layouts: { id: string; name: string; password: boolean }[]
+    layout: (StageLayout & { id: string }) | null
+    // current output slide
+    slide: { showId: string; layoutId: string; index: number; tempItems?: Item[] } | null
+    show: Show | null
+    // translation languages of the output
+    language?: { language?: string; secondLanguage?: string }
+}
+
 export interface StageLayouts {
     [key: string]: StageLayout
 }
@@ -60,6 +71,8 @@ export interface StageItem {
     lineCount?: number // max lines to show in next slide preview
     itemNumber?: number // only show a certain item index (0 will show all items)
     invertItems?: boolean // invert items if more than one (used for e.g. scripture refs)
+    language?: string // translated item lines
+    secondLanguage?: string
 
     // textbox
     lines?: Line[]
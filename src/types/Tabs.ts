@@ -1,3 +1,5 @@
+import type { VersificationScheme } from "./Scripture"
+
 export interface Categories {
     [key: string]: Category
 }
@@ -25,6 +27,7 @@ export interface BibleCategories extends Category {
     attributionRequired?: boolean // API needs attribution
     attributionString?: string // API needs custom attribution
     favorite?: boolean // marked as favorite
+    versification?: VersificationScheme // verse numbering tradition (used to align collections)
     collection?: {
         versions: string[]
         previewIndex?: number